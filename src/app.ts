@@ -6,11 +6,15 @@ import cookieParser from "cookie-parser";
 import compression from "compression";
 import rateLimit from "express-rate-limit";
 import { errorHandler, notFound } from "./middleware/errorMiddleware";
+import { getLocalStorageConfig, getStorageDriverName } from "./config/storage";
 
 // Import routes
 import authRoutes from "./routes/auth.routes";
 import userRoutes from "./routes/user.route";
 import itineraryRoutes from "./routes/itinerary.route";
+import sharedRoutes from "./routes/shared.route";
+import invitationRoutes from "./routes/invitation.route";
+import calendarRoutes from "./routes/calendar.route";
 
 const app: Application = express();
 
@@ -39,7 +43,8 @@ const corsOptions = {
   credentials: true,
   optionsSuccessStatus: 200,
   methods: ["GET", "POST", "PUT", "DELETE", "PATCH", "OPTIONS"],
-  allowedHeaders: ["Content-Type", "Authorization"],
+  allowedHeaders: ["Content-Type", "Authorization", "If-Match", "If-None-Match"],
+  exposedHeaders: ["ETag"],
 };
 
 console.log("CORS Origins configured:", corsOrigins);
@@ -69,6 +74,19 @@ app.use(compression());
 const logFormat = process.env.NODE_ENV === "development" ? "dev" : "combined";
 app.use(morgan(logFormat));
 
+// Uploaded files (avatars) when stored on local disk
+if (getStorageDriverName() === "local") {
+  app.use(
+    "/uploads",
+    express.static(getLocalStorageConfig().dir, {
+      setHeaders: (res) => {
+        // Helmet defaults to same-origin, which would block the client's <img> tags
+        res.setHeader("Cross-Origin-Resource-Policy", "cross-origin");
+      },
+    })
+  );
+}
+
 // Health Check Route
 app.get("/health", (req: Request, res: Response) => {
   res.status(200).json({
@@ -98,6 +116,9 @@ app.get("/api", (req: Request, res: Response) => {
 app.use("/api/v1/auth", authRoutes);
 app.use("/api/v1/users", userRoutes);
 app.use("/api/v1/itineraries", itineraryRoutes);
+app.use("/api/v1/shared", sharedRoutes);
+app.use("/api/v1/invitations", invitationRoutes);
+app.use("/api/v1/calendar", calendarRoutes);
 
 // 404 Handler - Must be after all routes
 app.use(notFound);
@@ -0,0 +1,88 @@
+// server/src/config/ai.ts
+import { AppError } from "../middleware/errorMiddleware";
+import {
+  AIRequestType,
+  LLMProviderName,
+  LLMRequestSettings,
+} from "../types/llm.type";
+
+const PROVIDERS: LLMProviderName[] = ["openrouter", "openai-compatible", "fixture"];
+
+// Defaults per request type, overridable with AI_<TYPE>_MODEL, AI_<TYPE>_TEMPERATURE, ...
+const REQUEST_DEFAULTS: Record<AIRequestType, LLMRequestSettings> = {
+  itinerary: {
+    model: "openai/gpt-3.5-turbo",
+    temperature: 0.7,
+    maxTokens: 2000,
+    timeoutMs: 30000,
+  },
+  activity: {
+    model: "openai/gpt-3.5-turbo",
+    temperature: 0.8,
+    maxTokens: 1000,
+    timeoutMs: 20000,
+  },
+  chat: {
+    model: "openai/gpt-3.5-turbo",
+    temperature: 0.4,
+    maxTokens: 1500,
+    timeoutMs: 30000,
+  },
+};
+
+const readNumber = (key: string): number | undefined => {
+  const value = process.env[key];
+  if (value === undefined || value.trim() === "") return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+export const getAIProviderName = (): LLMProviderName => {
+  const name = (process.env.AI_PROVIDER || "openrouter").trim() as LLMProviderName;
+  if (!PROVIDERS.includes(name)) {
+    throw new AppError(
+      `Unknown AI_PROVIDER "${name}". Expected one of: ${PROVIDERS.join(", ")}`,
+      500,
+      "CONFIG_ERROR"
+    );
+  }
+  return name;
+};
+
+export const getOpenAICompatibleConfig = () => ({
+  baseUrl: process.env.AI_BASE_URL || "http://localhost:11434/v1",
+  apiKey: process.env.AI_API_KEY,
+});
+
+export const getOpenRouterConfig = () => ({
+  baseUrl: "https://openrouter.ai/api/v1",
+  apiKey: process.env.OPENROUTER_API_KEY,
+  referer: process.env.CLIENT_URL || "http://localhost:3000",
+});
+
+export const getAIFixtureDir = (): string | undefined => process.env.AI_FIXTURE_DIR;
+
+/**
+ * Resolve model, temperature, token limit and timeout for a request type.
+ * AI_MODEL etc. apply to every type; AI_ITINERARY_MODEL etc. win for one type.
+ */
+export const getAIRequestSettings = (type: AIRequestType): LLMRequestSettings => {
+  const defaults = REQUEST_DEFAULTS[type];
+  const prefix = `AI_${type.toUpperCase()}`;
+
+  return {
+    model: process.env[`${prefix}_MODEL`] || process.env.AI_MODEL || defaults.model,
+    temperature:
+      readNumber(`${prefix}_TEMPERATURE`) ??
+      readNumber("AI_TEMPERATURE") ??
+      defaults.temperature,
+    maxTokens:
+      readNumber(`${prefix}_MAX_TOKENS`) ??
+      readNumber("AI_MAX_TOKENS") ??
+      defaults.maxTokens,
+    timeoutMs:
+      readNumber(`${prefix}_TIMEOUT_MS`) ??
+      readNumber("AI_TIMEOUT_MS") ??
+      defaults.timeoutMs,
+  };
+};
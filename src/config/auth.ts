@@ -0,0 +1,49 @@
+// server/src/config/auth.ts
+import { CookieOptions } from "express";
+
+export const REFRESH_COOKIE_NAME = "refreshToken";
+
+export const getAccessTokenTtl = (): string => process.env.ACCESS_TOKEN_TTL || "15m";
+
+// Days a deleted account can still be restored; 0 deletes immediately
+export const getAccountDeletionGraceDays = (): number => {
+  const days = Number(process.env.ACCOUNT_DELETION_GRACE_DAYS ?? 30);
+  return Number.isFinite(days) && days >= 0 ? days : 30;
+};
+
+export const getRefreshTokenTtlDays = (): number =>
+  Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30;
+
+/**
+ * The refresh cookie is only sent to the auth routes. In production the client
+ * is on another site, so it has to be SameSite=None (which requires Secure).
+ */
+export const getRefreshCookieOptions = (): CookieOptions => {
+  const production = process.env.NODE_ENV === "production";
+  return {
+    httpOnly: true,
+    secure: production,
+    sameSite: production ? "none" : "lax",
+    path: "/api/v1/auth",
+  };
+};
+
+export interface LoginProtectionConfig {
+  maxAccountFailures: number; // failures per email before the account is locked
+  maxIpFailures: number; // failures per IP (any email) before the IP is blocked
+  failureWindowMinutes: number;
+  lockoutMinutes: number;
+  freeAttempts: number; // failures before delays start
+  baseDelayMs: number; // doubled for each further failure
+  maxDelayMs: number;
+}
+
+export const getLoginProtectionConfig = (): LoginProtectionConfig => ({
+  maxAccountFailures: Number(process.env.LOGIN_MAX_FAILURES) || 5,
+  maxIpFailures: Number(process.env.LOGIN_MAX_IP_FAILURES) || 20,
+  failureWindowMinutes: Number(process.env.LOGIN_FAILURE_WINDOW_MINUTES) || 15,
+  lockoutMinutes: Number(process.env.LOGIN_LOCKOUT_MINUTES) || 15,
+  freeAttempts: 2,
+  baseDelayMs: 500,
+  maxDelayMs: Number(process.env.LOGIN_MAX_DELAY_MS) || 8000,
+});
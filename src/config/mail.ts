@@ -0,0 +1,49 @@
+// server/src/config/mail.ts
+import { AppError } from "../middleware/errorMiddleware";
+
+export type MailTransportName = "smtp" | "file" | "console";
+
+const TRANSPORTS: MailTransportName[] = ["smtp", "file", "console"];
+
+/**
+ * MAIL_TRANSPORT picks how emails are delivered. Without it, SMTP is used when
+ * SMTP_HOST is set and emails are logged to the console otherwise.
+ */
+export const getMailTransportName = (): MailTransportName => {
+  const name = (
+    process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? "smtp" : "console")
+  ).trim() as MailTransportName;
+
+  if (!TRANSPORTS.includes(name)) {
+    throw new AppError(
+      `Unknown MAIL_TRANSPORT "${name}". Expected one of: ${TRANSPORTS.join(", ")}`,
+      500,
+      "CONFIG_ERROR"
+    );
+  }
+  return name;
+};
+
+export const getSmtpConfig = () => ({
+  host: process.env.SMTP_HOST || "smtp.gmail.com",
+  port: Number(process.env.SMTP_PORT) || 587,
+  secure: process.env.SMTP_SECURE === "true",
+  auth: process.env.SMTP_USER
+    ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+    : undefined,
+});
+
+export const getMailFrom = (): string =>
+  process.env.MAIL_FROM || "WanderWise <no-reply@wanderwise.app>";
+
+export const getMailOutputDir = (): string => process.env.MAIL_OUTPUT_DIR || "tmp/mail";
+
+// Links in emails: reset happens in the client app, verification hits the API
+export const getClientUrl = (): string =>
+  (process.env.CLIENT_URL || "http://localhost:3000").replace(/\/$/, "");
+
+export const getServerUrl = (): string =>
+  (process.env.SERVER_URL || `http://localhost:${process.env.PORT || 5000}`).replace(/\/$/, "");
+
+export const isEmailVerificationRequired = (): boolean =>
+  process.env.REQUIRE_EMAIL_VERIFICATION === "true";
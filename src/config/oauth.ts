@@ -0,0 +1,54 @@
+// server/src/config/oauth.ts
+import { OAuthProviderName } from "../types/oauth.type";
+import { getServerUrl } from "./mail";
+
+export interface OIDCProviderConfig {
+  issuer: string; // endpoints come from <issuer>/.well-known/openid-configuration
+  clientId: string;
+  clientSecret: string;
+  label: string;
+}
+
+export interface GitHubProviderConfig {
+  clientId: string;
+  clientSecret: string;
+  authUrl: string; // github.com, or a mock in tests
+  apiUrl: string;
+}
+
+/**
+ * Providers with credentials configured. "oidc" is any standards-compliant
+ * provider (Auth0, Keycloak, a local mock, ...).
+ */
+export const getOAuthProviderConfigs = () => ({
+  google:
+    process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET
+      ? ({
+          issuer: "https://accounts.google.com",
+          clientId: process.env.GOOGLE_CLIENT_ID,
+          clientSecret: process.env.GOOGLE_CLIENT_SECRET,
+          label: "Google",
+        } as OIDCProviderConfig)
+      : undefined,
+  github:
+    process.env.GITHUB_CLIENT_ID && process.env.GITHUB_CLIENT_SECRET
+      ? ({
+          clientId: process.env.GITHUB_CLIENT_ID,
+          clientSecret: process.env.GITHUB_CLIENT_SECRET,
+          authUrl: (process.env.GITHUB_OAUTH_URL || "https://github.com").replace(/\/$/, ""),
+          apiUrl: (process.env.GITHUB_API_URL || "https://api.github.com").replace(/\/$/, ""),
+        } as GitHubProviderConfig)
+      : undefined,
+  oidc:
+    process.env.OIDC_ISSUER && process.env.OIDC_CLIENT_ID && process.env.OIDC_CLIENT_SECRET
+      ? ({
+          issuer: process.env.OIDC_ISSUER.replace(/\/$/, ""),
+          clientId: process.env.OIDC_CLIENT_ID,
+          clientSecret: process.env.OIDC_CLIENT_SECRET,
+          label: process.env.OIDC_LABEL || "Single sign-on",
+        } as OIDCProviderConfig)
+      : undefined,
+});
+
+export const getOAuthRedirectUri = (provider: OAuthProviderName): string =>
+  `${getServerUrl()}/api/v1/auth/oauth/${provider}/callback`;
@@ -0,0 +1,77 @@
+// server/src/config/redis.ts
+import { createClient } from "redis";
+import chalk from "chalk";
+
+export type RedisClient = ReturnType<typeof createClient>;
+
+const CONNECT_TIMEOUT_MS = 5000;
+const MAX_RECONNECT_ATTEMPTS = 5;
+const RETRY_CONNECT_AFTER_MS = 30 * 1000;
+
+let client: RedisClient | null = null;
+let connecting: Promise<RedisClient | null> | null = null;
+let unavailableUntil = 0;
+
+// Back off up to 2s between attempts, then give up so commands fail instead of queueing forever
+const reconnectStrategy = (retries: number) =>
+  retries >= MAX_RECONNECT_ATTEMPTS
+    ? new Error(`Gave up after ${retries} reconnection attempts`)
+    : Math.min((retries + 1) * 250, 2000);
+
+/**
+ * Shared Redis client. Resolves to null when REDIS_URL is not set, so callers
+ * can fall back to in-memory implementations (single node, tests). It also
+ * resolves to null, for RETRY_CONNECT_AFTER_MS, when Redis can't be reached
+ * or the connection was lost for good.
+ */
+export const getRedisClient = async (): Promise<RedisClient | null> => {
+  const url = process.env.REDIS_URL;
+  if (!url) return null;
+  if (client?.isOpen) return client;
+  client = null;
+  if (Date.now() < unavailableUntil) return null;
+  if (connecting) return connecting;
+
+  connecting = (async () => {
+    const redis = createClient({
+      url,
+      socket: { connectTimeout: CONNECT_TIMEOUT_MS, reconnectStrategy },
+    });
+
+    redis.on("error", (err: Error) => {
+      console.error(chalk.red(`Redis error: ${err.message}`));
+    });
+
+    try {
+      await redis.connect();
+      console.log(chalk.green("Redis connected"));
+      client = redis;
+      return client;
+    } catch (err: any) {
+      console.error(chalk.red(`Redis connection failed, using in-memory fallbacks: ${err.message}`));
+      unavailableUntil = Date.now() + RETRY_CONNECT_AFTER_MS;
+      return null;
+    } finally {
+      connecting = null;
+    }
+  })();
+
+  return connecting;
+};
+
+export const disconnectRedis = async (): Promise<void> => {
+  unavailableUntil = 0;
+  if (!client?.isOpen) {
+    client = null;
+    return;
+  }
+
+  try {
+    await client.quit();
+    console.log(chalk.magenta("Redis connection closed"));
+  } catch (err: any) {
+    console.error(chalk.red(`Error closing Redis connection: ${err.message}`));
+  } finally {
+    client = null;
+  }
+};
@@ -0,0 +1,59 @@
+// server/src/config/storage.ts
+import path from "path";
+import { AppError } from "../middleware/errorMiddleware";
+import { StorageDriverName } from "../types/storage.type";
+import { getServerUrl } from "./mail";
+
+const DRIVERS: StorageDriverName[] = ["local", "s3"];
+
+export const getStorageDriverName = (): StorageDriverName => {
+  const name = (process.env.STORAGE_DRIVER || "local").trim() as StorageDriverName;
+  if (!DRIVERS.includes(name)) {
+    throw new AppError(
+      `Unknown STORAGE_DRIVER "${name}". Expected one of: ${DRIVERS.join(", ")}`,
+      500,
+      "CONFIG_ERROR"
+    );
+  }
+  return name;
+};
+
+// Local files are served by app.ts under /uploads
+export const getLocalStorageConfig = () => ({
+  dir: path.resolve(process.env.UPLOADS_DIR || "uploads"),
+  baseUrl: `${getServerUrl()}/uploads`,
+});
+
+/**
+ * Any S3-compatible store (AWS, MinIO, R2, ...). S3_PUBLIC_URL is the base URL
+ * objects are served from, e.g. a CDN or the bucket's public endpoint.
+ */
+export const getS3StorageConfig = () => {
+  const bucket = process.env.S3_BUCKET;
+  if (!bucket) {
+    throw new AppError("S3_BUCKET is required when STORAGE_DRIVER=s3", 500, "CONFIG_ERROR");
+  }
+
+  const region = process.env.S3_REGION || "us-east-1";
+  const endpoint = process.env.S3_ENDPOINT;
+
+  return {
+    bucket,
+    region,
+    endpoint,
+    forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+    credentials:
+      process.env.S3_ACCESS_KEY_ID && process.env.S3_SECRET_ACCESS_KEY
+        ? {
+            accessKeyId: process.env.S3_ACCESS_KEY_ID,
+            secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+          }
+        : undefined,
+    publicUrl: (
+      process.env.S3_PUBLIC_URL || `https://${bucket}.s3.${region}.amazonaws.com`
+    ).replace(/\/$/, ""),
+  };
+};
+
+export const getAvatarMaxBytes = (): number =>
+  Number(process.env.AVATAR_MAX_BYTES) || 5 * 1024 * 1024;
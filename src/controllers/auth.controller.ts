@@ -1,32 +1,72 @@
 // src/controllers/auth.controller.ts
 import { Request, Response } from "express";
+import { REFRESH_COOKIE_NAME, getRefreshCookieOptions } from "../config/auth";
+import { getClientUrl } from "../config/mail";
+import { AppError } from "../middleware/errorMiddleware";
+import { listOAuthProviders } from "../services/oauth.service";
 import { asyncHandler } from "../middleware/errorMiddleware";
 import {
   registerUserService,
   loginUserService,
   forgotPasswordService,
   resetPasswordService,
+  verifyEmailService,
+  resendVerificationService,
+  refreshTokenService,
+  logoutService,
+  logoutAllService,
+  startOAuthLoginService,
+  completeOAuthLoginService,
+  verifyTwoFactorLoginService,
 } from "../services/auth.service";
+import { confirmEmailChangeService } from "../services/user.service";
+import { AuthTokens } from "../services/session.service";
 
 import {
   RegisterDTO,
   LoginDTO,
   ForgotPasswordDTO,
   ResetPasswordDTO,
+  ResendVerificationDTO,
+  ClientInfo,
+  OAuthCallbackDTO,
+  VerifyTwoFactorDTO,
 } from "../dtos/auth.dto";
 
+const getClientInfo = (req: Request): ClientInfo => ({
+  userAgent: req.get("user-agent"),
+  ip: req.ip,
+});
+
+// The refresh token only travels in the httpOnly cookie, never in the body
+const sendWithRefreshCookie = (
+  res: Response,
+  status: number,
+  result: Partial<AuthTokens> & Record<string, unknown>
+) => {
+  const { refreshToken, refreshTokenExpires, ...body } = result;
+
+  if (refreshToken) {
+    res.cookie(REFRESH_COOKIE_NAME, refreshToken, {
+      ...getRefreshCookieOptions(),
+      expires: refreshTokenExpires,
+    });
+  }
+  res.status(status).json(body);
+};
+
 export const registerUser = asyncHandler(
   async (req: Request, res: Response) => {
     const data: RegisterDTO = req.body;
-    const result = await registerUserService(data);
-    res.status(201).json(result);
+    const result = await registerUserService(data, getClientInfo(req));
+    sendWithRefreshCookie(res, 201, result);
   }
 );
 
 export const loginUser = asyncHandler(async (req: Request, res: Response) => {
   const data: LoginDTO = req.body;
-  const result = await loginUserService(data);
-  res.status(200).json(result);
+  const result = await loginUserService(data, getClientInfo(req));
+  sendWithRefreshCookie(res, 200, result);
 });
 
 export const forgotPassword = asyncHandler(
@@ -44,3 +84,115 @@ export const resetPassword = asyncHandler(
     res.status(200).json(result);
   }
 );
+
+export const verifyEmail = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { token } = req.params;
+    const result = await verifyEmailService(token);
+    res.status(200).json(result);
+  }
+);
+
+export const resendVerification = asyncHandler(
+  async (req: Request, res: Response) => {
+    const data: ResendVerificationDTO = req.body;
+    const result = await resendVerificationService(data);
+    res.status(200).json(result);
+  }
+);
+
+export const confirmEmailChange = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { token } = req.params;
+    const result = await confirmEmailChangeService(token);
+    res.status(200).json(result);
+  }
+);
+
+export const verifyTwoFactorLogin = asyncHandler(
+  async (req: Request, res: Response) => {
+    const data: VerifyTwoFactorDTO = req.body;
+    const result = await verifyTwoFactorLoginService(data, getClientInfo(req));
+    sendWithRefreshCookie(res, 200, result);
+  }
+);
+
+export const refreshToken = asyncHandler(
+  async (req: Request, res: Response) => {
+    const result = await refreshTokenService(
+      req.cookies?.[REFRESH_COOKIE_NAME],
+      getClientInfo(req)
+    );
+    sendWithRefreshCookie(res, 200, result);
+  }
+);
+
+export const logout = asyncHandler(async (req: Request, res: Response) => {
+  const result = await logoutService(req.cookies?.[REFRESH_COOKIE_NAME]);
+  res.clearCookie(REFRESH_COOKIE_NAME, getRefreshCookieOptions());
+  res.status(200).json(result);
+});
+
+export const logoutAll = asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user?.id;
+  const result = await logoutAllService(userId!);
+  res.clearCookie(REFRESH_COOKIE_NAME, getRefreshCookieOptions());
+  res.status(200).json(result);
+});
+
+export const getOAuthProviders = asyncHandler(
+  async (req: Request, res: Response) => {
+    res.status(200).json({ success: true, providers: listOAuthProviders() });
+  }
+);
+
+export const startOAuthLogin = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { provider } = req.params;
+    const { url } = await startOAuthLoginService(provider);
+    res.redirect(302, url);
+  }
+);
+
+/**
+ * The provider sends the browser here, so the result goes back to the client
+ * app as a redirect: the access token in the URL fragment (never sent to a
+ * server) and the refresh token in its usual cookie, or an error code.
+ */
+export const oauthCallback = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { provider } = req.params;
+    const data: OAuthCallbackDTO = {
+      code: typeof req.query.code === "string" ? req.query.code : undefined,
+      state: typeof req.query.state === "string" ? req.query.state : undefined,
+      error: typeof req.query.error === "string" ? req.query.error : undefined,
+    };
+    const clientCallback = `${getClientUrl()}/oauth/callback`;
+
+    try {
+      const result = await completeOAuthLoginService(provider, data, getClientInfo(req));
+
+      // 2FA accounts finish with POST /auth/2fa/verify, like password login
+      if (result.mfaRequired) {
+        const fragment = new URLSearchParams({ mfaToken: result.mfaToken });
+        return res.redirect(302, `${clientCallback}#${fragment}`);
+      }
+
+      res.cookie(REFRESH_COOKIE_NAME, result.refreshToken, {
+        ...getRefreshCookieOptions(),
+        expires: result.refreshTokenExpires,
+      });
+
+      const fragment = new URLSearchParams({
+        token: result.token,
+        expiresIn: result.expiresIn,
+        created: String(result.created),
+      });
+      res.redirect(302, `${clientCallback}#${fragment}`);
+    } catch (error) {
+      if (!(error instanceof AppError)) throw error;
+      const fragment = new URLSearchParams({ error: error.code || "OAUTH_FAILED" });
+      res.redirect(302, `${clientCallback}#${fragment}`);
+    }
+  }
+);
@@ -0,0 +1,53 @@
+import { Request, Response } from "express";
+import { asyncHandler } from "../middleware/errorMiddleware";
+import {
+  exportItineraryCalendarService,
+  createCalendarFeedService,
+  revokeCalendarFeedService,
+  getCalendarFeedService,
+} from "../services/calendar.service";
+
+export const exportItineraryCalendar = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?.id;
+    const { id } = req.params;
+
+    const { filename, calendar } = await exportItineraryCalendarService(userId!, id);
+    res.attachment(filename);
+    res.type("text/calendar; charset=utf-8");
+    res.status(200).send(calendar);
+  }
+);
+
+export const createCalendarFeed = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?.id;
+    const { id } = req.params;
+
+    const result = await createCalendarFeedService(userId!, id);
+    res.status(201).json(result);
+  }
+);
+
+export const revokeCalendarFeed = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?.id;
+    const { id } = req.params;
+
+    const result = await revokeCalendarFeedService(userId!, id);
+    res.status(200).json(result);
+  }
+);
+
+export const getCalendarFeed = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { token } = req.params;
+
+    const { calendar } = await getCalendarFeedService(token);
+    // Apps re-fetch on their own schedule; edits and revocation should show up then
+    res.set("Cache-Control", "no-cache");
+    res.set("X-Robots-Tag", "noindex");
+    res.type("text/calendar; charset=utf-8");
+    res.status(200).send(calendar);
+  }
+);
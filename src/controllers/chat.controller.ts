@@ -0,0 +1,44 @@
+import { Request, Response } from "express";
+import { asyncHandler } from "../middleware/errorMiddleware";
+import {
+  getItineraryChatService,
+  sendChatMessageService,
+  applyChatDiffService,
+} from "../services/chat.service";
+import { SendChatMessageDTO } from "../dtos/itinerary.dto";
+import { getItineraryVersion } from "../services/itineraryAccess.service";
+import { parseIfMatch, toETag } from "../utils/etag";
+
+export const getItineraryChat = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?.id;
+    const { id } = req.params;
+
+    const result = await getItineraryChatService(userId!, id);
+    res.status(200).json(result);
+  }
+);
+
+export const sendChatMessage = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?.id;
+    const { id } = req.params;
+    const data: SendChatMessageDTO = req.body;
+
+    const result = await sendChatMessageService(userId!, id, data);
+    res.status(201).json(result);
+  }
+);
+
+export const applyChatDiff = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?.id;
+    const { id, messageId } = req.params;
+
+    const result = await applyChatDiffService(userId!, id, messageId, {
+      ifMatch: parseIfMatch(req.get("If-Match")),
+    });
+    res.set("ETag", toETag(getItineraryVersion(result.itinerary)));
+    res.status(200).json(result);
+  }
+);
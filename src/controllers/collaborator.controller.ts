@@ -0,0 +1,93 @@
+import { Request, Response } from "express";
+import { asyncHandler } from "../middleware/errorMiddleware";
+import {
+  getCollaboratorsService,
+  inviteCollaboratorService,
+  revokeInvitationService,
+  updateCollaboratorService,
+  removeCollaboratorService,
+  getInvitationService,
+  respondToInvitationService,
+} from "../services/collaborator.service";
+import { InviteCollaboratorDTO, UpdateCollaboratorDTO } from "../dtos/itinerary.dto";
+
+export const getCollaborators = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?.id;
+    const { id } = req.params;
+
+    const result = await getCollaboratorsService(userId!, id);
+    res.status(200).json(result);
+  }
+);
+
+export const inviteCollaborator = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?.id;
+    const { id } = req.params;
+    const data: InviteCollaboratorDTO = req.body;
+
+    const result = await inviteCollaboratorService(userId!, id, data);
+    res.status(201).json(result);
+  }
+);
+
+export const revokeInvitation = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?.id;
+    const { id, invitationId } = req.params;
+
+    const result = await revokeInvitationService(userId!, id, invitationId);
+    res.status(200).json(result);
+  }
+);
+
+export const updateCollaborator = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?.id;
+    const { id, collaboratorId } = req.params;
+    const data: UpdateCollaboratorDTO = req.body;
+
+    const result = await updateCollaboratorService(userId!, id, collaboratorId, data);
+    res.status(200).json(result);
+  }
+);
+
+export const removeCollaborator = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?.id;
+    const { id, collaboratorId } = req.params;
+
+    const result = await removeCollaboratorService(userId!, id, collaboratorId);
+    res.status(200).json(result);
+  }
+);
+
+export const getInvitation = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { token } = req.params;
+
+    const result = await getInvitationService(token);
+    res.status(200).json(result);
+  }
+);
+
+export const acceptInvitation = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?.id;
+    const { token } = req.params;
+
+    const result = await respondToInvitationService(userId!, token, true);
+    res.status(200).json(result);
+  }
+);
+
+export const declineInvitation = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?.id;
+    const { token } = req.params;
+
+    const result = await respondToInvitationService(userId!, token, false);
+    res.status(200).json(result);
+  }
+);
@@ -1,18 +1,48 @@
 import { Request, Response } from "express";
-import { asyncHandler } from "../middleware/errorMiddleware";
+import { AppError, asyncHandler } from "../middleware/errorMiddleware";
 import {
   createItineraryService,
   generateAIItineraryService,
+  queueAIItineraryService,
   getUserItinerariesService,
+  getSharedWithMeItinerariesService,
   getItineraryService,
   updateItineraryService,
   addActivityService,
   updateActivityService,
   deleteActivityService,
   deleteItineraryService,
+  regenerateDayService,
+  getActivityAlternativesService,
+  optimizeDayRouteService,
+  getItineraryValidationService,
+  getBudgetSummaryService,
+  addExpenseService,
+  deleteExpenseService,
+  watchItineraryService,
+  createEventsTokenService,
 } from "../services/itinerary.service";
-import { CreateItineraryDTO, GenerateItineraryDTO } from "../dtos/itinerary.dto";
+import { getJobService } from "../services/job.service";
+import { getItineraryVersion } from "../services/itineraryAccess.service";
+import {
+  CreateItineraryDTO,
+  GenerateItineraryDTO,
+  RegenerateDayDTO,
+  ActivityAlternativesDTO,
+  OptimizeRouteDTO,
+  AddExpenseDTO,
+} from "../dtos/itinerary.dto";
 import { IActivity } from "../types/itinerary.type";
+import { IItineraryDocument } from "../models/itinerary.model";
+import { openEventStream } from "../utils/sse";
+import { parseIfMatch, toETag } from "../utils/etag";
+
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+// Clients send this back in If-Match to avoid overwriting newer changes
+const setItineraryETag = (res: Response, itinerary: IItineraryDocument) => {
+  res.set("ETag", toETag(getItineraryVersion(itinerary)));
+};
 
 export const createItinerary = asyncHandler(
   async (req: Request, res: Response) => {
@@ -29,11 +59,100 @@ export const generateAIItinerary = asyncHandler(
     const userId = req.user?.id;
     const data: GenerateItineraryDTO = req.body;
 
-    const result = await generateAIItineraryService(userId!, data);
+    const result = await queueAIItineraryService(userId!, data);
+    res.status(202).json(result);
+  }
+);
+
+export const streamAIItinerary = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?.id;
+    const data: GenerateItineraryDTO = req.body;
+
+    // Abort the upstream AI request if the client goes away mid-generation
+    const controller = new AbortController();
+    res.on("close", () => {
+      if (!res.writableEnded) controller.abort();
+    });
+
+    const stream = openEventStream(res);
+
+    try {
+      const result = await generateAIItineraryService(userId!, data, {
+        signal: controller.signal,
+        onProgress: ({ stage, ...payload }) => stream.send(stage, payload),
+      });
+
+      stream.send("saved", {
+        itinerary: result.itinerary,
+        aiSuggestions: result.aiSuggestions,
+      });
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        const appError =
+          error instanceof AppError
+            ? error
+            : new AppError("Failed to generate itinerary", 500, "INTERNAL_ERROR");
+        console.error("Streaming generation failed:", error);
+        stream.send("error", { message: appError.message, code: appError.code });
+      }
+    } finally {
+      stream.close();
+    }
+  }
+);
+
+export const createEventsToken = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?.id;
+    const { id } = req.params;
+
+    const result = await createEventsTokenService(userId!, id, req.user?.sessionId);
     res.status(201).json(result);
   }
 );
 
+/**
+ * Stream changes made by other clients. Each event is named by its type
+ * (e.g. activity.added) and carries the itinerary's new version.
+ */
+export const streamItineraryEvents = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?.id;
+    const { id } = req.params;
+
+    // Access is checked before switching to SSE so errors are plain JSON
+    let stream: ReturnType<typeof openEventStream> | undefined;
+    const { version, role, unsubscribe } = await watchItineraryService(
+      userId!,
+      id,
+      (event) => stream?.send(event.type, event),
+      () => stream?.close()
+    );
+
+    stream = openEventStream(res);
+    stream.send("ready", { itineraryId: id, version, role });
+
+    const heartbeat = setInterval(() => stream?.ping(), HEARTBEAT_INTERVAL_MS);
+    res.on("close", () => {
+      clearInterval(heartbeat);
+      unsubscribe().catch((error) => {
+        console.error("Failed to unsubscribe from itinerary events:", error);
+      });
+    });
+  }
+);
+
+export const getGenerationJob = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?.id;
+    const { jobId } = req.params;
+
+    const result = await getJobService(userId!, jobId);
+    res.status(200).json(result);
+  }
+);
+
 export const getUserItineraries = asyncHandler(
   async (req: Request, res: Response) => {
     const userId = req.user?.id;
@@ -42,12 +161,79 @@ export const getUserItineraries = asyncHandler(
   }
 );
 
+export const getSharedWithMeItineraries = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?.id;
+    const result = await getSharedWithMeItinerariesService(userId!);
+    res.status(200).json(result);
+  }
+);
+
 export const getItinerary = asyncHandler(
   async (req: Request, res: Response) => {
     const userId = req.user?.id;
     const { id } = req.params;
 
-    const result = await getItineraryService(userId!, id);
+    const { currency } = req.query;
+
+    const result = await getItineraryService(userId!, id, {
+      currency: typeof currency === "string" ? currency : undefined,
+    });
+    setItineraryETag(res, result.itinerary);
+    res.status(200).json(result);
+  }
+);
+
+export const getItineraryValidation = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?.id;
+    const { id } = req.params;
+    const { maxActiveHours } = req.query;
+
+    const result = await getItineraryValidationService(userId!, id, {
+      maxActiveHours: maxActiveHours ? Number(maxActiveHours) : undefined,
+    });
+    res.status(200).json(result);
+  }
+);
+
+export const getBudgetSummary = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?.id;
+    const { id } = req.params;
+
+    const { currency } = req.query;
+
+    const result = await getBudgetSummaryService(userId!, id, {
+      currency: typeof currency === "string" ? currency : undefined,
+    });
+    res.status(200).json(result);
+  }
+);
+
+export const addExpense = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?.id;
+    const { id } = req.params;
+    const data: AddExpenseDTO = req.body;
+
+    const result = await addExpenseService(userId!, id, data, {
+      ifMatch: parseIfMatch(req.get("If-Match")),
+    });
+    res.set("ETag", toETag(result.version));
+    res.status(201).json(result);
+  }
+);
+
+export const deleteExpense = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?.id;
+    const { id, expenseId } = req.params;
+
+    const result = await deleteExpenseService(userId!, id, expenseId, {
+      ifMatch: parseIfMatch(req.get("If-Match")),
+    });
+    res.set("ETag", toETag(result.version));
     res.status(200).json(result);
   }
 );
@@ -58,7 +244,10 @@ export const updateItinerary = asyncHandler(
     const { id } = req.params;
     const data = req.body;
 
-    const result = await updateItineraryService(userId!, id, data);
+    const result = await updateItineraryService(userId!, id, data, {
+      ifMatch: parseIfMatch(req.get("If-Match")),
+    });
+    setItineraryETag(res, result.itinerary);
     res.status(200).json(result);
   }
 );
@@ -73,8 +262,10 @@ export const addActivity = asyncHandler(
       userId!,
       id,
       parseInt(dayNumber),
-      activity
+      activity,
+      { strict: req.query.strict === "true", ifMatch: parseIfMatch(req.get("If-Match")) }
     );
+    setItineraryETag(res, result.itinerary);
     res.status(201).json(result);
   }
 );
@@ -90,8 +281,10 @@ export const updateActivity = asyncHandler(
       id,
       parseInt(dayNumber),
       activityId,
-      updatedActivity
+      updatedActivity,
+      { strict: req.query.strict === "true", ifMatch: parseIfMatch(req.get("If-Match")) }
     );
+    setItineraryETag(res, result.itinerary);
     res.status(200).json(result);
   }
 );
@@ -105,8 +298,63 @@ export const deleteActivity = asyncHandler(
       userId!,
       id,
       parseInt(dayNumber),
-      activityId
+      activityId,
+      { ifMatch: parseIfMatch(req.get("If-Match")) }
+    );
+    setItineraryETag(res, result.itinerary);
+    res.status(200).json(result);
+  }
+);
+
+export const regenerateDay = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?.id;
+    const { id, dayNumber } = req.params;
+    const data: RegenerateDayDTO = req.body || {};
+
+    const result = await regenerateDayService(
+      userId!,
+      id,
+      parseInt(dayNumber),
+      data,
+      { ifMatch: parseIfMatch(req.get("If-Match")) }
+    );
+    if (result.itinerary) setItineraryETag(res, result.itinerary);
+    res.status(200).json(result);
+  }
+);
+
+export const getActivityAlternatives = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?.id;
+    const { id, dayNumber, activityId } = req.params;
+    const data: ActivityAlternativesDTO = req.body || {};
+
+    const result = await getActivityAlternativesService(
+      userId!,
+      id,
+      parseInt(dayNumber),
+      activityId,
+      data
+    );
+    res.status(200).json(result);
+  }
+);
+
+export const optimizeDayRoute = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?.id;
+    const { id, dayNumber } = req.params;
+    const data: OptimizeRouteDTO = req.body || {};
+
+    const result = await optimizeDayRouteService(
+      userId!,
+      id,
+      parseInt(dayNumber),
+      data,
+      { ifMatch: parseIfMatch(req.get("If-Match")) }
     );
+    if (result.itinerary) setItineraryETag(res, result.itinerary);
     res.status(200).json(result);
   }
 );
@@ -0,0 +1,42 @@
+import { Request, Response } from "express";
+import { asyncHandler } from "../middleware/errorMiddleware";
+import {
+  getRevisionsService,
+  getRevisionService,
+  restoreRevisionService,
+} from "../services/revision.service";
+import { getItineraryVersion } from "../services/itineraryAccess.service";
+import { parseIfMatch, toETag } from "../utils/etag";
+
+export const getRevisions = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?.id;
+    const { id } = req.params;
+
+    const result = await getRevisionsService(userId!, id);
+    res.status(200).json(result);
+  }
+);
+
+export const getRevision = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?.id;
+    const { id, revisionId } = req.params;
+
+    const result = await getRevisionService(userId!, id, revisionId);
+    res.status(200).json(result);
+  }
+);
+
+export const restoreRevision = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?.id;
+    const { id, revisionId } = req.params;
+
+    const result = await restoreRevisionService(userId!, id, revisionId, {
+      ifMatch: parseIfMatch(req.get("If-Match")),
+    });
+    res.set("ETag", toETag(getItineraryVersion(result.itinerary)));
+    res.status(200).json(result);
+  }
+);
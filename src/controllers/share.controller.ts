@@ -0,0 +1,52 @@
+import { Request, Response } from "express";
+import { asyncHandler } from "../middleware/errorMiddleware";
+import {
+  createShareLinkService,
+  getShareLinksService,
+  revokeShareLinkService,
+  getSharedItineraryService,
+} from "../services/share.service";
+import { CreateShareLinkDTO } from "../dtos/itinerary.dto";
+
+export const createShareLink = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?.id;
+    const { id } = req.params;
+    const data: CreateShareLinkDTO = req.body || {};
+
+    const result = await createShareLinkService(userId!, id, data);
+    res.status(201).json(result);
+  }
+);
+
+export const getShareLinks = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?.id;
+    const { id } = req.params;
+
+    const result = await getShareLinksService(userId!, id);
+    res.status(200).json(result);
+  }
+);
+
+export const revokeShareLink = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?.id;
+    const { id, shareId } = req.params;
+
+    const result = await revokeShareLinkService(userId!, id, shareId);
+    res.status(200).json(result);
+  }
+);
+
+export const getSharedItinerary = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { token } = req.params;
+
+    const result = await getSharedItineraryService(token);
+    // Revocation has to take effect at once, and shared plans shouldn't be indexed
+    res.set("Cache-Control", "no-store");
+    res.set("X-Robots-Tag", "noindex");
+    res.status(200).json(result);
+  }
+);
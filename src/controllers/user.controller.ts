@@ -1,6 +1,32 @@
 import { Request, Response } from "express";
 import { asyncHandler } from "../middleware/errorMiddleware";
-import { getMeService, deleteMeService } from "../services/user.service";
+import {
+  getMeService,
+  updateProfileService,
+  changePasswordService,
+  requestEmailChangeService,
+  updatePreferencesService,
+  getSessionsService,
+  revokeSessionService,
+  deleteMeService,
+  restoreAccountService,
+  exportMeService,
+} from "../services/user.service";
+import { uploadAvatarService, deleteAvatarService } from "../services/avatar.service";
+import {
+  setupTwoFactorService,
+  confirmTwoFactorService,
+  disableTwoFactorService,
+} from "../services/twoFactor.service";
+import {
+  ChangeEmailDTO,
+  ChangePasswordDTO,
+  ConfirmTwoFactorDTO,
+  DeleteAccountDTO,
+  DisableTwoFactorDTO,
+  UpdatePreferencesDTO,
+  UpdateProfileDTO,
+} from "../dtos/user.dto";
 
 export const getMe = asyncHandler(async (req: Request, res: Response) => {
   const userId = req.user?.id;
@@ -8,8 +34,96 @@ export const getMe = asyncHandler(async (req: Request, res: Response) => {
   res.json(result);
 });
 
+export const updateProfile = asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user?.id;
+  const data: UpdateProfileDTO = req.body;
+  const result = await updateProfileService(userId!, data);
+  res.json(result);
+});
+
+export const changePassword = asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user?.id;
+  const data: ChangePasswordDTO = req.body;
+  const result = await changePasswordService(userId!, data, req.user?.sessionId);
+  res.json(result);
+});
+
+export const requestEmailChange = asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user?.id;
+  const data: ChangeEmailDTO = req.body;
+  const result = await requestEmailChangeService(userId!, data);
+  res.json(result);
+});
+
+export const uploadAvatar = asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user?.id;
+  const result = await uploadAvatarService(userId!, req.file);
+  res.json(result);
+});
+
+export const deleteAvatar = asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user?.id;
+  const result = await deleteAvatarService(userId!);
+  res.json(result);
+});
+
+export const setupTwoFactor = asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user?.id;
+  const result = await setupTwoFactorService(userId!);
+  res.json(result);
+});
+
+export const confirmTwoFactor = asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user?.id;
+  const data: ConfirmTwoFactorDTO = req.body;
+  const result = await confirmTwoFactorService(userId!, data);
+  res.json(result);
+});
+
+export const disableTwoFactor = asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user?.id;
+  const data: DisableTwoFactorDTO = req.body;
+  const result = await disableTwoFactorService(userId!, data);
+  res.json(result);
+});
+
+export const updatePreferences = asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user?.id;
+  const data: UpdatePreferencesDTO = req.body;
+  const result = await updatePreferencesService(userId!, data);
+  res.json(result);
+});
+
+export const getSessions = asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user?.id;
+  const result = await getSessionsService(userId!, req.user?.sessionId);
+  res.json(result);
+});
+
+export const revokeSession = asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user?.id;
+  const { sessionId } = req.params;
+  const result = await revokeSessionService(userId!, sessionId);
+  res.json(result);
+});
+
 export const deleteMe = asyncHandler(async (req: Request, res: Response) => {
   const userId = req.user?.id;
-  const result = await deleteMeService(userId!);
+  const data: DeleteAccountDTO = req.body;
+  const result = await deleteMeService(userId!, data, req.user?.sessionId);
+  res.json(result);
+});
+
+export const restoreAccount = asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user?.id;
+  const result = await restoreAccountService(userId!);
   res.json(result);
 });
+
+export const exportMe = asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user?.id;
+  const archive = await exportMeService(userId!);
+  const date = archive.exportedAt.split("T")[0];
+  res.attachment(`wanderwise-export-${date}.json`);
+  res.json(archive);
+});
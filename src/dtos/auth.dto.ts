@@ -18,3 +18,24 @@ export interface ResetPasswordDTO {
   token: string;
   newPassword: string;
 }
+
+export interface ResendVerificationDTO {
+  email: string;
+}
+
+export interface ClientInfo {
+  userAgent?: string;
+  ip?: string;
+}
+
+export interface OAuthCallbackDTO {
+  code?: string;
+  state?: string;
+  error?: string; // set by the provider when the user denies access
+}
+
+export interface VerifyTwoFactorDTO {
+  mfaToken: string; // from login when 2FA is enabled
+  code?: string;
+  recoveryCode?: string;
+}
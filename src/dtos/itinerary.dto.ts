@@ -1,8 +1,12 @@
+import { CollaboratorRole, ExpenseCategory } from "../types/itinerary.type";
+import { RevisionOperation } from "../types/revision.type";
+
 export interface CreateItineraryDTO {
   destination: string;
   startDate: string; 
   endDate: string; 
   budget?: number;
+  currency?: string;
   travelStyle?: "budget" | "comfort" | "luxury";
   preferences?: string[];
   useAI?: boolean; 
@@ -13,6 +17,7 @@ export interface UpdateItineraryDTO {
   startDate?: string;
   endDate?: string;
   budget?: number;
+  currency?: string;
   travelStyle?: "budget" | "comfort" | "luxury";
   preferences?: string[];
   dayItineraries?: any[];
@@ -24,6 +29,7 @@ export interface GenerateItineraryDTO {
   startDate: string;
   endDate: string;
   budget?: number;
+  currency?: string;
   travelStyle: "budget" | "comfort" | "luxury";
   preferences?: string[];
   numberOfDays: number;
@@ -45,5 +51,78 @@ export interface GenerateActivityDTO {
   date: string;
   weather?: string;
   preferences?: string[];
-  budget?: number;
+  budget?: number; // remaining budget for the trip
+  currency?: string; // currency of budget and the suggested costs
+  travelStyle?: "budget" | "comfort" | "luxury";
+  excludeActivities?: string[]; // names already planned elsewhere in the trip
+  replaceActivity?: {
+    name: string;
+    category: string;
+    time: string;
+    duration: number;
+  };
+  count?: number;
+  instructions?: string;
+}
+
+export interface RegenerateDayDTO {
+  apply?: boolean;
+  instructions?: string;
+}
+
+export interface ActivityAlternativesDTO {
+  count?: number;
+  instructions?: string;
+}
+
+export interface OptimizeRouteDTO {
+  apply?: boolean;
+  speedKmh?: number; // average travel speed between stops
+}
+
+export interface ConcurrencyOptions {
+  ifMatch?: number[] | "*"; // versions from the If-Match header
+}
+
+export interface UpdateItineraryOptions extends ConcurrencyOptions {
+  operation?: RevisionOperation; // how the change is labelled in the revision history
+}
+
+export interface ActivityMutationOptions extends ConcurrencyOptions {
+  strict?: boolean; // reject changes that create schedule conflicts
+}
+
+export interface ValidateItineraryDTO {
+  maxActiveHours?: number;
+}
+
+export interface AddExpenseDTO {
+  day?: number; // defaults to the activity's day when activityId is given
+  activityId?: string;
+  category?: ExpenseCategory; // defaults to the activity's category, else "other"
+  amount: number;
+  currency?: string; // defaults to the itinerary's currency
+  description?: string;
+}
+
+export interface BudgetSummaryDTO {
+  currency?: string; // show amounts in this currency
+}
+
+export interface SendChatMessageDTO {
+  message: string;
+}
+
+export interface CreateShareLinkDTO {
+  label?: string;
+  expiresInDays?: number; // omit for a link that never expires
+}
+
+export interface InviteCollaboratorDTO {
+  email: string;
+  role: CollaboratorRole;
+}
+
+export interface UpdateCollaboratorDTO {
+  role: CollaboratorRole;
 }
@@ -0,0 +1,36 @@
+export interface UpdateProfileDTO {
+  firstName?: string;
+  lastName?: string;
+  avatar?: string;
+}
+
+export interface ChangePasswordDTO {
+  currentPassword: string;
+  newPassword: string;
+}
+
+export interface ChangeEmailDTO {
+  newEmail: string;
+  password: string; // re-authentication
+}
+
+export interface DeleteAccountDTO {
+  password?: string; // re-authentication; optional right after logging in
+}
+
+export interface UpdatePreferencesDTO {
+  preferredCurrency?: string | null; // ISO 4217 code; null clears it
+}
+
+export interface SecondFactorDTO {
+  code?: string; // from the authenticator app
+  recoveryCode?: string;
+}
+
+export interface ConfirmTwoFactorDTO {
+  code: string;
+}
+
+export interface DisableTwoFactorDTO extends SecondFactorDTO {
+  password: string;
+}
@@ -2,6 +2,7 @@
 import { Request, Response, NextFunction } from "express";
 import jwt from "jsonwebtoken";
 import { AppError } from "./errorMiddleware";
+import { verifyEventsToken } from "../services/itineraryAccess.service";
 
 export const authMiddleware = (
   req: Request,
@@ -19,12 +20,33 @@ export const authMiddleware = (
   try {
     const decoded = jwt.verify(token, process.env.JWT_SECRET as string) as {
       id: string;
+      sid?: string;
+      purpose?: string;
     };
 
-    req.user = { id: decoded.id };
+    // Purpose tokens (e.g. the 2FA step of login) are not access tokens
+    if (decoded.purpose) throw new Error("Not an access token");
+
+    req.user = { id: decoded.id, sessionId: decoded.sid };
 
     next();
   } catch (error) {
     throw new AppError("Invalid or expired token", 401, "INVALID_TOKEN");
   }
 };
+
+/**
+ * Auth for an itinerary's event stream: a Bearer token as usual, or a token
+ * from POST /itineraries/:id/events/token in ?token= for EventSource clients
+ */
+export const eventStreamAuthMiddleware = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const { token } = req.query;
+  if (typeof token !== "string") return authMiddleware(req, res, next);
+
+  req.user = verifyEventsToken(token, req.params.id);
+  next();
+};
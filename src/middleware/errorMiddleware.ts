@@ -5,12 +5,14 @@ export class AppError extends Error {
   public statusCode: number;
   public isOperational: boolean;
   public code?: string;
+  public details?: unknown;
 
-  constructor(message: string, statusCode: number, code?: string) {
+  constructor(message: string, statusCode: number, code?: string, details?: unknown) {
     super(message);
     this.statusCode = statusCode;
     this.isOperational = true;
     this.code = code;
+    this.details = details;
     Error.captureStackTrace(this, this.constructor);
   }
 }
@@ -92,6 +94,15 @@ export const errorHandler = (
     error = new AppError("Invalid JSON format", 400, "SYNTAX_ERROR");
   }
 
+  // Optimistic concurrency: the document was saved by someone else after it was loaded
+  if ((err as any)?.name === "VersionError") {
+    error = new AppError(
+      "The document was changed by someone else. Reload and try again",
+      409,
+      "VERSION_CONFLICT"
+    );
+  }
+
   // Handle Prisma errors
   if ((err as any).code === "P2002") {
     const field = (err as any).meta?.target?.[0] || "field";
@@ -116,6 +127,7 @@ export const errorHandler = (
     error: {
       message,
       code,
+      ...(error.details !== undefined && { details: error.details }),
       ...(process.env.NODE_ENV === "development" && {
         stack: (err as any).stack,
         details: err,
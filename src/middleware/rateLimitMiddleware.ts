@@ -0,0 +1,61 @@
+import { NextFunction, Request, Response } from "express";
+import rateLimit, { ipKeyGenerator } from "express-rate-limit";
+import { AppError } from "./errorMiddleware";
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Limiter that reports through the error handler like any other AppError.
+ * These sit on top of the global /api limiter in app.ts.
+ */
+const createLimiter = (options: {
+  windowMs: number;
+  limit: number;
+  message: string;
+  keyGenerator?: (req: Request) => string;
+}) =>
+  rateLimit({
+    windowMs: options.windowMs,
+    limit: options.limit,
+    standardHeaders: true,
+    legacyHeaders: false,
+    ...(options.keyGenerator && { keyGenerator: options.keyGenerator }),
+    handler: (req: Request, res: Response, next: NextFunction) => {
+      next(new AppError(options.message, 429, "RATE_LIMITED"));
+    },
+  });
+
+// Login and its 2FA step; failed attempts are also counted per account in loginProtection.service
+export const loginLimiter = createLimiter({
+  windowMs: 15 * MINUTE_MS,
+  limit: Number(process.env.LOGIN_RATE_LIMIT) || 20,
+  message: "Too many login attempts, please try again later",
+});
+
+export const forgotPasswordLimiter = createLimiter({
+  windowMs: 60 * MINUTE_MS,
+  limit: Number(process.env.FORGOT_PASSWORD_RATE_LIMIT) || 5,
+  message: "Too many password reset requests, please try again later",
+});
+
+// Each request sends an email
+export const resendVerificationLimiter = createLimiter({
+  windowMs: 60 * MINUTE_MS,
+  limit: Number(process.env.RESEND_VERIFICATION_RATE_LIMIT) || 5,
+  message: "Too many verification email requests, please try again later",
+});
+
+// Guards reset tokens against guessing
+export const resetPasswordLimiter = createLimiter({
+  windowMs: 15 * MINUTE_MS,
+  limit: Number(process.env.RESET_PASSWORD_RATE_LIMIT) || 10,
+  message: "Too many password reset attempts, please try again later",
+});
+
+// AI generation is expensive, so it is limited per user (routes are behind authMiddleware)
+export const generateLimiter = createLimiter({
+  windowMs: 60 * MINUTE_MS,
+  limit: Number(process.env.GENERATE_RATE_LIMIT) || 10,
+  message: "Too many itinerary generations, please try again later",
+  keyGenerator: (req) => req.user?.id || ipKeyGenerator(req.ip || ""),
+});
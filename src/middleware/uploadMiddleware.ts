@@ -0,0 +1,49 @@
+import { Request, Response, NextFunction } from "express";
+import multer from "multer";
+import { AppError } from "./errorMiddleware";
+import { getAvatarMaxBytes } from "../config/storage";
+
+export const AVATAR_MIME_TYPES = ["image/jpeg", "image/png", "image/webp"];
+
+/**
+ * Accept a single image in the "avatar" field, kept in memory for processing.
+ * Multer's errors are turned into AppErrors so they get the usual JSON shape.
+ */
+export const parseAvatarUpload = (req: Request, res: Response, next: NextFunction) => {
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: getAvatarMaxBytes(), files: 1 },
+    fileFilter: (_req, file, cb) => {
+      if (!AVATAR_MIME_TYPES.includes(file.mimetype)) {
+        cb(
+          new AppError(
+            `Unsupported image type. Allowed: ${AVATAR_MIME_TYPES.join(", ")}`,
+            415,
+            "UNSUPPORTED_FILE_TYPE"
+          )
+        );
+        return;
+      }
+      cb(null, true);
+    },
+  }).single("avatar");
+
+  upload(req, res, (error: unknown) => {
+    if (!error) return next();
+
+    if (error instanceof multer.MulterError) {
+      if (error.code === "LIMIT_FILE_SIZE") {
+        return next(
+          new AppError(
+            `Avatar must be smaller than ${Math.round(getAvatarMaxBytes() / (1024 * 1024))} MB`,
+            413,
+            "FILE_TOO_LARGE"
+          )
+        );
+      }
+      return next(new AppError(error.message, 400, "INVALID_UPLOAD"));
+    }
+
+    next(error);
+  });
+};
@@ -1,6 +1,77 @@
 import { Request, Response, NextFunction } from "express";
 import { AppError } from "./errorMiddleware";
 
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const NAME_MIN_LENGTH = 2;
+const PASSWORD_MIN_LENGTH = 6;
+const AVATAR_URL_MAX_LENGTH = 2048;
+
+// Field rules shared by registration and profile updates
+
+const checkName = (value: unknown, label: "First name" | "Last name") => {
+  if (String(value).trim().length < NAME_MIN_LENGTH) {
+    throw new AppError(
+      `${label} must be at least ${NAME_MIN_LENGTH} characters`,
+      400,
+      label === "First name" ? "INVALID_FIRST_NAME" : "INVALID_LAST_NAME"
+    );
+  }
+};
+
+const checkEmail = (value: unknown) => {
+  if (!EMAIL_REGEX.test(String(value).trim().toLowerCase())) {
+    throw new AppError("Invalid email format", 400, "INVALID_EMAIL");
+  }
+};
+
+const checkPassword = (value: unknown) => {
+  if (String(value).length < PASSWORD_MIN_LENGTH) {
+    throw new AppError(
+      `Password must be at least ${PASSWORD_MIN_LENGTH} characters`,
+      400,
+      "INVALID_PASSWORD"
+    );
+  }
+};
+
+// Clients render it as an image, so only absolute http(s) URLs; "" clears it
+const checkAvatarUrl = (value: unknown) => {
+  if (typeof value !== "string") {
+    throw new AppError("Avatar must be a URL string", 400, "INVALID_AVATAR");
+  }
+
+  const url = value.trim();
+  if (url === "") return;
+
+  let protocol: string | undefined;
+  try {
+    protocol = new URL(url).protocol;
+  } catch {
+    protocol = undefined;
+  }
+  if (url.length > AVATAR_URL_MAX_LENGTH || (protocol !== "http:" && protocol !== "https:")) {
+    throw new AppError(
+      `Avatar must be an http(s) URL of at most ${AVATAR_URL_MAX_LENGTH} characters`,
+      400,
+      "INVALID_AVATAR"
+    );
+  }
+};
+
+const forwardValidationError = (error: unknown, next: NextFunction) => {
+  if (error instanceof AppError) {
+    next(error);
+  } else {
+    next(
+      new AppError(
+        error instanceof Error ? error.message : "Validation error",
+        400,
+        "VALIDATION_ERROR"
+      )
+    );
+  }
+};
+
 export const validateRegister = (
   req: Request,
   res: Response,
@@ -31,105 +102,153 @@ export const validateRegister = (
       );
     }
 
-    // Convert to strings if needed
-    const firstNameStr = String(firstName).trim();
-    const lastNameStr = String(lastName).trim();
-    const emailStr = String(email).trim().toLowerCase();
-    const passwordStr = String(password);
+    checkName(firstName, "First name");
+    checkName(lastName, "Last name");
+    checkEmail(email);
+    checkPassword(password);
+
+    console.log("Register validation passed");
+    next();
+  } catch (error) {
+    forwardValidationError(error, next);
+  }
+};
+
+export const validateLogin = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  try {
+    const { email, password } = req.body;
 
-    // Validate firstName
-    if (firstNameStr.length < 2) {
+    if (!email || !password) {
       throw new AppError(
-        "First name must be at least 2 characters",
+        "Email and password are required",
         400,
-        "INVALID_FIRST_NAME"
+        "MISSING_FIELDS"
       );
     }
 
-    // Validate lastName
-    if (lastNameStr.length < 2) {
+    checkEmail(email);
+    checkPassword(password);
+
+    next();
+  } catch (error) {
+    forwardValidationError(error, next);
+  }
+};
+
+export const validateUpdateProfile = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  try {
+    const { firstName, lastName, avatar, email, password } = req.body || {};
+
+    if (email !== undefined) {
       throw new AppError(
-        "Last name must be at least 2 characters",
+        "Use POST /users/me/email to change your email",
         400,
-        "INVALID_LAST_NAME"
+        "EMAIL_CHANGE_REQUIRES_VERIFICATION"
       );
     }
 
-    // Validate email
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    if (!emailRegex.test(emailStr)) {
-      throw new AppError("Invalid email format", 400, "INVALID_EMAIL");
+    if (password !== undefined) {
+      throw new AppError(
+        "Use POST /users/me/password to change your password",
+        400,
+        "PASSWORD_CHANGE_REQUIRES_CURRENT"
+      );
     }
 
-    // Validate password
-    if (passwordStr.length < 6) {
+    if (firstName === undefined && lastName === undefined && avatar === undefined) {
       throw new AppError(
-        "Password must be at least 6 characters",
+        "Nothing to update. Allowed fields: firstName, lastName, avatar",
         400,
-        "INVALID_PASSWORD"
+        "MISSING_FIELDS"
       );
     }
 
-    console.log("Register validation passed");
+    if (firstName !== undefined) checkName(firstName, "First name");
+    if (lastName !== undefined) checkName(lastName, "Last name");
+    if (avatar !== undefined) checkAvatarUrl(avatar);
+
     next();
   } catch (error) {
-    if (error instanceof AppError) {
-      next(error);
-    } else {
-      next(
-        new AppError(
-          error instanceof Error ? error.message : "Validation error",
-          400,
-          "VALIDATION_ERROR"
-        )
-      );
-    }
+    forwardValidationError(error, next);
   }
 };
 
-export const validateLogin = (
+export const validateChangePassword = (
   req: Request,
   res: Response,
   next: NextFunction
 ): void => {
   try {
-    const { email, password } = req.body;
+    const { currentPassword, newPassword } = req.body || {};
 
-    if (!email || !password) {
+    if (!currentPassword || !newPassword) {
       throw new AppError(
-        "Email and password are required",
+        "Current password and new password are required",
         400,
         "MISSING_FIELDS"
       );
     }
 
-    const emailStr = String(email).trim().toLowerCase();
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+    checkPassword(newPassword);
 
-    if (!emailRegex.test(emailStr)) {
-      throw new AppError("Invalid email format", 400, "INVALID_EMAIL");
-    }
+    next();
+  } catch (error) {
+    forwardValidationError(error, next);
+  }
+};
 
-    if (String(password).length < 6) {
+export const validateChangeEmail = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  try {
+    const { newEmail, password } = req.body || {};
+
+    if (!newEmail || !password) {
       throw new AppError(
-        "Password must be at least 6 characters",
+        "New email and password are required",
         400,
-        "INVALID_PASSWORD"
+        "MISSING_FIELDS"
       );
     }
 
+    checkEmail(newEmail);
+
     next();
   } catch (error) {
-    if (error instanceof AppError) {
-      next(error);
-    } else {
-      next(
-        new AppError(
-          error instanceof Error ? error.message : "Validation error",
-          400,
-          "VALIDATION_ERROR"
-        )
-      );
+    forwardValidationError(error, next);
+  }
+};
+
+export const validateInviteCollaborator = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  try {
+    const { email, role } = req.body || {};
+
+    if (!email || !role) {
+      throw new AppError("Email and role are required", 400, "MISSING_FIELDS");
     }
+
+    checkEmail(email);
+
+    if (role !== "editor" && role !== "viewer") {
+      throw new AppError("Role must be editor or viewer", 400, "INVALID_ROLE");
+    }
+
+    next();
+  } catch (error) {
+    forwardValidationError(error, next);
   }
 };
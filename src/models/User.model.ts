@@ -46,6 +46,16 @@ const userSchema = new Schema<IUserDocument>(
       type: String,
       default: "",
     },
+    avatarVariants: {
+      small: { type: String },
+      medium: { type: String },
+      large: { type: String },
+    },
+    avatarStorageKeys: {
+      type: [String],
+      default: [],
+      select: false,
+    },
     resetPasswordToken: {
       type: String,
       default: null,
@@ -71,10 +81,85 @@ const userSchema = new Schema<IUserDocument>(
       default: false,
       index: true,
     },
+    pendingEmail: {
+      type: String,
+      default: null,
+      lowercase: true,
+      trim: true,
+    },
+    emailChangeToken: {
+      type: String,
+      default: null,
+      select: false,
+    },
+    emailChangeTokenExpires: {
+      type: Date,
+      default: null,
+      select: false,
+    },
+    identities: [
+      {
+        _id: false,
+        provider: { type: String, enum: ["google", "github", "oidc"], required: true },
+        providerUserId: { type: String, required: true },
+        email: { type: String, lowercase: true, trim: true },
+        linkedAt: { type: Date, default: Date.now },
+      },
+    ],
+    twoFactorEnabled: {
+      type: Boolean,
+      default: false,
+    },
+    twoFactorSecret: {
+      type: String,
+      default: null,
+      select: false,
+    },
+    twoFactorPendingSecret: {
+      type: String,
+      default: null,
+      select: false,
+    },
+    twoFactorRecoveryCodes: {
+      type: [String],
+      default: [],
+      select: false,
+    },
+    twoFactorLastCounter: {
+      type: Number,
+      default: null,
+      select: false,
+    },
+    preferredCurrency: {
+      type: String,
+      uppercase: true,
+      trim: true,
+      match: [/^[A-Z]{3}$/, "Preferred currency must be a 3-letter currency code"],
+    },
+    deletionRequestedAt: {
+      type: Date,
+      default: null,
+    },
+    deletionScheduledFor: {
+      type: Date,
+      default: null,
+      index: true,
+    },
   },
   {
     timestamps: true,
-    toJSON: { virtuals: true },
+    toJSON: {
+      virtuals: true,
+      // Internal even when selected for an update (avatar files, 2FA secrets)
+      transform: (_doc, ret: Record<string, unknown>) => {
+        delete ret.avatarStorageKeys;
+        delete ret.twoFactorSecret;
+        delete ret.twoFactorPendingSecret;
+        delete ret.twoFactorRecoveryCodes;
+        delete ret.twoFactorLastCounter;
+        return ret;
+      },
+    },
     toObject: { virtuals: true },
   }
 );
@@ -119,6 +204,13 @@ userSchema.methods.getPublicProfile = function (
   delete userObject.resetPasswordExpires;
   delete userObject.verificationToken;
   delete userObject.verificationTokenExpires;
+  delete userObject.emailChangeToken;
+  delete userObject.emailChangeTokenExpires;
+  delete userObject.avatarStorageKeys;
+  delete userObject.twoFactorSecret;
+  delete userObject.twoFactorPendingSecret;
+  delete userObject.twoFactorRecoveryCodes;
+  delete userObject.twoFactorLastCounter;
   return userObject;
 };
 
@@ -138,5 +230,9 @@ userSchema.methods.isVerificationTokenExpired = function (
 
 // Indexes for better query performance
 userSchema.index({ createdAt: -1 });
+userSchema.index(
+  { "identities.provider": 1, "identities.providerUserId": 1 },
+  { unique: true, sparse: true }
+);
 
 export const User = model<IUserDocument>("User", userSchema);
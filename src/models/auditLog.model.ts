@@ -0,0 +1,29 @@
+import { Schema, model, Document } from "mongoose";
+import { IAuditLog } from "../types/audit.type";
+
+export interface IAuditLogDocument extends IAuditLog, Document {}
+
+const AUDIT_RETENTION_SECONDS = 90 * 24 * 60 * 60;
+
+const auditLogSchema = new Schema(
+  {
+    type: {
+      type: String,
+      required: true,
+      enum: ["login-failed", "login-blocked", "account-locked", "account-lock-rejected"],
+    },
+    userId: { type: Schema.Types.ObjectId, ref: "User", default: null },
+    email: { type: String, lowercase: true, trim: true },
+    ip: { type: String },
+    userAgent: { type: String },
+    details: { type: Schema.Types.Mixed },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+auditLogSchema.index({ userId: 1, createdAt: -1 });
+auditLogSchema.index({ email: 1, createdAt: -1 });
+// Old entries are removed by MongoDB
+auditLogSchema.index({ createdAt: 1 }, { expireAfterSeconds: AUDIT_RETENTION_SECONDS });
+
+export const AuditLog = model<IAuditLogDocument>("AuditLog", auditLogSchema);
@@ -0,0 +1,28 @@
+import { Schema, model, Document } from "mongoose";
+import { ICalendarFeed } from "../types/calendar.type";
+
+export interface ICalendarFeedDocument extends ICalendarFeed, Document {}
+
+const calendarFeedSchema = new Schema(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    itineraryId: {
+      type: Schema.Types.ObjectId,
+      ref: "Itinerary",
+      required: true,
+    },
+    tokenHash: { type: String, required: true, unique: true, select: false },
+    lastAccessedAt: { type: Date, default: null },
+  },
+  { timestamps: true }
+);
+
+// One feed per user and itinerary; creating a new one replaces it
+calendarFeedSchema.index({ userId: 1, itineraryId: 1 }, { unique: true });
+calendarFeedSchema.index({ itineraryId: 1 });
+
+export const CalendarFeed = model<ICalendarFeedDocument>("CalendarFeed", calendarFeedSchema);
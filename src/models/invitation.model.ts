@@ -0,0 +1,34 @@
+import { Schema, model, Document } from "mongoose";
+import { IInvitation } from "../types/invitation.type";
+
+export interface IInvitationDocument extends IInvitation, Document {}
+
+const invitationSchema = new Schema(
+  {
+    itineraryId: {
+      type: Schema.Types.ObjectId,
+      ref: "Itinerary",
+      required: true,
+    },
+    email: { type: String, required: true, lowercase: true, trim: true },
+    role: { type: String, enum: ["editor", "viewer"], required: true },
+    invitedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    tokenHash: { type: String, required: true, unique: true, select: false },
+    status: {
+      type: String,
+      enum: ["pending", "accepted", "declined", "revoked"],
+      default: "pending",
+    },
+    expiresAt: { type: Date, required: true },
+    respondedAt: { type: Date, default: null },
+  },
+  { timestamps: true }
+);
+
+invitationSchema.index({ itineraryId: 1, email: 1 });
+
+export const Invitation = model<IInvitationDocument>("Invitation", invitationSchema);
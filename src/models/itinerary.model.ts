@@ -12,8 +12,10 @@ const activitySchema = new Schema(
     duration: { type: Number, required: true },
     location: {
       name: { type: String, required: true },
-      latitude: { type: Number, required: true },
-      longitude: { type: Number, required: true },
+      latitude: { type: Number },
+      longitude: { type: Number },
+      geocodeStatus: { type: String, enum: ["resolved", "approximate", "unresolved"] },
+      confidence: { type: String, enum: ["high", "medium", "low"] },
     },
     category: {
       type: String,
@@ -21,7 +23,13 @@ const activitySchema = new Schema(
       required: true,
     },
     estimatedCost: { type: Number },
+    currency: { type: String, uppercase: true, trim: true },
     notes: { type: String },
+    fixedTime: { type: Boolean, default: false },
+    openingHours: {
+      open: { type: String },
+      close: { type: String },
+    },
   },
   { _id: false }
 );
@@ -43,6 +51,34 @@ const dayItinerarySchema = new Schema(
   { _id: false }
 );
 
+const expenseSchema = new Schema(
+  {
+    id: { type: String, required: true },
+    day: { type: Number, required: true },
+    activityId: { type: String },
+    category: {
+      type: String,
+      enum: ["attraction", "dining", "accommodation", "transport", "shopping", "activity", "other"],
+      required: true,
+    },
+    amount: { type: Number, required: true, min: 0 },
+    currency: { type: String, uppercase: true, trim: true },
+    description: { type: String, trim: true },
+    createdAt: { type: Date, default: Date.now },
+  },
+  { _id: false }
+);
+
+const collaboratorSchema = new Schema(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    role: { type: String, enum: ["editor", "viewer"], required: true },
+    invitedBy: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    addedAt: { type: Date, default: Date.now },
+  },
+  { _id: false }
+);
+
 const itinerarySchema = new Schema(
   {
     userId: {
@@ -60,6 +96,9 @@ const itinerarySchema = new Schema(
     duration: { type: Number, required: true },
     dayItineraries: [dayItinerarySchema],
     budget: { type: Number },
+    currency: { type: String, uppercase: true, trim: true, default: "USD" },
+    expenses: [expenseSchema],
+    collaborators: [collaboratorSchema],
     travelStyle: {
       type: String,
       enum: ["budget", "comfort", "luxury"],
@@ -69,12 +108,14 @@ const itinerarySchema = new Schema(
     aiGenerated: { type: Boolean, default: false },
     aiNotes: { type: String },
   },
-  { timestamps: true }
+  // Every save bumps __v and fails if another save got there first (ETags use __v)
+  { timestamps: true, optimisticConcurrency: true }
 );
 
 // Index for faster queries
 itinerarySchema.index({ userId: 1, createdAt: -1 });
 itinerarySchema.index({ destination: 1 });
+itinerarySchema.index({ "collaborators.userId": 1 });
 
 export const Itinerary = model<IItineraryDocument>(
   "Itinerary",
@@ -0,0 +1,46 @@
+import { Schema, model, Document } from "mongoose";
+import { IItineraryChat } from "../types/chat.type";
+
+export interface IItineraryChatDocument extends IItineraryChat, Document {}
+
+const chatMessageSchema = new Schema(
+  {
+    id: { type: String, required: true },
+    role: { type: String, enum: ["user", "assistant"], required: true },
+    content: { type: String, required: true },
+    // Changes are heterogeneous (add/update/remove), so the diff is stored as-is
+    diff: { type: Schema.Types.Mixed },
+    diffStatus: {
+      type: String,
+      enum: ["proposed", "applied", "discarded"],
+    },
+    createdAt: { type: Date, default: Date.now },
+  },
+  { _id: false }
+);
+
+const itineraryChatSchema = new Schema(
+  {
+    itineraryId: {
+      type: Schema.Types.ObjectId,
+      ref: "Itinerary",
+      required: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    messages: [chatMessageSchema],
+  },
+  { timestamps: true }
+);
+
+// One chat per member of an itinerary
+itineraryChatSchema.index({ itineraryId: 1, userId: 1 }, { unique: true });
+itineraryChatSchema.index({ userId: 1 });
+
+export const ItineraryChat = model<IItineraryChatDocument>(
+  "ItineraryChat",
+  itineraryChatSchema
+);
@@ -0,0 +1,45 @@
+import { Schema, model, Document } from "mongoose";
+import { IItineraryRevision } from "../types/revision.type";
+
+export interface IItineraryRevisionDocument extends IItineraryRevision, Document {}
+
+const itineraryRevisionSchema = new Schema(
+  {
+    itineraryId: {
+      type: Schema.Types.ObjectId,
+      ref: "Itinerary",
+      required: true,
+    },
+    userId: { type: Schema.Types.ObjectId, ref: "User", default: null },
+    operation: {
+      type: String,
+      required: true,
+      enum: [
+        "create",
+        "generate",
+        "update",
+        "apply-chat",
+        "add-activity",
+        "update-activity",
+        "delete-activity",
+        "regenerate-day",
+        "optimize-day",
+        "add-expense",
+        "delete-expense",
+        "restore",
+      ],
+    },
+    version: { type: Number, required: true },
+    details: { type: Schema.Types.Mixed },
+    // Stored as saved by the itinerary schema, so it's kept as plain data
+    snapshot: { type: Schema.Types.Mixed, required: true },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+itineraryRevisionSchema.index({ itineraryId: 1, createdAt: -1 });
+
+export const ItineraryRevision = model<IItineraryRevisionDocument>(
+  "ItineraryRevision",
+  itineraryRevisionSchema
+);
@@ -0,0 +1,42 @@
+import { Schema, model, Document } from "mongoose";
+import { ISession } from "../types/session.type";
+
+export interface ISessionDocument extends ISession, Document {}
+
+const sessionSchema = new Schema(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    tokenHash: { type: String, required: true, unique: true, select: false },
+    rotatedTokenHashes: { type: [String], default: [], select: false },
+    userAgent: { type: String },
+    ip: { type: String },
+    lastUsedAt: { type: Date, default: Date.now },
+    expiresAt: { type: Date, required: true },
+    revokedAt: { type: Date, default: null },
+    revokedReason: {
+      type: String,
+      enum: [
+        "logout",
+        "logout-all",
+        "revoked",
+        "token-reuse",
+        "password-reset",
+        "password-change",
+        "account-deleted",
+        "account-claimed",
+      ],
+    },
+  },
+  { timestamps: true }
+);
+
+sessionSchema.index({ userId: 1, revokedAt: 1 });
+sessionSchema.index({ rotatedTokenHashes: 1 });
+// Expired sessions are removed by MongoDB
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const Session = model<ISessionDocument>("Session", sessionSchema);
@@ -0,0 +1,31 @@
+import { Schema, model, Document } from "mongoose";
+import { IShareLink } from "../types/share.type";
+
+export interface IShareLinkDocument extends IShareLink, Document {}
+
+const shareLinkSchema = new Schema(
+  {
+    token: { type: String, required: true, unique: true },
+    itineraryId: {
+      type: Schema.Types.ObjectId,
+      ref: "Itinerary",
+      required: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    label: { type: String, trim: true, maxlength: 100 },
+    expiresAt: { type: Date, default: null },
+    revokedAt: { type: Date, default: null },
+    viewCount: { type: Number, default: 0 },
+    lastViewedAt: { type: Date, default: null },
+  },
+  { timestamps: true }
+);
+
+shareLinkSchema.index({ itineraryId: 1, createdAt: -1 });
+shareLinkSchema.index({ userId: 1 });
+
+export const ShareLink = model<IShareLinkDocument>("ShareLink", shareLinkSchema);
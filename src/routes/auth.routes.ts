@@ -5,15 +5,46 @@ import {
   loginUser,
   forgotPassword,
   resetPassword,
+  verifyEmail,
+  resendVerification,
+  confirmEmailChange,
+  refreshToken,
+  logout,
+  logoutAll,
+  getOAuthProviders,
+  startOAuthLogin,
+  oauthCallback,
+  verifyTwoFactorLogin,
 } from "../controllers/auth.controller";
 import { validateRegister, validateLogin } from "../middleware/validateRequest";
+import { authMiddleware } from "../middleware/authMiddleware";
+import {
+  forgotPasswordLimiter,
+  loginLimiter,
+  resendVerificationLimiter,
+  resetPasswordLimiter,
+} from "../middleware/rateLimitMiddleware";
 
 const router = Router();
 
 // Public routes
 router.post("/register", validateRegister, registerUser);
-router.post("/login", validateLogin, loginUser);
-router.post("/forgot-password", forgotPassword);
-router.post("/reset-password", resetPassword);
+router.post("/login", loginLimiter, validateLogin, loginUser);
+router.post("/2fa/verify", loginLimiter, verifyTwoFactorLogin);
+router.post("/forgot-password", forgotPasswordLimiter, forgotPassword);
+router.post("/reset-password", resetPasswordLimiter, resetPassword);
+router.get("/verify-email/:token", verifyEmail);
+router.post("/resend-verification", resendVerificationLimiter, resendVerification);
+router.get("/confirm-email-change/:token", confirmEmailChange);
+router.post("/refresh", refreshToken);
+router.post("/logout", logout);
+
+// OAuth / OIDC sign-in (browser redirects)
+router.get("/oauth/providers", getOAuthProviders);
+router.get("/oauth/:provider", startOAuthLogin);
+router.get("/oauth/:provider/callback", oauthCallback);
+
+// Protected routes
+router.post("/logout-all", authMiddleware, logoutAll);
 
 export default router;
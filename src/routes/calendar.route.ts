@@ -0,0 +1,11 @@
+import { Router } from "express";
+import { getCalendarFeed } from "../controllers/calendar.controller";
+
+const router = Router();
+
+/**
+ * GET /api/v1/calendar/:token.ics - Subscribable iCalendar feed (the token is the credential)
+ */
+router.get("/:token.ics", getCalendarFeed);
+
+export default router;
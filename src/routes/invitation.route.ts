@@ -0,0 +1,20 @@
+import { Router } from "express";
+import {
+  getInvitation,
+  acceptInvitation,
+  declineInvitation,
+} from "../controllers/collaborator.controller";
+import { authMiddleware } from "../middleware/authMiddleware";
+
+const router = Router();
+
+/**
+ * GET /api/v1/invitations/:token - Invitation details (public, for the emailed link)
+ * POST /api/v1/invitations/:token/accept - Join the itinerary (as the invited email)
+ * POST /api/v1/invitations/:token/decline - Decline the invitation
+ */
+router.get("/:token", getInvitation);
+router.post("/:token/accept", authMiddleware, acceptInvitation);
+router.post("/:token/decline", authMiddleware, declineInvitation);
+
+export default router;
@@ -1,38 +1,93 @@
 import { Router } from "express";
-import { authMiddleware } from "../middleware/authMiddleware";
+import { authMiddleware, eventStreamAuthMiddleware } from "../middleware/authMiddleware";
+import { generateLimiter } from "../middleware/rateLimitMiddleware";
 import {
   createItinerary,
   generateAIItinerary,
+  streamAIItinerary,
+  streamItineraryEvents,
+  createEventsToken,
+  getGenerationJob,
   getUserItineraries,
+  getSharedWithMeItineraries,
   getItinerary,
   updateItinerary,
   addActivity,
   updateActivity,
   deleteActivity,
   deleteItinerary,
+  regenerateDay,
+  getActivityAlternatives,
+  optimizeDayRoute,
+  getItineraryValidation,
+  getBudgetSummary,
+  addExpense,
+  deleteExpense,
 } from "../controllers/itinerary.controller";
+import {
+  getItineraryChat,
+  sendChatMessage,
+  applyChatDiff,
+} from "../controllers/chat.controller";
+import {
+  createShareLink,
+  getShareLinks,
+  revokeShareLink,
+} from "../controllers/share.controller";
+import {
+  getCollaborators,
+  inviteCollaborator,
+  revokeInvitation,
+  updateCollaborator,
+  removeCollaborator,
+} from "../controllers/collaborator.controller";
+import {
+  getRevisions,
+  getRevision,
+  restoreRevision,
+} from "../controllers/revision.controller";
+import {
+  exportItineraryCalendar,
+  createCalendarFeed,
+  revokeCalendarFeed,
+} from "../controllers/calendar.controller";
+import { validateInviteCollaborator } from "../middleware/validateRequest";
 
 const router = Router();
 
+// EventSource can't send headers, so the stream also takes ?token= (see below)
+router.get("/:id/events", eventStreamAuthMiddleware, streamItineraryEvents);
+
 // Apply auth middleware to all routes
 router.use(authMiddleware);
 
 // Itinerary CRUD routes
 /**
  * POST /api/v1/itineraries - Create a new itinerary
- * POST /api/v1/itineraries/generate - Generate AI-powered itinerary
+ * POST /api/v1/itineraries/generate - Start AI itinerary generation (returns a job id)
+ * POST /api/v1/itineraries/generate/stream - Generate AI itinerary, streaming progress over SSE
+ * GET /api/v1/itineraries/jobs/:jobId - Get generation job status
  * GET /api/v1/itineraries - Get all user's itineraries
+ * GET /api/v1/itineraries/shared-with-me - Itineraries others shared with the user (with role)
  * GET /api/v1/itineraries/:id - Get specific itinerary
+ * GET /api/v1/itineraries/:id/validation - Check the schedule for conflicts (?maxActiveHours=12)
+ * GET /api/v1/itineraries/:id/events - Live changes from other clients over SSE
+ *   (Bearer token, or ?token= from POST /api/v1/itineraries/:id/events/token)
  * PUT /api/v1/itineraries/:id - Update itinerary
  * DELETE /api/v1/itineraries/:id - Delete itinerary
  */
 
-// Generate must come before :id to avoid matching :id as 'generate'
-router.post("/generate", generateAIItinerary);
+// Generate and jobs must come before :id to avoid matching :id as 'generate'
+router.post("/generate", generateLimiter, generateAIItinerary);
+router.post("/generate/stream", generateLimiter, streamAIItinerary);
+router.get("/jobs/:jobId", getGenerationJob);
 
 router.post("/", createItinerary);
 router.get("/", getUserItineraries);
+router.get("/shared-with-me", getSharedWithMeItineraries);
 router.get("/:id", getItinerary);
+router.get("/:id/validation", getItineraryValidation);
+router.post("/:id/events/token", createEventsToken);
 router.put("/:id", updateItinerary);
 router.delete("/:id", deleteItinerary);
 
@@ -40,6 +95,7 @@ router.delete("/:id", deleteItinerary);
 /**
  * POST /api/v1/itineraries/:id/days/:dayNumber/activities - Add activity
  * PUT /api/v1/itineraries/:id/days/:dayNumber/activities/:activityId - Update activity
+ *   (add/update accept ?strict=true to reject schedule conflicts with 422)
  * DELETE /api/v1/itineraries/:id/days/:dayNumber/activities/:activityId - Delete activity
  */
 
@@ -47,4 +103,88 @@ router.post("/:id/days/:dayNumber/activities", addActivity);
 router.put("/:id/days/:dayNumber/activities/:activityId", updateActivity);
 router.delete("/:id/days/:dayNumber/activities/:activityId", deleteActivity);
 
+// AI suggestions within a day
+/**
+ * POST /api/v1/itineraries/:id/days/:dayNumber/regenerate - Regenerate a day's activities ({ apply: true } saves them)
+ * POST /api/v1/itineraries/:id/days/:dayNumber/activities/:activityId/alternatives - Suggest alternatives for an activity
+ * POST /api/v1/itineraries/:id/days/:dayNumber/optimize - Reorder a day to minimise travel ({ apply: true } saves it)
+ */
+
+router.post("/:id/days/:dayNumber/regenerate", regenerateDay);
+router.post(
+  "/:id/days/:dayNumber/activities/:activityId/alternatives",
+  getActivityAlternatives
+);
+router.post("/:id/days/:dayNumber/optimize", optimizeDayRoute);
+
+// Budget and expenses
+/**
+ * GET /api/v1/itineraries/:id/budget - Budget summary (per day, per category, remaining)
+ * POST /api/v1/itineraries/:id/expenses - Log an actual expense
+ * DELETE /api/v1/itineraries/:id/expenses/:expenseId - Delete an expense
+ */
+
+router.get("/:id/budget", getBudgetSummary);
+router.post("/:id/expenses", addExpense);
+router.delete("/:id/expenses/:expenseId", deleteExpense);
+
+// Refinement chat
+/**
+ * GET /api/v1/itineraries/:id/chat - Get chat history
+ * POST /api/v1/itineraries/:id/chat - Ask the AI for changes (returns a diff and a preview)
+ * POST /api/v1/itineraries/:id/chat/:messageId/apply - Apply a proposed diff
+ */
+
+router.get("/:id/chat", getItineraryChat);
+router.post("/:id/chat", sendChatMessage);
+router.post("/:id/chat/:messageId/apply", applyChatDiff);
+
+// Public share links
+/**
+ * POST /api/v1/itineraries/:id/shares - Create a read-only link ({ label?, expiresInDays? })
+ * GET /api/v1/itineraries/:id/shares - List links with view counts
+ * DELETE /api/v1/itineraries/:id/shares/:shareId - Revoke a link
+ */
+
+router.post("/:id/shares", createShareLink);
+router.get("/:id/shares", getShareLinks);
+router.delete("/:id/shares/:shareId", revokeShareLink);
+
+// Collaborators (owner manages; editors can change the plan, viewers can read it)
+/**
+ * GET /api/v1/itineraries/:id/collaborators - Owner, collaborators and (for the owner) pending invitations
+ * POST /api/v1/itineraries/:id/collaborators - Invite by email ({ email, role })
+ * PATCH /api/v1/itineraries/:id/collaborators/:collaboratorId - Change a collaborator's role
+ * DELETE /api/v1/itineraries/:id/collaborators/:collaboratorId - Remove a collaborator (or leave)
+ * DELETE /api/v1/itineraries/:id/invitations/:invitationId - Revoke a pending invitation
+ */
+
+router.get("/:id/collaborators", getCollaborators);
+router.post("/:id/collaborators", validateInviteCollaborator, inviteCollaborator);
+router.patch("/:id/collaborators/:collaboratorId", updateCollaborator);
+router.delete("/:id/collaborators/:collaboratorId", removeCollaborator);
+router.delete("/:id/invitations/:invitationId", revokeInvitation);
+
+// Revision history (a snapshot after every change)
+/**
+ * GET /api/v1/itineraries/:id/revisions - List revisions, newest first
+ * GET /api/v1/itineraries/:id/revisions/:revisionId - A revision with its snapshot
+ * POST /api/v1/itineraries/:id/revisions/:revisionId/restore - Restore it (honours If-Match)
+ */
+
+router.get("/:id/revisions", getRevisions);
+router.get("/:id/revisions/:revisionId", getRevision);
+router.post("/:id/revisions/:revisionId/restore", restoreRevision);
+
+// Calendar export
+/**
+ * GET /api/v1/itineraries/:id/export.ics - Download the itinerary as an iCalendar file
+ * POST /api/v1/itineraries/:id/calendar-feed - Create (or replace) the user's subscription URL
+ * DELETE /api/v1/itineraries/:id/calendar-feed - Revoke it
+ */
+
+router.get("/:id/export.ics", exportItineraryCalendar);
+router.post("/:id/calendar-feed", createCalendarFeed);
+router.delete("/:id/calendar-feed", revokeCalendarFeed);
+
 export default router;
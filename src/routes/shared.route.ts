@@ -0,0 +1,11 @@
+import { Router } from "express";
+import { getSharedItinerary } from "../controllers/share.controller";
+
+const router = Router();
+
+/**
+ * GET /api/v1/shared/:token - Public, read-only view of a shared itinerary
+ */
+router.get("/:token", getSharedItinerary);
+
+export default router;
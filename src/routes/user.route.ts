@@ -1,10 +1,45 @@
 import { Router } from "express";
-import { getMe, deleteMe } from "../controllers/user.controller";
+import {
+  getMe,
+  updateProfile,
+  changePassword,
+  requestEmailChange,
+  uploadAvatar,
+  deleteAvatar,
+  setupTwoFactor,
+  confirmTwoFactor,
+  disableTwoFactor,
+  updatePreferences,
+  getSessions,
+  revokeSession,
+  deleteMe,
+  restoreAccount,
+  exportMe,
+} from "../controllers/user.controller";
 import { authMiddleware } from "../middleware/authMiddleware";
+import { parseAvatarUpload } from "../middleware/uploadMiddleware";
+import {
+  validateUpdateProfile,
+  validateChangePassword,
+  validateChangeEmail,
+} from "../middleware/validateRequest";
 
 const router = Router();
 
 router.get("/me", authMiddleware, getMe);
+router.patch("/me", authMiddleware, validateUpdateProfile, updateProfile);
+router.post("/me/password", authMiddleware, validateChangePassword, changePassword);
+router.post("/me/email", authMiddleware, validateChangeEmail, requestEmailChange);
+router.post("/me/avatar", authMiddleware, parseAvatarUpload, uploadAvatar);
+router.delete("/me/avatar", authMiddleware, deleteAvatar);
+router.post("/me/2fa/setup", authMiddleware, setupTwoFactor);
+router.post("/me/2fa/confirm", authMiddleware, confirmTwoFactor);
+router.post("/me/2fa/disable", authMiddleware, disableTwoFactor);
+router.patch("/me/preferences", authMiddleware, updatePreferences);
+router.get("/me/sessions", authMiddleware, getSessions);
+router.delete("/me/sessions/:sessionId", authMiddleware, revokeSession);
+router.get("/me/export", authMiddleware, exportMe);
+router.post("/me/restore", authMiddleware, restoreAccount);
 router.delete("/me", authMiddleware, deleteMe);
 
 export default router;
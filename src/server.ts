@@ -3,6 +3,9 @@ import { Server } from "http";
 import chalk from "chalk";
 import app from "./app";
 import { connectDB, disconnectDB } from "./config/db";
+import { disconnectRedis } from "./config/redis";
+import { purgeScheduledDeletionsService } from "./services/user.service";
+import { closeRealtime } from "./services/realtime.service";
 import mongoose from "mongoose";
 
 // Validate required environment variables
@@ -15,7 +18,19 @@ requiredEnv.forEach((key) => {
 });
 
 const PORT = process.env.PORT || 5000;
+const ACCOUNT_PURGE_INTERVAL_MS = 60 * 60 * 1000; // hourly
 let server: Server | undefined;
+let purgeTimer: NodeJS.Timeout | undefined;
+
+// Remove accounts whose deletion grace period has ended
+const purgeDeletedAccounts = async (): Promise<void> => {
+  try {
+    const { purged } = await purgeScheduledDeletionsService();
+    if (purged > 0) console.log(chalk.blue(`Purged ${purged} deleted account(s)`));
+  } catch (error: any) {
+    console.error(chalk.red(`Account purge failed: ${error.message}`));
+  }
+};
 
 // Start server
 const startServer = async (): Promise<void> => {
@@ -26,6 +41,9 @@ const startServer = async (): Promise<void> => {
     server = app.listen(PORT, () => {
       console.log(chalk.green(`Server running at http://localhost:${PORT}`));
     });
+
+    void purgeDeletedAccounts();
+    purgeTimer = setInterval(purgeDeletedAccounts, ACCOUNT_PURGE_INTERVAL_MS);
   } catch (error: any) {
     console.error(chalk.red(`Failed to start server: ${error.message}`));
     process.exit(1);
@@ -35,16 +53,21 @@ const startServer = async (): Promise<void> => {
 // Graceful shutdown
 const gracefulShutdown = async (signal: string): Promise<void> => {
   console.log(chalk.yellow(`${signal} received. Shutting down gracefully...`));
+  clearInterval(purgeTimer);
+  // Open event streams would keep server.close() waiting
+  await closeRealtime();
 
   if (server) {
     server.close(async () => {
       console.log(chalk.blue("HTTP server closed"));
+      await disconnectRedis();
       await disconnectDB();
       console.log(chalk.magenta("Database disconnected"));
       console.log(chalk.cyan("Shutdown complete"));
       process.exit(0);
     });
   } else {
+    await disconnectRedis();
     await disconnectDB();
     console.log(chalk.magenta("Database disconnected (no active server)"));
     console.log(chalk.cyan("Shutdown complete"));
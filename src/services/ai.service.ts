@@ -1,9 +1,17 @@
-import axios from "axios";
+import { completeChat } from "./llm.service";
 import { AppError } from "../middleware/errorMiddleware";
-import { IActivity } from "../types/itinerary.type";
-
-const OPENROUTER_API_KEY = process.env.OPENROUTER_API_KEY;
-const OPENROUTER_BASE_URL = "https://openrouter.ai/api/v1";
+import { GenerateActivityDTO } from "../dtos/itinerary.dto";
+import { IActivity, IDayItinerary, IItineraryDiff } from "../types/itinerary.type";
+import { ChatMessage, LLMCompletionRequest } from "../types/llm.type";
+import {
+  ACTIVITIES_JSON_SCHEMA,
+  ITINERARY_DIFF_JSON_SCHEMA,
+  ITINERARY_JSON_SCHEMA,
+  extractJSON,
+  validateAIActivityList,
+  validateAIItinerary,
+  validateAIItineraryDiff,
+} from "../utils/aiItinerarySchema";
 
 export interface StructuredItinerary {
   summary: string;
@@ -11,8 +19,15 @@ export interface StructuredItinerary {
   tips: string;
 }
 
+export interface AIRequestOptions {
+  signal?: AbortSignal;
+  // Trip coordinates, used by the fixture provider to place activities
+  coordinates?: { latitude: number; longitude: number };
+}
+
 /**
- * Parse AI response and structure it into activities
+ * Parse a free-text AI response and structure it into activities.
+ * Only used as a fallback when the model fails to return valid JSON.
  */
 const parseAIResponse = (
   response: string,
@@ -83,8 +98,6 @@ const parseAIResponse = (
           duration: 120, // Default 2 hours
           location: {
             name: destination,
-            latitude: 0,
-            longitude: 0,
           },
           category: categorizeActivity(trimmedLine),
           estimatedCost: estimateCost(trimmedLine),
@@ -146,6 +159,52 @@ const estimateCost = (text: string): number => {
   return 0;
 };
 
+const SYSTEM_PROMPT =
+  'You are an expert travel planner for the AI trip planner app "WanderWise". You always answer with a single valid JSON object and no other text.';
+
+/**
+ * Request JSON from the model and validate it, re-prompting once with the
+ * validation errors so the model can repair its output. When both attempts
+ * fail, the last raw response is returned alongside the errors.
+ */
+const completeStructured = async <T>(
+  request: Omit<LLMCompletionRequest, "messages" | "jsonMode">,
+  prompt: string,
+  validate: (data: unknown) => { result?: T; errors: string[] },
+  history: ChatMessage[] = []
+): Promise<{ result?: T; errors: string[]; raw: string }> => {
+  const messages: ChatMessage[] = [
+    { role: "system", content: SYSTEM_PROMPT },
+    ...history,
+    { role: "user", content: prompt },
+  ];
+
+  const attempt = async (chat: ChatMessage[]) => {
+    const raw = await completeChat({ ...request, messages: chat, jsonMode: true });
+    const data = extractJSON(raw);
+    const parsed =
+      data === undefined
+        ? { result: undefined, errors: ["Response is not valid JSON"] }
+        : validate(data);
+    return { ...parsed, raw };
+  };
+
+  const first = await attempt(messages);
+  if (first.result) return first;
+
+  console.warn(`AI ${request.type} response failed validation, re-prompting:`, first.errors);
+  return attempt([
+    ...messages,
+    { role: "assistant", content: first.raw },
+    {
+      role: "user",
+      content: `Your response did not match the required schema:\n- ${first.errors
+        .slice(0, 20)
+        .join("\n- ")}\n\nReturn the corrected response as ONLY a JSON object matching the schema.`,
+    },
+  ]);
+};
+
 export const generateTravelItinerary = async (
   destination: string,
   startDate: string,
@@ -153,121 +212,203 @@ export const generateTravelItinerary = async (
   travelStyle: string,
   budget?: number,
   preferences?: string[],
-  numberOfDays?: number
+  numberOfDays?: number,
+  currency = "USD",
+  options: AIRequestOptions = {}
 ): Promise<StructuredItinerary> => {
-  try {
-    if (!OPENROUTER_API_KEY) {
-      throw new AppError(
-        "OpenRouter API key not configured",
-        500,
-        "CONFIG_ERROR"
-      );
-    }
-
-    const preferencesText =
-      preferences && preferences.length > 0
-        ? preferences.join(", ")
-        : "General sightseeing and local experiences";
+  const days = numberOfDays || 1;
+  const preferencesText =
+    preferences && preferences.length > 0
+      ? preferences.join(", ")
+      : "General sightseeing and local experiences";
 
-    const prompt = `You are an expert travel planner for the AI trip planner app "WanderWise". Create a detailed ${numberOfDays}-day travel itinerary for a trip to ${destination}.
+  const prompt = `Create a detailed ${days}-day travel itinerary for a trip to ${destination}.
 
 Trip Details:
 - Dates: ${startDate} to ${endDate}
 - Travel Style: ${travelStyle}
-- Budget: $${budget || "flexible"}
+- Budget: ${budget ? `${budget} ${currency}` : "flexible"}
 - Interests: ${preferencesText}
 
-Please provide:
-1. A brief summary of the trip
-2. For each day:
-   - Recommended activities with estimated times
-   - Local restaurants or dining recommendations
-   - Estimated costs
-   - Travel tips specific to that location
-3. Overall tips for the destination
-4. Best areas to stay
-5. Transportation recommendations
-
-Format your response in a structured way that can be parsed. Use clear day-by-day breakdown.`;
-
-    const response = await axios.post(
-      `${OPENROUTER_BASE_URL}/chat/completions`,
-      {
-        model: "openai/gpt-3.5-turbo",
-        messages: [
-          {
-            role: "user",
-            content: prompt,
-          },
-        ],
-        temperature: 0.7,
-        max_tokens: 2000,
+For each day include sightseeing, dining and any transport worth planning, with realistic start times, durations and estimated costs in ${currency}.
+Use the real name of each place in "location.name" and its approximate coordinates.
+
+Respond with ONLY a JSON object matching this schema, with exactly ${days} entries in "days":
+${ITINERARY_JSON_SCHEMA}`;
+
+  const { result, errors, raw } = await completeStructured(
+    {
+      type: "itinerary",
+      signal: options.signal,
+      context: {
+        destination,
+        startDate,
+        endDate,
+        travelStyle,
+        budget,
+        currency,
+        preferences,
+        numberOfDays: days,
+        coordinates: options.coordinates,
       },
-      {
-        headers: {
-          Authorization: `Bearer ${OPENROUTER_API_KEY}`,
-          "HTTP-Referer": process.env.CLIENT_URL || "http://localhost:3000",
-          "X-Title": "WanderWise",
-          "Content-Type": "application/json",
-        },
-        timeout: 30000,
-      }
-    );
+    },
+    prompt,
+    (data) => validateAIItinerary(data, days, destination)
+  );
+  if (result) return result;
+
+  // Last resort: fall back to the free-text heuristics
+  console.warn("AI itinerary repair failed, using text parser:", errors);
+  return parseAIResponse(raw, days, destination);
+};
 
-    if (!response.data.choices || !response.data.choices[0]?.message?.content) {
-      throw new AppError(
-        "Invalid response format from AI service",
-        500,
-        "AI_SERVICE_ERROR"
+/**
+ * Generate activities for a single day, or alternatives for one activity when
+ * input.replaceActivity is set. Activities named in input.excludeActivities are
+ * never returned.
+ */
+export const generateDayActivities = async (
+  input: GenerateActivityDTO,
+  options: AIRequestOptions = {}
+): Promise<IActivity[]> => {
+  const { day, destination, date, weather, preferences, budget, travelStyle } = input;
+  const currency = input.currency || "USD";
+  const excluded = input.excludeActivities || [];
+  const replacing = input.replaceActivity;
+  const count = replacing ? Math.min(Math.max(input.count || 3, 1), 10) : undefined;
+
+  const preferencesText =
+    preferences && preferences.length > 0
+      ? preferences.join(", ")
+      : "General sightseeing and local experiences";
+
+  const task = replacing
+    ? `Suggest exactly ${count} alternatives to "${replacing.name}" (${replacing.category}) for day ${day} of a trip to ${destination}. Each alternative should fit the same slot: starting around ${replacing.time} and lasting about ${replacing.duration} minutes.`
+    : `Plan day ${day} of a trip to ${destination} with sightseeing, dining and any transport worth planning, with realistic start times and durations.`;
+
+  const prompt = `${task}
+
+Day Details:
+- Date: ${date}
+- Weather: ${weather || "unknown"}
+- Travel Style: ${travelStyle || "comfort"}
+- Remaining budget: ${budget !== undefined ? `${Math.max(Math.round(budget), 0)} ${currency}` : "flexible"}
+- Interests: ${preferencesText}
+${excluded.length > 0 ? `\nThese are already planned, do NOT suggest them again:\n- ${excluded.join("\n- ")}\n` : ""}${input.instructions ? `\nTraveller's request: ${input.instructions}\n` : ""}
+Prefer indoor options if the weather is poor. Keep estimated costs (${currency}) within the remaining budget.
+Use the real name of each place in "location.name" and its approximate coordinates.
+
+Respond with ONLY a JSON object matching this schema:
+${ACTIVITIES_JSON_SCHEMA}`;
+
+  const excludedNames = new Set(excluded.map((name) => name.trim().toLowerCase()));
+
+  const { result, errors } = await completeStructured(
+    {
+      type: "activity",
+      signal: options.signal,
+      context: { ...input, count, coordinates: options.coordinates },
+    },
+    prompt,
+    (data) => {
+      const parsed = validateAIActivityList(data, destination);
+      if (!parsed.result) return parsed;
+
+      const activities = parsed.result.filter(
+        (activity) => !excludedNames.has(activity.name.toLowerCase())
       );
-    }
-
-    const aiText = response.data.choices[0].message.content;
-    const structuredItinerary = parseAIResponse(aiText, numberOfDays || 1, destination);
-
-    return structuredItinerary;
-  } catch (error) {
-    console.error("AI Service Error:", error);
-
-    if (axios.isAxiosError(error)) {
-      const status = error.response?.status;
-      const statusText = error.response?.statusText;
-
-      if (status === 405) {
-        throw new AppError(
-          `OpenRouter API Error: ${status} ${statusText}. Please check the API endpoint and credentials.`,
-          500,
-          "AI_SERVICE_ERROR"
-        );
+      if (activities.length === 0) {
+        return { errors: ["Every suggested activity is already planned; suggest different ones"] };
       }
+      return { result: count ? activities.slice(0, count) : activities, errors: [] };
+    }
+  );
 
-      if (status === 401 || status === 403) {
-        throw new AppError(
-          "OpenRouter API authentication failed. Invalid API key.",
-          500,
-          "AI_SERVICE_ERROR"
-        );
-      }
+  if (!result) {
+    console.warn("AI activity generation failed validation:", errors);
+    throw new AppError(
+      "AI service returned an invalid response. Please try again.",
+      502,
+      "AI_INVALID_RESPONSE"
+    );
+  }
 
-      if (status === 429) {
-        throw new AppError(
-          "OpenRouter API rate limit exceeded. Please try again later.",
-          429,
-          "RATE_LIMIT_ERROR"
-        );
-      }
+  return result;
+};
 
-      throw new AppError(
-        `OpenRouter API Error: ${error.message}`,
-        500,
-        "AI_SERVICE_ERROR"
-      );
-    }
+/**
+ * Turn a chat request ("make day 2 more relaxed") into a diff of the itinerary's
+ * days. Earlier chat turns are passed as history so follow-ups have context.
+ */
+export const generateItineraryRefinement = async (
+  input: {
+    destination: string;
+    travelStyle?: string;
+    budget?: number;
+    currency?: string;
+    preferences?: string[];
+    dayItineraries: IDayItinerary[];
+    history: ChatMessage[];
+    message: string;
+  },
+  options: AIRequestOptions = {}
+): Promise<IItineraryDiff> => {
+  const { destination, travelStyle, budget, preferences, dayItineraries } = input;
+  const currency = input.currency || "USD";
+
+  const days = dayItineraries.map((d) => ({
+    day: d.day,
+    date: new Date(d.date).toISOString().split("T")[0],
+    weather: d.weather?.condition,
+    activities: d.activities.map((a) => ({
+      id: a.id,
+      name: a.name,
+      time: a.time,
+      duration: a.duration,
+      category: a.category,
+      estimatedCost: a.estimatedCost,
+      currency: a.currency || currency,
+      location: a.location.name,
+    })),
+  }));
+
+  const prompt = `The traveller is refining their ${days.length}-day itinerary for ${destination}.
 
+Trip Details:
+- Travel Style: ${travelStyle || "comfort"}
+- Budget: ${budget ? `${budget} ${currency}` : "flexible"}
+- Interests: ${preferences && preferences.length > 0 ? preferences.join(", ") : "not specified"}
+
+Current itinerary (activity ids must be used as-is):
+${JSON.stringify(days)}
+
+Traveller's request: ${input.message}
+
+Reply briefly to the traveller and list only the changes needed to fulfil the request.
+If the request is a question or needs no changes, return an empty "changes" array.
+
+Respond with ONLY a JSON object matching this schema:
+${ITINERARY_DIFF_JSON_SCHEMA}`;
+
+  const { result, errors } = await completeStructured(
+    {
+      type: "chat",
+      signal: options.signal,
+      context: { destination, dayItineraries: days, message: input.message },
+    },
+    prompt,
+    (data) => validateAIItineraryDiff(data, dayItineraries, destination),
+    input.history
+  );
+
+  if (!result) {
+    console.warn("AI refinement failed validation:", errors);
     throw new AppError(
-      "Failed to generate itinerary with AI",
-      500,
-      "AI_SERVICE_ERROR"
+      "AI service returned an invalid response. Please try again.",
+      502,
+      "AI_INVALID_RESPONSE"
     );
   }
+
+  return result;
 };
@@ -0,0 +1,21 @@
+import { AuditLog } from "../models/auditLog.model";
+import { IAuditLog } from "../types/audit.type";
+
+/**
+ * Store a security event. Failures are logged and never break the request
+ * being audited.
+ */
+export const recordAuditEvent = async (event: Omit<IAuditLog, "createdAt">): Promise<void> => {
+  try {
+    await AuditLog.create(event);
+  } catch (error) {
+    console.error(`Failed to record audit event "${event.type}":`, error);
+  }
+};
+
+/**
+ * Remove a user's audit events, including failed logins recorded by email only
+ */
+export const deleteAuditEvents = async (userId: string, email: string): Promise<void> => {
+  await AuditLog.deleteMany({ $or: [{ userId }, { email: email.toLowerCase() }] });
+};
@@ -1,20 +1,55 @@
-import { User } from "../models/user.model";
+import { User } from "../models/User.model";
 import { AppError } from "../middleware/errorMiddleware";
 import { generateToken } from "../utils/generateToken";
-import jwt from "jsonwebtoken";
+import { isEmailVerificationRequired } from "../config/mail";
+import {
+  RESET_TOKEN_TTL_HOURS,
+  VERIFICATION_TOKEN_TTL_HOURS,
+  sendPasswordResetEmail,
+  sendVerificationEmail,
+} from "./mail.service";
+import {
+  createSession,
+  revokeAllSessions,
+  revokeSessionByToken,
+  rotateSession,
+} from "./session.service";
+import { getOAuthProvider } from "./oauth.service";
+import { createMfaToken, verifyMfaChallenge } from "./twoFactor.service";
+import {
+  assertLoginAllowed,
+  clearLoginFailures,
+  recordLoginFailure,
+} from "./loginProtection.service";
+import { createCache } from "./cache.service";
+import { getOAuthRedirectUri } from "../config/oauth";
+import { OAuthProfile, OAuthProviderName } from "../types/oauth.type";
 import bcrypt from "bcryptjs";
+import crypto from "crypto";
 
 import {
   RegisterDTO,
   LoginDTO,
   ForgotPasswordDTO,
   ResetPasswordDTO,
+  ResendVerificationDTO,
+  ClientInfo,
+  OAuthCallbackDTO,
+  VerifyTwoFactorDTO,
 } from "../dtos/auth.dto";
 
+const OAUTH_STATE_TTL_SECONDS = 10 * 60;
+
+// Pending sign-ins, keyed by the OAuth state parameter
+const oauthStateCache = createCache<{ provider: OAuthProviderName; codeVerifier: string }>(
+  "oauth-state",
+  OAUTH_STATE_TTL_SECONDS
+);
+
 /**
  * Register a new user
  */
-export const registerUserService = async (data: RegisterDTO) => {
+export const registerUserService = async (data: RegisterDTO, client: ClientInfo = {}) => {
   const { firstName, lastName, email, password } = data;
 
   console.log("Register service - Received:", { firstName, lastName, email, password: "***" });
@@ -26,57 +61,98 @@ export const registerUserService = async (data: RegisterDTO) => {
     throw new AppError("Email already exists", 400, "DUPLICATE_KEY");
   }
 
-  // Create the user with isVerified = true (no email verification needed)
   console.log("Creating new user...");
-  const user = await User.create({ 
-    firstName, 
-    lastName, 
-    email, 
+  const verification = generateToken(32, VERIFICATION_TOKEN_TTL_HOURS);
+  const user = await User.create({
+    firstName,
+    lastName,
+    email,
     password,
-    isVerified: true // Set to true immediately - no email verification required
+    isVerified: false,
+    verificationToken: verification.token,
+    verificationTokenExpires: verification.expires,
   });
   console.log("User created successfully:", user._id);
 
-  const token = jwt.sign({ id: user._id }, process.env.JWT_SECRET!, {
-    expiresIn: "1d",
-  });
+  // The account exists either way; a failed email can be re-sent later
+  try {
+    await sendVerificationEmail(user, verification.token);
+  } catch (error) {
+    console.error("Verification email not sent:", error);
+  }
+
+  const userInfo = {
+    id: user._id,
+    email: user.email,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    isVerified: false,
+  };
 
   console.log("Registration completed successfully");
+
+  // Without a verified email the user can't log in, so don't hand out a token
+  if (isEmailVerificationRequired()) {
+    return {
+      success: true,
+      message: "Registration successful! Check your email to verify your account.",
+      user: userInfo,
+    };
+  }
+
+  const tokens = await createSession(String(user._id), client);
+
   return {
     success: true,
     message: "Registration successful! You can now login.",
-    token,
-    user: {
-      id: user._id,
-      email: user.email,
-      firstName: user.firstName,
-      lastName: user.lastName,
-      isVerified: true,
-    },
+    ...tokens,
+    user: userInfo,
   };
 };
 
 /**
- * Login user and generate JWT
+ * Login user and start a session (access token + refresh token). With 2FA
+ * enabled, returns an mfaToken instead, redeemed by verifyTwoFactorLoginService.
+ * Failed attempts are throttled and can lock the account (loginProtection.service).
  */
-export const loginUserService = async (data: LoginDTO) => {
+export const loginUserService = async (data: LoginDTO, client: ClientInfo = {}) => {
   const { email, password } = data;
 
+  await assertLoginAllowed(email, client);
+
   const user = await User.findOne({ email }).select("+password");
-  if (!user)
+  if (!user) {
+    await recordLoginFailure(email, client);
     throw new AppError("Invalid credentials", 401, "INVALID_CREDENTIALS");
+  }
 
   const isMatch = await user.comparePassword(password);
-  if (!isMatch)
+  if (!isMatch) {
+    await recordLoginFailure(email, client, user);
     throw new AppError("Invalid credentials", 401, "INVALID_CREDENTIALS");
+  }
 
-  const token = jwt.sign({ id: user._id }, process.env.JWT_SECRET!, {
-    expiresIn: "1d",
-  });
+  if (isEmailVerificationRequired() && !user.isVerified)
+    throw new AppError(
+      "Please verify your email before logging in",
+      403,
+      "EMAIL_NOT_VERIFIED"
+    );
+
+  if (user.twoFactorEnabled) {
+    return {
+      success: true,
+      mfaRequired: true,
+      mfaToken: createMfaToken(String(user._id)),
+    };
+  }
+
+  await clearLoginFailures(email);
+  const tokens = await createSession(String(user._id), client);
 
   return {
     success: true,
-    token,
+    ...tokens,
     user: {
       id: user._id,
       email: user.email,
@@ -95,11 +171,13 @@ export const forgotPasswordService = async (data: ForgotPasswordDTO) => {
   const user = await User.findOne({ email });
   if (!user) throw new AppError("User not found", 404, "USER_NOT_FOUND");
 
-  const { token, expires } = generateToken(32, 1); // 1 hour
+  const { token, expires } = generateToken(32, RESET_TOKEN_TTL_HOURS);
   user.resetPasswordToken = token;
   user.resetPasswordExpires = expires;
   await user.save();
 
+  await sendPasswordResetEmail(user, token);
+
   return { success: true, message: "Password reset email sent" };
 };
 
@@ -137,5 +215,271 @@ export const resetPasswordService = async (data: ResetPasswordDTO) => {
   user.resetPasswordExpires = null;
   await user.save();
 
+  // Whoever knew the old password may still be logged in
+  await revokeAllSessions(String(user._id), "password-reset");
+  // Proving ownership of the email also lifts a lockout
+  await clearLoginFailures(user.email);
+
   return { success: true, message: "Password reset successfully" };
 };
+
+/**
+ * Verify email using the token from the verification email
+ */
+export const verifyEmailService = async (token: string) => {
+  const user = await User.findOne({
+    verificationToken: token,
+    verificationTokenExpires: { $gt: new Date() },
+  });
+
+  if (!user)
+    throw new AppError(
+      "Verification token is invalid or expired",
+      400,
+      "INVALID_TOKEN"
+    );
+
+  user.isVerified = true;
+  user.verificationToken = null;
+  user.verificationTokenExpires = null;
+  await user.save();
+
+  return { success: true, message: "Email verified successfully. You can now login." };
+};
+
+/**
+ * Send a fresh verification email. The response is the same whether or not the
+ * address belongs to an unverified account, so it can't be used to probe emails.
+ */
+export const resendVerificationService = async (data: ResendVerificationDTO) => {
+  const { email } = data;
+  if (!email) throw new AppError("Email is required", 400, "MISSING_FIELDS");
+
+  const response = {
+    success: true,
+    message: "If that account needs verifying, a new verification email has been sent",
+  };
+
+  const user = await User.findOne({ email: String(email).trim().toLowerCase() });
+  if (!user || user.isVerified) return response;
+
+  const { token, expires } = generateToken(32, VERIFICATION_TOKEN_TTL_HOURS);
+  user.verificationToken = token;
+  user.verificationTokenExpires = expires;
+  await user.save();
+
+  await sendVerificationEmail(user, token);
+
+  return response;
+};
+
+/**
+ * Swap a refresh token for a new access token and refresh token
+ */
+export const refreshTokenService = async (
+  refreshToken: string | undefined,
+  client: ClientInfo = {}
+) => {
+  const tokens = await rotateSession(refreshToken, client);
+  return { success: true, ...tokens };
+};
+
+/**
+ * Log out the current device
+ */
+export const logoutService = async (refreshToken: string | undefined) => {
+  await revokeSessionByToken(refreshToken);
+  return { success: true, message: "Logged out successfully" };
+};
+
+/**
+ * Log out every device, including the current one
+ */
+export const logoutAllService = async (userId: string) => {
+  const revoked = await revokeAllSessions(userId, "logout-all");
+  return { success: true, message: "Logged out of all devices", revoked };
+};
+
+/**
+ * Start an OAuth/OIDC sign-in: returns the provider URL to redirect to
+ */
+export const startOAuthLoginService = async (providerName: string) => {
+  const provider = getOAuthProvider(providerName);
+
+  const state = crypto.randomBytes(24).toString("hex");
+  const codeVerifier = crypto.randomBytes(32).toString("base64url");
+  const codeChallenge = crypto.createHash("sha256").update(codeVerifier).digest("base64url");
+
+  await oauthStateCache.set(state, { provider: provider.name, codeVerifier });
+
+  const url = await provider.getAuthorizationUrl({
+    state,
+    codeChallenge,
+    redirectUri: getOAuthRedirectUri(provider.name),
+  });
+
+  return { success: true, url };
+};
+
+// Names must satisfy the User schema's 2-character minimum
+const nameOrFallback = (name: string | undefined, fallback: string) =>
+  name && name.trim().length >= 2 ? name.trim() : fallback;
+
+/**
+ * Find the user for a provider profile: by linked identity first, then by
+ * verified email (linking the identity), else create a new verified user.
+ */
+const findOrCreateOAuthUser = async (profile: OAuthProfile) => {
+  const linked = await User.findOne({
+    identities: {
+      $elemMatch: { provider: profile.provider, providerUserId: profile.providerUserId },
+    },
+  });
+  if (linked) return { user: linked, created: false, linked: false };
+
+  // Only a provider-verified email proves the person owns the account
+  if (!profile.email || !profile.emailVerified) {
+    throw new AppError(
+      "Your account with this provider has no verified email address",
+      403,
+      "OAUTH_EMAIL_NOT_VERIFIED"
+    );
+  }
+
+  const identity = {
+    provider: profile.provider,
+    providerUserId: profile.providerUserId,
+    email: profile.email,
+    linkedAt: new Date(),
+  };
+
+  const existing = await User.findOne({ email: profile.email });
+  if (existing) {
+    if (!existing.isVerified) {
+      // Whoever registered the address never proved they own it; don't let
+      // them keep access through its password, 2FA or open sessions
+      existing.password = crypto.randomBytes(32).toString("hex");
+      existing.resetPasswordToken = null;
+      existing.resetPasswordExpires = null;
+      existing.twoFactorEnabled = false;
+      existing.twoFactorSecret = null;
+      existing.twoFactorPendingSecret = null;
+      existing.twoFactorRecoveryCodes = [];
+      existing.twoFactorLastCounter = null;
+      await revokeAllSessions(String(existing._id), "account-claimed");
+    }
+
+    existing.identities = [...(existing.identities || []), identity];
+    existing.isVerified = true;
+    existing.verificationToken = null;
+    existing.verificationTokenExpires = null;
+    await existing.save();
+    return { user: existing, created: false, linked: true };
+  }
+
+  const user = await User.create({
+    firstName: nameOrFallback(
+      profile.firstName,
+      nameOrFallback(profile.email.split("@")[0], "Traveller")
+    ),
+    lastName: nameOrFallback(profile.lastName, "User"),
+    email: profile.email,
+    // Unusable random password; "forgot password" can set a real one later
+    password: crypto.randomBytes(32).toString("hex"),
+    avatar: profile.avatar || "",
+    isVerified: true,
+    identities: [identity],
+  });
+  return { user, created: true, linked: true };
+};
+
+/**
+ * Finish an OAuth/OIDC sign-in from the provider's callback and start a
+ * session, exactly like password login
+ */
+export const completeOAuthLoginService = async (
+  providerName: string,
+  data: OAuthCallbackDTO,
+  client: ClientInfo = {}
+) => {
+  const provider = getOAuthProvider(providerName);
+
+  if (data.error) {
+    throw new AppError(`Sign-in was cancelled or denied (${data.error})`, 401, "OAUTH_FAILED");
+  }
+  if (!data.code || !data.state) {
+    throw new AppError("Missing code or state", 400, "MISSING_FIELDS");
+  }
+
+  // Single use: a replayed callback finds no state
+  const pending = await oauthStateCache.get(data.state);
+  await oauthStateCache.delete(data.state);
+  if (!pending || pending.provider !== provider.name) {
+    throw new AppError("Sign-in link is invalid or expired", 400, "INVALID_OAUTH_STATE");
+  }
+
+  const profile = await provider.getProfile(
+    data.code,
+    pending.codeVerifier,
+    getOAuthRedirectUri(provider.name)
+  );
+  const { user, created, linked } = await findOrCreateOAuthUser(profile);
+
+  if (user.twoFactorEnabled) {
+    return {
+      success: true,
+      mfaRequired: true as const,
+      mfaToken: createMfaToken(String(user._id)),
+      created,
+      linked,
+    };
+  }
+
+  const tokens = await createSession(String(user._id), client);
+
+  return {
+    success: true,
+    ...tokens,
+    created,
+    linked,
+    user: {
+      id: user._id,
+      email: user.email,
+      firstName: user.firstName,
+      lastName: user.lastName,
+    },
+  };
+};
+
+/**
+ * Second login step for accounts with 2FA: exchange the mfaToken from login
+ * and a TOTP or recovery code for a session
+ */
+export const verifyTwoFactorLoginService = async (
+  data: VerifyTwoFactorDTO,
+  client: ClientInfo = {}
+) => {
+  if (!data?.mfaToken || (!data.code && !data.recoveryCode)) {
+    throw new AppError(
+      "mfaToken and a verification or recovery code are required",
+      400,
+      "MISSING_FIELDS"
+    );
+  }
+
+  const user = await verifyMfaChallenge(data.mfaToken, data, client);
+  await clearLoginFailures(user.email);
+  const tokens = await createSession(String(user._id), client);
+
+  return {
+    success: true,
+    ...tokens,
+    recoveryCodesRemaining: user.twoFactorRecoveryCodes?.length ?? 0,
+    user: {
+      id: user._id,
+      email: user.email,
+      firstName: user.firstName,
+      lastName: user.lastName,
+    },
+  };
+};
@@ -0,0 +1,112 @@
+import crypto from "crypto";
+import sharp from "sharp";
+import { User } from "../models/User.model";
+import { AppError } from "../middleware/errorMiddleware";
+import { getStorage } from "./storage.service";
+
+// Square variants, in pixels; `avatar` itself points at the largest
+export const AVATAR_SIZES = { small: 64, medium: 256, large: 512 } as const;
+
+export type AvatarVariant = keyof typeof AVATAR_SIZES;
+
+const MAX_INPUT_PIXELS = 40_000_000; // guards against decompression bombs
+
+/**
+ * Decode the upload and re-encode square WebP variants. Re-encoding drops
+ * EXIF/GPS metadata; .rotate() applies the EXIF orientation first so photos
+ * from phones aren't sideways.
+ */
+const renderAvatarVariants = async (input: Buffer) => {
+  try {
+    const metadata = await sharp(input, { limitInputPixels: MAX_INPUT_PIXELS }).metadata();
+    if (!metadata.format || !["jpeg", "png", "webp"].includes(metadata.format)) {
+      throw new Error(`unsupported format ${metadata.format}`);
+    }
+  } catch (error) {
+    throw new AppError("File is not a valid image", 400, "INVALID_IMAGE");
+  }
+
+  return Promise.all(
+    (Object.entries(AVATAR_SIZES) as [AvatarVariant, number][]).map(async ([variant, size]) => ({
+      variant,
+      body: await sharp(input, { limitInputPixels: MAX_INPUT_PIXELS })
+        .rotate()
+        .resize(size, size, { fit: "cover", position: "attention" })
+        .webp({ quality: 82 })
+        .toBuffer(),
+    }))
+  );
+};
+
+/**
+ * Delete stored avatar files. Failures are only logged: a stray file is better
+ * than a failed profile update.
+ */
+export const deleteAvatarFiles = async (keys: string[]) => {
+  const storage = getStorage();
+  await Promise.all(
+    keys.map((key) =>
+      storage.delete(key).catch((error) => {
+        console.error(`Failed to delete avatar file ${key}:`, error);
+      })
+    )
+  );
+};
+
+/**
+ * Process and store an uploaded avatar, replacing (and deleting) the old one
+ */
+export const uploadAvatarService = async (userId: string, file?: Express.Multer.File) => {
+  if (!file) {
+    throw new AppError("An image is required in the \"avatar\" field", 400, "MISSING_FILE");
+  }
+
+  const user = await User.findById(userId).select("+avatarStorageKeys");
+  if (!user) throw new AppError("User not found", 404, "USER_NOT_FOUND");
+
+  const variants = await renderAvatarVariants(file.buffer);
+
+  const storage = getStorage();
+  const id = crypto.randomUUID();
+  const stored = await Promise.all(
+    variants.map(async ({ variant, body }) => {
+      const key = `avatars/${userId}/${id}-${AVATAR_SIZES[variant]}.webp`;
+      return { variant, key, url: await storage.put(key, body, "image/webp") };
+    })
+  );
+
+  const previousKeys = user.avatarStorageKeys || [];
+
+  const avatarVariants = Object.fromEntries(stored.map((s) => [s.variant, s.url]));
+  user.avatarVariants = avatarVariants;
+  user.avatar = avatarVariants.large;
+  user.avatarStorageKeys = stored.map((s) => s.key);
+  await user.save();
+
+  await deleteAvatarFiles(previousKeys);
+
+  return {
+    success: true,
+    message: "Avatar updated successfully",
+    avatar: user.avatar,
+    avatarVariants: user.avatarVariants,
+  };
+};
+
+/**
+ * Remove the current avatar and its stored files
+ */
+export const deleteAvatarService = async (userId: string) => {
+  const user = await User.findById(userId).select("+avatarStorageKeys");
+  if (!user) throw new AppError("User not found", 404, "USER_NOT_FOUND");
+
+  const previousKeys = user.avatarStorageKeys || [];
+  user.avatar = "";
+  user.avatarVariants = undefined;
+  user.avatarStorageKeys = [];
+  await user.save();
+
+  await deleteAvatarFiles(previousKeys);
+
+  return { success: true, message: "Avatar removed successfully" };
+};
@@ -0,0 +1,187 @@
+import { getRedisClient } from "../config/redis";
+
+const CACHE_KEY_PREFIX = "wanderwise:cache:";
+const MAX_MEMORY_ENTRIES = 10000;
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+export interface Cache<T> {
+  get(key: string): Promise<T | undefined>;
+  set(key: string, value: T): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * In-process entries for when Redis isn't configured. Writes sweep out
+ * expired entries (at most once a minute) and drop the least recently written
+ * ones beyond MAX_MEMORY_ENTRIES, so keys that are never read again don't
+ * pile up.
+ */
+export const createMemoryStore = <V extends { expiresAt: number }>(
+  maxEntries = MAX_MEMORY_ENTRIES
+) => {
+  const entries = new Map<string, V>();
+  let lastSweep = Date.now();
+
+  const sweep = (now: number) => {
+    lastSweep = now;
+    for (const [key, entry] of entries) {
+      if (entry.expiresAt <= now) entries.delete(key);
+    }
+  };
+
+  return {
+    get: (key: string): V | undefined => {
+      const entry = entries.get(key);
+      if (entry && entry.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return undefined;
+      }
+      return entry;
+    },
+
+    set: (key: string, entry: V) => {
+      const now = Date.now();
+      if (now - lastSweep >= SWEEP_INTERVAL_MS) sweep(now);
+
+      // Re-inserted, so the map stays ordered by last write
+      entries.delete(key);
+      entries.set(key, entry);
+      for (const oldest of entries.keys()) {
+        if (entries.size <= maxEntries) break;
+        entries.delete(oldest);
+      }
+    },
+
+    delete: (key: string) => {
+      entries.delete(key);
+    },
+
+    get size() {
+      return entries.size;
+    },
+  };
+};
+
+/**
+ * JSON cache for a namespace. Uses Redis when REDIS_URL is configured and an
+ * in-process map otherwise. Cache errors are logged and treated as misses.
+ */
+export const createCache = <T>(namespace: string, ttlSeconds: number): Cache<T> => {
+  const memory = createMemoryStore<{ value: T; expiresAt: number }>();
+  const prefix = `${CACHE_KEY_PREFIX}${namespace}:`;
+
+  return {
+    get: async (key) => {
+      try {
+        const client = await getRedisClient();
+        if (client) {
+          const raw = await client.get(`${prefix}${key}`);
+          return raw ? (JSON.parse(raw) as T) : undefined;
+        }
+      } catch (error) {
+        console.error(`Cache read failed (${namespace}):`, error);
+        return undefined;
+      }
+
+      return memory.get(key)?.value;
+    },
+
+    set: async (key, value) => {
+      try {
+        const client = await getRedisClient();
+        if (client) {
+          await client.set(`${prefix}${key}`, JSON.stringify(value), {
+            expiration: { type: "EX", value: ttlSeconds },
+          });
+          return;
+        }
+      } catch (error) {
+        console.error(`Cache write failed (${namespace}):`, error);
+        return;
+      }
+
+      memory.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+    },
+
+    delete: async (key) => {
+      try {
+        const client = await getRedisClient();
+        if (client) {
+          await client.del(`${prefix}${key}`);
+          return;
+        }
+      } catch (error) {
+        console.error(`Cache delete failed (${namespace}):`, error);
+        return;
+      }
+
+      memory.delete(key);
+    },
+  };
+};
+
+export interface Counter {
+  increment(key: string): Promise<number>;
+  get(key: string): Promise<number>;
+  reset(key: string): Promise<void>;
+}
+
+/**
+ * Fixed-window counter for a namespace: the window starts with the first
+ * increment and the count resets when it expires. Redis-backed like
+ * createCache, so counts are shared between instances.
+ */
+export const createCounter = (namespace: string, windowSeconds: number): Counter => {
+  const memory = createMemoryStore<{ count: number; expiresAt: number }>();
+  const prefix = `${CACHE_KEY_PREFIX}${namespace}:`;
+
+  return {
+    increment: async (key) => {
+      try {
+        const client = await getRedisClient();
+        if (client) {
+          const count = await client.incr(`${prefix}${key}`);
+          if (count === 1) await client.expire(`${prefix}${key}`, windowSeconds);
+          return count;
+        }
+      } catch (error) {
+        console.error(`Counter increment failed (${namespace}):`, error);
+        return 0;
+      }
+
+      const entry = memory.get(key) || { count: 0, expiresAt: Date.now() + windowSeconds * 1000 };
+      entry.count += 1;
+      memory.set(key, entry);
+      return entry.count;
+    },
+
+    get: async (key) => {
+      try {
+        const client = await getRedisClient();
+        if (client) {
+          return Number(await client.get(`${prefix}${key}`)) || 0;
+        }
+      } catch (error) {
+        console.error(`Counter read failed (${namespace}):`, error);
+        return 0;
+      }
+
+      return memory.get(key)?.count || 0;
+    },
+
+    reset: async (key) => {
+      try {
+        const client = await getRedisClient();
+        if (client) {
+          await client.del(`${prefix}${key}`);
+          return;
+        }
+      } catch (error) {
+        console.error(`Counter reset failed (${namespace}):`, error);
+        return;
+      }
+
+      memory.delete(key);
+    },
+  };
+};
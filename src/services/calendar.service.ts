@@ -0,0 +1,111 @@
+import crypto from "crypto";
+import { Itinerary } from "../models/itinerary.model";
+import { CalendarFeed } from "../models/calendarFeed.model";
+import { AppError } from "../middleware/errorMiddleware";
+import {
+  getAuthorizedItinerary,
+  getItineraryRole,
+  getItineraryVersion,
+} from "./itineraryAccess.service";
+import { getServerUrl } from "../config/mail";
+import { buildItineraryCalendar } from "../utils/ical";
+
+const FEED_REFRESH_MINUTES = 60;
+
+const hashFeedToken = (token: string) =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+const toFilename = (destination: string) => {
+  const slug = destination
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  return `wanderwise-${slug || "itinerary"}.ics`;
+};
+
+/**
+ * The itinerary as an .ics file, one event per activity
+ */
+export const exportItineraryCalendarService = async (userId: string, itineraryId: string) => {
+  const { itinerary } = await getAuthorizedItinerary(userId, itineraryId, "viewer");
+
+  return {
+    filename: toFilename(itinerary.destination),
+    calendar: buildItineraryCalendar(itinerary, {
+      itineraryId: String(itinerary._id),
+      version: getItineraryVersion(itinerary),
+    }),
+  };
+};
+
+/**
+ * Create the user's subscription URL for an itinerary. The token is only
+ * returned here; creating a feed again replaces the old URL.
+ */
+export const createCalendarFeedService = async (userId: string, itineraryId: string) => {
+  const { itinerary } = await getAuthorizedItinerary(userId, itineraryId, "viewer");
+
+  const token = crypto.randomBytes(32).toString("hex");
+  const feed = await CalendarFeed.findOneAndUpdate(
+    { userId, itineraryId: itinerary._id },
+    { tokenHash: hashFeedToken(token), lastAccessedAt: null },
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  );
+
+  const url = `${getServerUrl()}/api/v1/calendar/${token}.ics`;
+
+  return {
+    success: true,
+    message: "Calendar feed created successfully",
+    feed: {
+      url,
+      webcalUrl: url.replace(/^https?:/, "webcal:"), // opens the subscribe dialog in calendar apps
+      createdAt: feed.updatedAt,
+    },
+  };
+};
+
+/**
+ * Stop the user's subscription URL for an itinerary from working
+ */
+export const revokeCalendarFeedService = async (userId: string, itineraryId: string) => {
+  const { itinerary } = await getAuthorizedItinerary(userId, itineraryId, "viewer");
+
+  const result = await CalendarFeed.deleteOne({ userId, itineraryId: itinerary._id });
+  if (result.deletedCount === 0) {
+    throw new AppError("Calendar feed not found", 404, "CALENDAR_FEED_NOT_FOUND");
+  }
+
+  return { success: true, message: "Calendar feed revoked successfully" };
+};
+
+/**
+ * The calendar behind a feed URL. Calendar apps can't send a bearer token, so
+ * the URL's token is the credential; it stops working once its user loses
+ * access to the itinerary.
+ */
+export const getCalendarFeedService = async (token: string) => {
+  const feed = await CalendarFeed.findOne({ tokenHash: hashFeedToken(String(token)) });
+  const itinerary = feed && (await Itinerary.findById(feed.itineraryId));
+
+  if (!feed || !itinerary || !getItineraryRole(itinerary, String(feed.userId))) {
+    throw new AppError("Calendar feed not found", 404, "CALENDAR_FEED_NOT_FOUND");
+  }
+
+  await CalendarFeed.updateOne({ _id: feed._id }, { lastAccessedAt: new Date() });
+
+  return {
+    calendar: buildItineraryCalendar(itinerary, {
+      itineraryId: String(itinerary._id),
+      version: getItineraryVersion(itinerary),
+      refreshMinutes: FEED_REFRESH_MINUTES,
+    }),
+  };
+};
+
+/**
+ * Remove the calendar feeds of deleted itineraries
+ */
+export const deleteCalendarFeeds = async (itineraryIds: unknown[]) => {
+  await CalendarFeed.deleteMany({ itineraryId: { $in: itineraryIds } });
+};
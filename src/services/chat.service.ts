@@ -0,0 +1,164 @@
+import crypto from "crypto";
+import { ItineraryChat } from "../models/itineraryChat.model";
+import { AppError } from "../middleware/errorMiddleware";
+import { generateItineraryRefinement } from "./ai.service";
+import { resolveActivityLocations } from "./geocoding.service";
+import { updateItineraryService } from "./itinerary.service";
+import { assertItineraryVersion, getAuthorizedItinerary } from "./itineraryAccess.service";
+import { applyItineraryDiff } from "../utils/applyItineraryDiff";
+import { ConcurrencyOptions, SendChatMessageDTO } from "../dtos/itinerary.dto";
+import { IChatMessage } from "../types/chat.type";
+import { IActivity, IItineraryDiff } from "../types/itinerary.type";
+import { ChatMessage } from "../types/llm.type";
+
+const HISTORY_LIMIT = 10; // chat turns sent back to the model as context
+
+/**
+ * Get the refinement chat history for an itinerary
+ */
+export const getItineraryChatService = async (userId: string, itineraryId: string) => {
+  await getAuthorizedItinerary(userId, itineraryId, "viewer");
+
+  const chat = await ItineraryChat.findOne({ itineraryId, userId });
+
+  return {
+    success: true,
+    messages: chat?.messages || [],
+  };
+};
+
+/**
+ * Send a refinement request. The AI's reply and proposed diff are stored in the
+ * chat history; the itinerary itself is unchanged until the diff is applied.
+ */
+export const sendChatMessageService = async (
+  userId: string,
+  itineraryId: string,
+  data: SendChatMessageDTO
+) => {
+  const message = typeof data?.message === "string" ? data.message.trim() : "";
+  if (!message) {
+    throw new AppError("Message is required", 400, "MISSING_FIELDS");
+  }
+
+  const { itinerary } = await getAuthorizedItinerary(userId, itineraryId, "editor");
+
+  const chat =
+    (await ItineraryChat.findOne({ itineraryId, userId })) ||
+    new ItineraryChat({ itineraryId, userId, messages: [] });
+
+  const history: ChatMessage[] = chat.messages.slice(-HISTORY_LIMIT).map((m) => ({
+    role: m.role,
+    content: m.content,
+  }));
+
+  const diff = await generateItineraryRefinement(
+    {
+      destination: itinerary.destination,
+      travelStyle: itinerary.travelStyle,
+      budget: itinerary.budget,
+      currency: itinerary.currency,
+      preferences: itinerary.preferences,
+      dayItineraries: itinerary.dayItineraries,
+      history,
+      message,
+    },
+    { coordinates: itinerary.coordinates }
+  );
+
+  // Geocode new places the same way as generated itineraries
+  for (const change of diff.changes) {
+    if (change.op === "add") {
+      await resolveActivityLocations([change.activity], itinerary.coordinates);
+    } else if (change.op === "update" && change.activity.location) {
+      const [resolved] = await resolveActivityLocations(
+        [{ location: change.activity.location } as IActivity],
+        itinerary.coordinates
+      );
+      change.activity.location = resolved.location;
+    }
+  }
+
+  const userMessage: IChatMessage = {
+    id: crypto.randomUUID(),
+    role: "user",
+    content: message,
+    createdAt: new Date(),
+  };
+
+  const assistantMessage: IChatMessage = {
+    id: crypto.randomUUID(),
+    role: "assistant",
+    content: diff.summary,
+    createdAt: new Date(),
+    ...(diff.changes.length > 0 && { diff, diffStatus: "proposed" as const }),
+  };
+
+  chat.messages.push(userMessage, assistantMessage);
+  await chat.save();
+
+  return {
+    success: true,
+    message: assistantMessage,
+    preview:
+      diff.changes.length > 0
+        ? applyItineraryDiff(itinerary.toObject().dayItineraries, diff)
+        : undefined,
+  };
+};
+
+/**
+ * Apply a proposed diff through updateItineraryService, so the usual
+ * validation, version check and save path runs. Other pending proposals are
+ * discarded since they were made against the previous days.
+ */
+export const applyChatDiffService = async (
+  userId: string,
+  itineraryId: string,
+  messageId: string,
+  options: ConcurrencyOptions = {}
+) => {
+  const chat = await ItineraryChat.findOne({ itineraryId, userId });
+  const chatMessage = chat?.messages.find((m) => m.id === messageId);
+
+  if (!chat || !chatMessage || !chatMessage.diff) {
+    throw new AppError("Proposed change not found", 404, "CHAT_DIFF_NOT_FOUND");
+  }
+
+  if (chatMessage.diffStatus !== "proposed") {
+    throw new AppError(
+      `This change has already been ${chatMessage.diffStatus}`,
+      409,
+      "CHAT_DIFF_NOT_PENDING"
+    );
+  }
+
+  const { itinerary } = await getAuthorizedItinerary(userId, itineraryId, "editor");
+  assertItineraryVersion(itinerary, options.ifMatch);
+
+  const dayItineraries = applyItineraryDiff(
+    itinerary.toObject().dayItineraries,
+    chatMessage.diff as IItineraryDiff
+  );
+
+  const result = await updateItineraryService(
+    userId,
+    itineraryId,
+    { dayItineraries },
+    { ...options, operation: "apply-chat" }
+  );
+
+  for (const m of chat.messages) {
+    if (m.diffStatus === "proposed") {
+      m.diffStatus = m.id === messageId ? "applied" : "discarded";
+    }
+  }
+  chat.markModified("messages");
+  await chat.save();
+
+  return {
+    success: true,
+    message: "Changes applied successfully",
+    itinerary: result.itinerary,
+  };
+};
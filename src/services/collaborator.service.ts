@@ -0,0 +1,371 @@
+import crypto from "crypto";
+import { Itinerary } from "../models/itinerary.model";
+import { ItineraryChat } from "../models/itineraryChat.model";
+import { Invitation } from "../models/invitation.model";
+import { User } from "../models/User.model";
+import { AppError } from "../middleware/errorMiddleware";
+import { getAuthorizedItinerary } from "./itineraryAccess.service";
+import { publishItineraryEvent } from "./realtime.service";
+import { INVITATION_TTL_DAYS, sendCollaboratorInviteEmail } from "./mail.service";
+import { generateToken } from "../utils/generateToken";
+import { CollaboratorRole } from "../types/itinerary.type";
+import { InviteCollaboratorDTO, UpdateCollaboratorDTO } from "../dtos/itinerary.dto";
+
+const hashInviteToken = (token: string) =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+const checkRole = (role: unknown): CollaboratorRole => {
+  if (role !== "editor" && role !== "viewer") {
+    throw new AppError("Role must be editor or viewer", 400, "INVALID_ROLE");
+  }
+  return role;
+};
+
+const toMember = (
+  user: { _id: unknown; email: string; firstName: string; lastName: string; avatar?: string } | undefined
+) =>
+  user && {
+    id: String(user._id),
+    email: user.email,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    avatar: user.avatar,
+  };
+
+/**
+ * Find a pending invitation by its emailed token
+ */
+const findPendingInvitation = async (token: string) => {
+  const invitation = await Invitation.findOne({
+    tokenHash: hashInviteToken(String(token)),
+    status: "pending",
+  });
+
+  if (!invitation) {
+    throw new AppError("Invitation not found", 404, "INVITATION_NOT_FOUND");
+  }
+  if (invitation.expiresAt <= new Date()) {
+    throw new AppError("This invitation has expired", 410, "INVITATION_EXPIRED");
+  }
+
+  return invitation;
+};
+
+/**
+ * The owner and collaborators of an itinerary. Pending invitations are only
+ * shown to the owner.
+ */
+export const getCollaboratorsService = async (userId: string, itineraryId: string) => {
+  const { itinerary, role } = await getAuthorizedItinerary(userId, itineraryId, "viewer");
+  const collaborators = itinerary.collaborators || [];
+
+  const users = await User.find({
+    _id: { $in: [itinerary.userId, ...collaborators.map((c) => c.userId)] },
+  }).select("email firstName lastName avatar");
+  const usersById = new Map(users.map((u) => [String(u._id), u]));
+
+  const invitations =
+    role === "owner"
+      ? await Invitation.find({ itineraryId, status: "pending" }).sort({ createdAt: -1 })
+      : [];
+
+  return {
+    success: true,
+    role,
+    owner: toMember(usersById.get(String(itinerary.userId))),
+    collaborators: collaborators.map((c) => ({
+      user: toMember(usersById.get(String(c.userId))),
+      role: c.role,
+      addedAt: c.addedAt,
+    })),
+    ...(role === "owner" && {
+      invitations: invitations.map((invitation) => ({
+        id: String(invitation._id),
+        email: invitation.email,
+        role: invitation.role,
+        expiresAt: invitation.expiresAt,
+        createdAt: invitation.createdAt,
+      })),
+    }),
+  };
+};
+
+/**
+ * Invite someone by email. Inviting the same address again replaces the
+ * pending invitation (and resends the email).
+ */
+export const inviteCollaboratorService = async (
+  userId: string,
+  itineraryId: string,
+  data: InviteCollaboratorDTO
+) => {
+  const { itinerary } = await getAuthorizedItinerary(userId, itineraryId, "owner");
+  const email = String(data.email).trim().toLowerCase();
+  const role = checkRole(data.role);
+
+  const [owner, invitee] = await Promise.all([
+    User.findById(userId).select("email firstName lastName"),
+    User.findOne({ email }).select("email firstName"),
+  ]);
+
+  if (owner?.email === email) {
+    throw new AppError("You already own this itinerary", 400, "CANNOT_INVITE_OWNER");
+  }
+  if (invitee && itinerary.collaborators?.some((c) => String(c.userId) === String(invitee._id))) {
+    throw new AppError(
+      "This user is already a collaborator",
+      409,
+      "COLLABORATOR_EXISTS"
+    );
+  }
+
+  await Invitation.updateMany(
+    { itineraryId, email, status: "pending" },
+    { status: "revoked", respondedAt: new Date() }
+  );
+
+  const { token, expires } = generateToken(32, INVITATION_TTL_DAYS * 24);
+  const invitation = await Invitation.create({
+    itineraryId,
+    email,
+    role,
+    invitedBy: userId,
+    tokenHash: hashInviteToken(token),
+    expiresAt: expires,
+  });
+
+  await sendCollaboratorInviteEmail(
+    { email, firstName: invitee?.firstName || "there" },
+    {
+      inviterName: owner ? `${owner.firstName} ${owner.lastName}` : "A WanderWise user",
+      destination: itinerary.destination,
+      role,
+    },
+    token
+  );
+
+  return {
+    success: true,
+    message: `Invitation sent to ${email}`,
+    invitation: {
+      id: String(invitation._id),
+      email,
+      role,
+      expiresAt: invitation.expiresAt,
+    },
+  };
+};
+
+/**
+ * Cancel a pending invitation; its link stops working
+ */
+export const revokeInvitationService = async (
+  userId: string,
+  itineraryId: string,
+  invitationId: string
+) => {
+  await getAuthorizedItinerary(userId, itineraryId, "owner");
+
+  const invitation = await Invitation.findOneAndUpdate(
+    { _id: invitationId, itineraryId, status: "pending" },
+    { status: "revoked", respondedAt: new Date() },
+    { new: true }
+  );
+  if (!invitation) {
+    throw new AppError("Invitation not found", 404, "INVITATION_NOT_FOUND");
+  }
+
+  return { success: true, message: "Invitation revoked successfully" };
+};
+
+/**
+ * Change a collaborator's role
+ */
+export const updateCollaboratorService = async (
+  userId: string,
+  itineraryId: string,
+  collaboratorId: string,
+  data: UpdateCollaboratorDTO
+) => {
+  const { itinerary } = await getAuthorizedItinerary(userId, itineraryId, "owner");
+  const role = checkRole(data?.role);
+
+  const collaborator = itinerary.collaborators?.find((c) => String(c.userId) === collaboratorId);
+  if (!collaborator) {
+    throw new AppError("Collaborator not found", 404, "COLLABORATOR_NOT_FOUND");
+  }
+
+  collaborator.role = role;
+  itinerary.markModified("collaborators");
+  await itinerary.save();
+  await publishItineraryEvent(itinerary, "collaborators.updated", userId, {
+    userId: collaboratorId,
+    role,
+  });
+
+  return {
+    success: true,
+    message: "Collaborator updated successfully",
+    collaborator: { userId: collaboratorId, role, addedAt: collaborator.addedAt },
+  };
+};
+
+/**
+ * Remove a collaborator. The owner can remove anyone; collaborators can
+ * remove themselves to leave the itinerary.
+ */
+export const removeCollaboratorService = async (
+  userId: string,
+  itineraryId: string,
+  collaboratorId: string
+) => {
+  const { itinerary, role } = await getAuthorizedItinerary(userId, itineraryId, "viewer");
+
+  if (role !== "owner" && collaboratorId !== userId) {
+    throw new AppError(
+      "Only the owner can remove other collaborators",
+      403,
+      "INSUFFICIENT_ROLE",
+      { role, requiredRole: "owner" }
+    );
+  }
+
+  const collaborators = itinerary.collaborators || [];
+  if (!collaborators.some((c) => String(c.userId) === collaboratorId)) {
+    throw new AppError("Collaborator not found", 404, "COLLABORATOR_NOT_FOUND");
+  }
+
+  itinerary.collaborators = collaborators.filter((c) => String(c.userId) !== collaboratorId);
+  await itinerary.save();
+  // Also ends the removed user's live event streams
+  await publishItineraryEvent(itinerary, "collaborators.updated", userId, {
+    userId: collaboratorId,
+    role: null,
+  });
+  // Their refinement chat was private to them
+  await ItineraryChat.deleteMany({ itineraryId, userId: collaboratorId });
+
+  return {
+    success: true,
+    message:
+      collaboratorId === userId ? "You left the itinerary" : "Collaborator removed successfully",
+  };
+};
+
+/**
+ * Public details of an invitation, for the page the email links to
+ */
+export const getInvitationService = async (token: string) => {
+  const invitation = await findPendingInvitation(token);
+
+  const [itinerary, inviter] = await Promise.all([
+    Itinerary.findById(invitation.itineraryId).select("destination startDate endDate"),
+    User.findById(invitation.invitedBy).select("firstName lastName"),
+  ]);
+  if (!itinerary) {
+    throw new AppError("Invitation not found", 404, "INVITATION_NOT_FOUND");
+  }
+
+  return {
+    success: true,
+    invitation: {
+      email: invitation.email,
+      role: invitation.role,
+      expiresAt: invitation.expiresAt,
+      invitedBy: inviter ? `${inviter.firstName} ${inviter.lastName}` : undefined,
+      itinerary: {
+        id: String(itinerary._id),
+        destination: itinerary.destination,
+        startDate: itinerary.startDate,
+        endDate: itinerary.endDate,
+      },
+    },
+  };
+};
+
+/**
+ * Accept or decline an invitation. Only the account whose email was invited
+ * can respond, so a forwarded link can't be used by someone else.
+ */
+export const respondToInvitationService = async (
+  userId: string,
+  token: string,
+  accept: boolean
+) => {
+  const invitation = await findPendingInvitation(token);
+
+  const user = await User.findById(userId).select("email");
+  if (!user) throw new AppError("User not found", 404, "USER_NOT_FOUND");
+
+  if (user.email !== invitation.email) {
+    throw new AppError(
+      "This invitation was sent to a different email address",
+      403,
+      "INVITATION_EMAIL_MISMATCH"
+    );
+  }
+
+  invitation.status = accept ? "accepted" : "declined";
+  invitation.respondedAt = new Date();
+
+  if (!accept) {
+    await invitation.save();
+    return { success: true, message: "Invitation declined" };
+  }
+
+  const itinerary = await Itinerary.findById(invitation.itineraryId);
+  if (!itinerary) {
+    throw new AppError("Invitation not found", 404, "INVITATION_NOT_FOUND");
+  }
+
+  const collaborators = itinerary.collaborators || [];
+  const existing = collaborators.find((c) => String(c.userId) === userId);
+  if (String(itinerary.userId) !== userId) {
+    if (existing) {
+      existing.role = invitation.role;
+      itinerary.markModified("collaborators");
+    } else {
+      collaborators.push({
+        userId,
+        role: invitation.role,
+        invitedBy: String(invitation.invitedBy),
+        addedAt: new Date(),
+      });
+      itinerary.collaborators = collaborators;
+    }
+    await itinerary.save();
+    await publishItineraryEvent(itinerary, "collaborators.updated", userId, {
+      userId,
+      role: invitation.role,
+    });
+  }
+  await invitation.save();
+
+  return {
+    success: true,
+    message: "Invitation accepted",
+    itineraryId: String(itinerary._id),
+    role: invitation.role,
+  };
+};
+
+/**
+ * Remove collaboration data of a deleted itinerary
+ */
+export const deleteItineraryInvitations = async (itineraryId: string) => {
+  await Invitation.deleteMany({ itineraryId });
+};
+
+/**
+ * Remove a user from every itinerary they collaborate on and drop the
+ * invitations sent to or by them (account purge)
+ */
+export const removeUserCollaborations = async (userId: string, email: string) => {
+  await Promise.all([
+    Itinerary.updateMany(
+      { "collaborators.userId": userId },
+      { $pull: { collaborators: { userId } } }
+    ),
+    Invitation.deleteMany({ $or: [{ invitedBy: userId }, { email: email.toLowerCase() }] }),
+  ]);
+};
@@ -0,0 +1,118 @@
+import fs from "fs";
+import axios from "axios";
+import { AppError } from "../middleware/errorMiddleware";
+import { createCache } from "./cache.service";
+import staticRates from "../config/exchangeRates.json";
+import { CurrencyConverter, ExchangeRates, RateSource } from "../types/currency.type";
+
+const RATES_CACHE_TTL_SECONDS = 60 * 60;
+const DEFAULT_RATES_URL = "https://open.er-api.com/v6/latest/USD";
+
+export const DEFAULT_CURRENCY = "USD";
+
+const ratesCache = createCache<ExchangeRates>("exchange-rates", RATES_CACHE_TTL_SECONDS);
+
+/**
+ * Rates from a JSON file ({ base, rates }). Without a path, uses the rates
+ * bundled in src/config/exchangeRates.json, so tests and local dev stay offline.
+ */
+export const createStaticRateSource = (filePath?: string): RateSource => ({
+  name: "static",
+  getRates: async () => {
+    if (!filePath) return staticRates as ExchangeRates;
+
+    try {
+      return JSON.parse(fs.readFileSync(filePath, "utf8")) as ExchangeRates;
+    } catch (error) {
+      console.error("Exchange rates file error:", error);
+      throw new AppError("Failed to load exchange rates", 500, "CONFIG_ERROR");
+    }
+  },
+});
+
+/**
+ * Rates from an HTTP API returning { base_code | base, rates } (e.g. open.er-api.com)
+ */
+export const createHttpRateSource = (url: string): RateSource => ({
+  name: "http",
+  getRates: async () => {
+    const cached = await ratesCache.get(url);
+    if (cached) return cached;
+
+    try {
+      const response = await axios.get(url, { timeout: 10000 });
+      const { rates } = response.data || {};
+      const base = response.data?.base_code || response.data?.base;
+
+      if (!rates || !base) {
+        throw new Error("Unexpected exchange rates response");
+      }
+
+      const result: ExchangeRates = { base, rates, date: response.data.time_last_update_utc };
+      await ratesCache.set(url, result);
+      return result;
+    } catch (error) {
+      console.error("Exchange Rates API Error:", error);
+      throw new AppError("Failed to fetch exchange rates", 502, "EXCHANGE_RATES_ERROR");
+    }
+  },
+});
+
+let sourceOverride: RateSource | null = null;
+
+/**
+ * Replace the configured rate source (e.g. in tests). Pass null to go back to config.
+ */
+export const setRateSource = (source: RateSource | null): void => {
+  sourceOverride = source;
+};
+
+const getRateSource = (): RateSource => {
+  if (sourceOverride) return sourceOverride;
+
+  if (process.env.CURRENCY_RATE_SOURCE === "http") {
+    return createHttpRateSource(process.env.EXCHANGE_RATES_URL || DEFAULT_RATES_URL);
+  }
+  return createStaticRateSource(process.env.EXCHANGE_RATES_FILE);
+};
+
+/**
+ * Normalise a currency code, rejecting anything that isn't three letters
+ */
+export const normalizeCurrency = (currency: string | undefined): string | undefined => {
+  if (currency === undefined || currency === null || currency === "") return undefined;
+
+  const code = String(currency).trim().toUpperCase();
+  if (!/^[A-Z]{3}$/.test(code)) {
+    throw new AppError(`Invalid currency code: ${currency}`, 400, "INVALID_CURRENCY");
+  }
+  return code;
+};
+
+/**
+ * Build a converter into `currency` from the current rates. Rates are fetched
+ * once, so the converter itself is synchronous.
+ */
+export const getCurrencyConverter = async (currency: string): Promise<CurrencyConverter> => {
+  const target = normalizeCurrency(currency) || DEFAULT_CURRENCY;
+  const { rates } = await getRateSource().getRates();
+
+  const rateFor = (code: string) => {
+    const rate = rates[code];
+    if (!rate) {
+      throw new AppError(`Unsupported currency: ${code}`, 400, "UNSUPPORTED_CURRENCY");
+    }
+    return rate;
+  };
+
+  const targetRate = rateFor(target);
+
+  return {
+    currency: target,
+    convert: (amount: number, from: string) => {
+      const source = from.toUpperCase();
+      if (source === target || !amount) return amount;
+      return Math.round(((amount / rateFor(source)) * targetRate) * 100) / 100;
+    },
+  };
+};
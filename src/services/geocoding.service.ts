@@ -0,0 +1,108 @@
+import { createCache } from "./cache.service";
+import { GeocodingResult, searchLocations } from "./weather.service";
+import { haversineDistanceKm } from "../utils/geo";
+import { IActivity } from "../types/itinerary.type";
+
+const GEOCODE_CACHE_TTL_SECONDS = 30 * 24 * 60 * 60; // places rarely move
+const MAX_DISTANCE_KM = 50; // candidates further from the trip are a different place
+const HIGH_CONFIDENCE_KM = 10;
+const LOOKUP_BATCH_SIZE = 5;
+
+type Coordinates = { latitude: number; longitude: number };
+
+// null marks a lookup that found nothing near the trip, so it isn't retried
+const geocodeCache = createCache<GeocodingResult | null>(
+  "geocode",
+  GEOCODE_CACHE_TTL_SECONDS
+);
+
+/**
+ * Find the geocoder candidate for a place name closest to the trip coordinates
+ */
+const lookupPlace = async (
+  name: string,
+  near: Coordinates
+): Promise<GeocodingResult | null> => {
+  // Round the bias point so nearby trips share cache entries
+  const key = `${name.trim().toLowerCase()}|${near.latitude.toFixed(1)},${near.longitude.toFixed(1)}`;
+
+  const cached = await geocodeCache.get(key);
+  if (cached !== undefined) return cached;
+
+  const candidates = await searchLocations(name, 5);
+  const nearest = candidates
+    .map((place) => ({ place, distance: haversineDistanceKm(near, place) }))
+    .filter(({ distance }) => distance <= MAX_DISTANCE_KM)
+    .sort((a, b) => a.distance - b.distance)[0];
+
+  const result = nearest?.place || null;
+  await geocodeCache.set(key, result);
+  return result;
+};
+
+/**
+ * Geocode each activity's place name, biased to the trip coordinates.
+ *
+ * - A geocoder match near the trip is "resolved" ("high" confidence within
+ *   10 km, else "medium").
+ * - Otherwise coordinates suggested by the AI are kept if they are near the
+ *   trip, marked "approximate": nothing confirmed them.
+ * - Anything else is marked "unresolved" and has its coordinates removed.
+ *
+ * Activities are updated in place and returned. Geocoder failures never throw.
+ */
+export const resolveActivityLocations = async (
+  activities: IActivity[],
+  near: Coordinates
+): Promise<IActivity[]> => {
+  const names = [...new Set(activities.map((a) => a.location.name.trim()))];
+  const matches = new Map<string, GeocodingResult | null>();
+
+  for (let i = 0; i < names.length; i += LOOKUP_BATCH_SIZE) {
+    await Promise.all(
+      names.slice(i, i + LOOKUP_BATCH_SIZE).map(async (name) => {
+        try {
+          matches.set(name, await lookupPlace(name, near));
+        } catch (error) {
+          console.error(`Failed to geocode "${name}":`, error);
+          matches.set(name, null);
+        }
+      })
+    );
+  }
+
+  for (const activity of activities) {
+    const { name, latitude, longitude } = activity.location;
+    const match = matches.get(name.trim());
+
+    if (match) {
+      const distance = haversineDistanceKm(near, match);
+      activity.location = {
+        name,
+        latitude: match.latitude,
+        longitude: match.longitude,
+        geocodeStatus: "resolved",
+        confidence: distance <= HIGH_CONFIDENCE_KM ? "high" : "medium",
+      };
+      continue;
+    }
+
+    const suggested =
+      latitude !== undefined && longitude !== undefined
+        ? { latitude, longitude }
+        : undefined;
+
+    if (suggested && haversineDistanceKm(near, suggested) <= MAX_DISTANCE_KM) {
+      activity.location = {
+        name,
+        ...suggested,
+        geocodeStatus: "approximate",
+      };
+      continue;
+    }
+
+    activity.location = { name, geocodeStatus: "unresolved" };
+  }
+
+  return activities;
+};
@@ -1,13 +1,156 @@
+import crypto from "crypto";
 import { Itinerary } from "../models/itinerary.model";
+import { ItineraryChat } from "../models/itineraryChat.model";
 import { AppError } from "../middleware/errorMiddleware";
-import { generateTravelItinerary } from "./ai.service";
+import { generateDayActivities, generateTravelItinerary } from "./ai.service";
+import { startJob } from "./job.service";
+import { DEFAULT_CURRENCY, getCurrencyConverter, normalizeCurrency } from "./currency.service";
+import { resolveActivityLocations } from "./geocoding.service";
+import { deleteShareLinks } from "./share.service";
+import {
+  assertItineraryVersion,
+  createEventsToken,
+  getAuthorizedItinerary,
+  getItineraryRole,
+  getItineraryVersion,
+} from "./itineraryAccess.service";
+import { deleteItineraryInvitations } from "./collaborator.service";
+import { publishItineraryEvent, subscribeToItinerary } from "./realtime.service";
+import { deleteItineraryRevisions, recordRevision } from "./revision.service";
+import { deleteCalendarFeeds } from "./calendar.service";
 import { getCoordinatesByDestination, getWeatherForecast } from "./weather.service";
 import {
   CreateItineraryDTO,
   UpdateItineraryDTO,
   GenerateItineraryDTO,
+  RegenerateDayDTO,
+  ActivityAlternativesDTO,
+  OptimizeRouteDTO,
+  ActivityMutationOptions,
+  ConcurrencyOptions,
+  UpdateItineraryOptions,
+  ValidateItineraryDTO,
+  AddExpenseDTO,
+  BudgetSummaryDTO,
 } from "../dtos/itinerary.dto";
-import { IActivity, IDayItinerary } from "../types/itinerary.type";
+import { User } from "../models/User.model";
+import { CurrencyConverter } from "../types/currency.type";
+import { ItineraryEvent } from "../types/realtime.type";
+import {
+  GenerationOptions,
+  IActivity,
+  IDayItinerary,
+  IExpense,
+  IItinerary,
+} from "../types/itinerary.type";
+import {
+  applyScheduleTimes,
+  optimizeDayRoute,
+  totalRouteDistanceKm,
+} from "../utils/routeOptimizer";
+import { getBudgetWarning, summarizeBudget } from "../utils/budget";
+import {
+  FeasibilityOptions,
+  checkItineraryFeasibility,
+} from "../utils/feasibility";
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw new AppError("Itinerary generation was cancelled", 499, "GENERATION_CANCELLED");
+  }
+};
+
+const getFeasibilityOptions = (
+  overrides: ValidateItineraryDTO = {}
+): FeasibilityOptions => ({
+  maxActiveHours:
+    overrides.maxActiveHours ?? (Number(process.env.MAX_ACTIVE_HOURS_PER_DAY) || 12),
+});
+
+/**
+ * Schedule issues for a day after an activity change. In strict mode, errors
+ * involving the changed activity reject the change before it is saved.
+ */
+const checkActivitySchedule = (
+  itinerary: IItinerary,
+  dayNumber: number,
+  activityId: string,
+  strict?: boolean
+) => {
+  const issues = checkItineraryFeasibility(itinerary, getFeasibilityOptions()).filter(
+    (issue) => issue.day === dayNumber
+  );
+
+  if (strict) {
+    const blocking = issues.filter(
+      (issue) => issue.severity === "error" && issue.activityIds.includes(activityId)
+    );
+    if (blocking.length > 0) {
+      throw new AppError(
+        `Activity conflicts with the schedule: ${blocking.map((i) => i.message).join("; ")}`,
+        422,
+        "SCHEDULE_CONFLICT",
+        blocking
+      );
+    }
+  }
+
+  return issues;
+};
+
+// Converts into the itinerary's own currency, for budget checks and AI prompts
+const getHomeConverter = (itinerary: Pick<IItinerary, "currency">) =>
+  getCurrencyConverter(itinerary.currency || DEFAULT_CURRENCY);
+
+// Throws UNSUPPORTED_CURRENCY for codes without an exchange rate
+const checkCurrency = (converter: CurrencyConverter, currency: string | undefined) => {
+  const code = normalizeCurrency(currency);
+  if (code) converter.convert(1, code);
+  return code;
+};
+
+const checkActivityCurrencies = (activities: IActivity[], converter: CurrencyConverter) => {
+  for (const activity of activities) {
+    activity.currency = checkCurrency(converter, activity.currency);
+  }
+};
+
+/**
+ * Amounts without a currency of their own are in the itinerary's currency;
+ * convert them when it changes so they keep their value. Activities are
+ * skipped when the same update replaces them.
+ */
+const convertImplicitAmounts = (
+  itinerary: IItinerary,
+  converter: CurrencyConverter,
+  from: string,
+  convert: { budget: boolean; activities: boolean }
+) => {
+  if (convert.budget && typeof itinerary.budget === "number") {
+    itinerary.budget = converter.convert(itinerary.budget, from);
+  }
+  if (convert.activities) {
+    for (const activity of itinerary.dayItineraries.flatMap((d) => d.activities)) {
+      if (!activity.currency && activity.estimatedCost) {
+        activity.estimatedCost = converter.convert(activity.estimatedCost, from);
+      }
+    }
+  }
+  for (const expense of itinerary.expenses || []) {
+    if (!expense.currency) expense.amount = converter.convert(expense.amount, from);
+  }
+};
+
+const sumEstimatedCosts = (activities: IActivity[], converter: CurrencyConverter) =>
+  activities.reduce(
+    (total, activity) =>
+      total +
+      converter.convert(activity.estimatedCost || 0, activity.currency || converter.currency),
+    0
+  );
+
+const describeWeather = (weather: IDayItinerary["weather"]) =>
+  weather?.condition ? `${weather.condition}, ${weather.temp}°C` : undefined;
 
 /**
  * Create a basic itinerary (user-created, not AI-generated)
@@ -17,6 +160,7 @@ export const createItineraryService = async (
   data: CreateItineraryDTO
 ) => {
   const { destination, startDate, endDate, budget, travelStyle, preferences } = data;
+  const currency = normalizeCurrency(data.currency) || DEFAULT_CURRENCY;
 
   const start = new Date(startDate);
   const end = new Date(endDate);
@@ -52,10 +196,12 @@ export const createItineraryService = async (
     duration,
     dayItineraries,
     budget,
+    currency,
     travelStyle: travelStyle || "comfort",
     preferences: preferences || [],
     aiGenerated: false,
   });
+  await recordRevision(itinerary, userId, "create");
 
   return {
     success: true,
@@ -65,13 +211,17 @@ export const createItineraryService = async (
 };
 
 /**
- * Generate AI-powered itinerary
+ * Generate AI-powered itinerary. Reports each finished stage through
+ * options.onProgress and stops (without saving) once options.signal aborts.
  */
 export const generateAIItineraryService = async (
   userId: string,
-  data: GenerateItineraryDTO
+  data: GenerateItineraryDTO,
+  options: GenerationOptions = {}
 ) => {
+  const { onProgress, signal } = options;
   const { destination, startDate, endDate, budget, travelStyle, preferences } = data;
+  const currency = normalizeCurrency(data.currency) || DEFAULT_CURRENCY;
 
   const start = new Date(startDate);
   const end = new Date(endDate);
@@ -83,10 +233,15 @@ export const generateAIItineraryService = async (
   const duration = Math.ceil((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24));
 
   // Get coordinates for destination
-  const { latitude, longitude } = await getCoordinatesByDestination(destination);
+  const { latitude, longitude, displayName } =
+    await getCoordinatesByDestination(destination);
+  throwIfAborted(signal);
+  onProgress?.({ stage: "geocoded", latitude, longitude, displayName });
 
   // Get weather forecast
   const weatherForecast = await getWeatherForecast(latitude, longitude, duration);
+  throwIfAborted(signal);
+  onProgress?.({ stage: "weather", forecast: weatherForecast });
 
   // Generate itinerary with AI
   const aiResponse = await generateTravelItinerary(
@@ -96,8 +251,15 @@ export const generateAIItineraryService = async (
     travelStyle || "comfort",
     budget,
     preferences,
-    duration
+    duration,
+    currency,
+    { signal, coordinates: { latitude, longitude } }
   );
+  throwIfAborted(signal);
+
+  // Place AI-suggested activities on the map
+  await resolveActivityLocations(aiResponse.dayActivities.flat(), { latitude, longitude });
+  throwIfAborted(signal);
 
   // Initialize day itineraries with weather and AI-generated activities
   const dayItineraries: IDayItinerary[] = [];
@@ -108,7 +270,7 @@ export const generateAIItineraryService = async (
     // Get AI activities for this day
     const dailyActivities = aiResponse.dayActivities[i] || [];
 
-    dayItineraries.push({
+    const dayItinerary: IDayItinerary = {
       day: i + 1,
       date: dayDate,
       weather: weatherForecast[i] || {
@@ -120,9 +282,14 @@ export const generateAIItineraryService = async (
       },
       activities: dailyActivities,
       summary: dailyActivities.map((a) => a.name).join(" • ") || "",
-    });
+    };
+
+    dayItineraries.push(dayItinerary);
+    onProgress?.({ stage: "day", day: dayItinerary });
   }
 
+  throwIfAborted(signal);
+
   const itinerary = await Itinerary.create({
     userId,
     destination,
@@ -132,11 +299,13 @@ export const generateAIItineraryService = async (
     duration,
     dayItineraries,
     budget,
+    currency,
     travelStyle: travelStyle || "comfort",
     preferences: preferences || [],
     aiGenerated: true,
     aiNotes: aiResponse.summary || aiResponse.tips,
   });
+  await recordRevision(itinerary, userId, "generate");
 
   return {
     success: true,
@@ -146,6 +315,41 @@ export const generateAIItineraryService = async (
   };
 };
 
+/**
+ * Queue AI itinerary generation as a background job.
+ * Inputs are checked up front so obvious mistakes still fail the request itself.
+ */
+export const queueAIItineraryService = async (
+  userId: string,
+  data: GenerateItineraryDTO
+) => {
+  const { destination, startDate, endDate } = data;
+
+  if (!destination || !startDate || !endDate) {
+    throw new AppError(
+      "Destination, start date and end date are required",
+      400,
+      "MISSING_FIELDS"
+    );
+  }
+
+  if (new Date(startDate) >= new Date(endDate)) {
+    throw new AppError("End date must be after start date", 400, "INVALID_DATE_RANGE");
+  }
+
+  const job = await startJob(userId, "itinerary-generation", async () => {
+    const { itinerary } = await generateAIItineraryService(userId, data);
+    return { itineraryId: String(itinerary._id) };
+  });
+
+  return {
+    success: true,
+    message: "Itinerary generation started",
+    jobId: job.id,
+    status: job.status,
+  };
+};
+
 /**
  * Get all itineraries for a user
  */
@@ -160,41 +364,228 @@ export const getUserItinerariesService = async (userId: string) => {
 };
 
 /**
- * Get a specific itinerary
+ * Itineraries other users have shared with this user, with the user's role
  */
-export const getItineraryService = async (userId: string, itineraryId: string) => {
-  const itinerary = await Itinerary.findOne({
-    _id: itineraryId,
-    userId,
+export const getSharedWithMeItinerariesService = async (userId: string) => {
+  const itineraries = await Itinerary.find({ "collaborators.userId": userId }).sort({
+    updatedAt: -1,
   });
 
-  if (!itinerary) {
-    throw new AppError("Itinerary not found", 404, "NOT_FOUND");
+  return {
+    success: true,
+    count: itineraries.length,
+    itineraries: itineraries.map((itinerary) => ({
+      ...itinerary.toJSON(),
+      role: getItineraryRole(itinerary, userId),
+    })),
+  };
+};
+
+/**
+ * Get a specific itinerary. With data.currency, a `pricing` block gives the
+ * budget and each activity's estimated cost converted into that currency.
+ */
+export const getItineraryService = async (
+  userId: string,
+  itineraryId: string,
+  data: BudgetSummaryDTO = {}
+) => {
+  const { itinerary, role } = await getAuthorizedItinerary(userId, itineraryId, "viewer");
+
+  const currency = normalizeCurrency(data.currency);
+  if (!currency) {
+    return { success: true, itinerary, role };
+  }
+
+  const converter = await getCurrencyConverter(currency);
+  const homeCurrency = itinerary.currency || DEFAULT_CURRENCY;
+  const activityCosts: Record<string, number> = {};
+
+  for (const activity of itinerary.dayItineraries.flatMap((d) => d.activities)) {
+    if (activity.estimatedCost === undefined || activity.estimatedCost === null) continue;
+    activityCosts[activity.id] = converter.convert(
+      activity.estimatedCost,
+      activity.currency || homeCurrency
+    );
   }
 
   return {
     success: true,
     itinerary,
+    role,
+    pricing: {
+      currency: converter.currency,
+      budget:
+        itinerary.budget !== undefined && itinerary.budget !== null
+          ? converter.convert(itinerary.budget, homeCurrency)
+          : null,
+      activityCosts,
+    },
   };
 };
 
 /**
- * Update itinerary
+ * Check an itinerary's schedule for overlaps, impossible travel, overlong days
+ * and activities outside the trip dates
  */
-export const updateItineraryService = async (
+export const getItineraryValidationService = async (
   userId: string,
   itineraryId: string,
-  data: UpdateItineraryDTO
+  data: ValidateItineraryDTO = {}
 ) => {
-  const itinerary = await Itinerary.findOne({
-    _id: itineraryId,
-    userId,
-  });
+  const { itinerary } = await getAuthorizedItinerary(userId, itineraryId, "viewer");
+
+  if (data.maxActiveHours !== undefined && !(data.maxActiveHours > 0)) {
+    throw new AppError("maxActiveHours must be a positive number", 400, "INVALID_ACTIVE_HOURS");
+  }
+
+  const issues = checkItineraryFeasibility(itinerary, getFeasibilityOptions(data));
+  const errors = issues.filter((issue) => issue.severity === "error").length;
+
+  return {
+    success: true,
+    valid: errors === 0,
+    summary: { errors, warnings: issues.length - errors },
+    issues,
+  };
+};
+
+/**
+ * Get estimated vs actual spending per day and category, and the remaining budget.
+ * Amounts are shown in data.currency, else the user's preferred currency, else
+ * the itinerary's own.
+ */
+export const getBudgetSummaryService = async (
+  userId: string,
+  itineraryId: string,
+  data: BudgetSummaryDTO = {}
+) => {
+  const { itinerary } = await getAuthorizedItinerary(userId, itineraryId, "viewer");
+
+  const user = data.currency ? null : await User.findById(userId).select("preferredCurrency");
+  const currency =
+    normalizeCurrency(data.currency) ||
+    user?.preferredCurrency ||
+    itinerary.currency ||
+    DEFAULT_CURRENCY;
+
+  return {
+    success: true,
+    summary: summarizeBudget(itinerary, await getCurrencyConverter(currency)),
+    expenses: itinerary.expenses || [],
+  };
+};
+
+/**
+ * Log an actual expense, optionally against a planned activity
+ */
+export const addExpenseService = async (
+  userId: string,
+  itineraryId: string,
+  data: AddExpenseDTO,
+  options: ConcurrencyOptions = {}
+) => {
+  const { itinerary } = await getAuthorizedItinerary(userId, itineraryId, "editor");
+  assertItineraryVersion(itinerary, options.ifMatch);
+
+  const amount = Number(data.amount);
+  if (!Number.isFinite(amount) || amount < 0) {
+    throw new AppError("Amount must be a non-negative number", 400, "INVALID_AMOUNT");
+  }
 
-  if (!itinerary) {
-    throw new AppError("Itinerary not found", 404, "NOT_FOUND");
+  let day = data.day;
+  let category = data.category;
+
+  if (data.activityId) {
+    const dayItinerary = itinerary.dayItineraries.find((d) =>
+      d.activities.some((a) => a.id === data.activityId)
+    );
+    if (!dayItinerary) {
+      throw new AppError("Activity not found", 404, "ACTIVITY_NOT_FOUND");
+    }
+    day = dayItinerary.day;
+    category = category || dayItinerary.activities.find((a) => a.id === data.activityId)!.category;
   }
 
+  if (!itinerary.dayItineraries.some((d) => d.day === day)) {
+    throw new AppError("Day not found in itinerary", 404, "DAY_NOT_FOUND");
+  }
+
+  const converter = await getHomeConverter(itinerary);
+  const currency = checkCurrency(converter, data.currency);
+
+  const budgetBefore = summarizeBudget(itinerary, converter);
+  const expense: IExpense = {
+    id: crypto.randomUUID(),
+    day: day!,
+    activityId: data.activityId,
+    category: category || "other",
+    amount,
+    currency,
+    description: data.description,
+    createdAt: new Date(),
+  };
+
+  itinerary.expenses = [...(itinerary.expenses || []), expense];
+  await itinerary.save();
+  await recordRevision(itinerary, userId, "add-expense", { expenseId: expense.id });
+  await publishItineraryEvent(itinerary, "itinerary.updated", userId, { itinerary });
+
+  const summary = summarizeBudget(itinerary, converter);
+
+  return {
+    success: true,
+    message: "Expense logged successfully",
+    expense,
+    summary,
+    budgetWarning: getBudgetWarning(budgetBefore, summary),
+    version: getItineraryVersion(itinerary),
+  };
+};
+
+/**
+ * Delete a logged expense
+ */
+export const deleteExpenseService = async (
+  userId: string,
+  itineraryId: string,
+  expenseId: string,
+  options: ConcurrencyOptions = {}
+) => {
+  const { itinerary } = await getAuthorizedItinerary(userId, itineraryId, "editor");
+  assertItineraryVersion(itinerary, options.ifMatch);
+
+  const expenses = itinerary.expenses || [];
+  if (!expenses.some((e) => e.id === expenseId)) {
+    throw new AppError("Expense not found", 404, "EXPENSE_NOT_FOUND");
+  }
+
+  itinerary.expenses = expenses.filter((e) => e.id !== expenseId);
+  await itinerary.save();
+  await recordRevision(itinerary, userId, "delete-expense", { expenseId });
+  await publishItineraryEvent(itinerary, "itinerary.updated", userId, { itinerary });
+
+  return {
+    success: true,
+    message: "Expense deleted successfully",
+    summary: summarizeBudget(itinerary, await getHomeConverter(itinerary)),
+    version: getItineraryVersion(itinerary),
+  };
+};
+
+/**
+ * Update itinerary. Changing the currency converts the budget and the costs
+ * that were in the old currency, unless the update sets them itself.
+ */
+export const updateItineraryService = async (
+  userId: string,
+  itineraryId: string,
+  data: UpdateItineraryDTO,
+  options: UpdateItineraryOptions = {}
+) => {
+  const { itinerary } = await getAuthorizedItinerary(userId, itineraryId, "editor");
+  assertItineraryVersion(itinerary, options.ifMatch);
+
   // Handle date updates
   if (data.startDate || data.endDate) {
     const start = new Date(data.startDate || itinerary.startDate);
@@ -211,15 +602,35 @@ export const updateItineraryService = async (
     );
   }
 
+  let converter = await getHomeConverter(itinerary);
+  const currency = normalizeCurrency(data.currency);
+  if (currency && currency !== converter.currency) {
+    const from = converter.currency;
+    converter = await getCurrencyConverter(currency);
+    convertImplicitAmounts(itinerary, converter, from, {
+      budget: data.budget === undefined,
+      activities: !data.dayItineraries,
+    });
+  }
+  if (currency) itinerary.currency = currency;
+  if (data.dayItineraries) {
+    checkActivityCurrencies(
+      data.dayItineraries.flatMap((d) => d.activities || []),
+      converter
+    );
+    itinerary.dayItineraries = data.dayItineraries;
+  }
+
   // Update other fields
   if (data.destination) itinerary.destination = data.destination;
   if (data.budget !== undefined) itinerary.budget = data.budget;
   if (data.travelStyle) itinerary.travelStyle = data.travelStyle;
   if (data.preferences) itinerary.preferences = data.preferences;
-  if (data.dayItineraries) itinerary.dayItineraries = data.dayItineraries;
   if (data.aiNotes) itinerary.aiNotes = data.aiNotes;
 
   await itinerary.save();
+  await recordRevision(itinerary, userId, options.operation || "update");
+  await publishItineraryEvent(itinerary, "itinerary.updated", userId, { itinerary });
 
   return {
     success: true,
@@ -235,29 +646,40 @@ export const addActivityService = async (
   userId: string,
   itineraryId: string,
   dayNumber: number,
-  activity: IActivity
+  activity: IActivity,
+  options: ActivityMutationOptions = {}
 ) => {
-  const itinerary = await Itinerary.findOne({
-    _id: itineraryId,
-    userId,
-  });
-
-  if (!itinerary) {
-    throw new AppError("Itinerary not found", 404, "NOT_FOUND");
-  }
+  const { itinerary } = await getAuthorizedItinerary(userId, itineraryId, "editor");
+  assertItineraryVersion(itinerary, options.ifMatch);
 
   const dayItinerary = itinerary.dayItineraries.find((d) => d.day === dayNumber);
   if (!dayItinerary) {
     throw new AppError("Day not found in itinerary", 404, "DAY_NOT_FOUND");
   }
 
+  const converter = await getHomeConverter(itinerary);
+  checkActivityCurrencies([activity], converter);
+  const budgetBefore = summarizeBudget(itinerary, converter);
   dayItinerary.activities.push(activity);
+  const scheduleIssues = checkActivitySchedule(
+    itinerary,
+    dayNumber,
+    activity.id,
+    options.strict
+  );
   await itinerary.save();
+  await recordRevision(itinerary, userId, "add-activity", {
+    day: dayNumber,
+    activityId: activity.id,
+  });
+  await publishItineraryEvent(itinerary, "activity.added", userId, { day: dayNumber, activity });
 
   return {
     success: true,
     message: "Activity added successfully",
     itinerary,
+    scheduleIssues,
+    budgetWarning: getBudgetWarning(budgetBefore, summarizeBudget(itinerary, converter)),
   };
 };
 
@@ -269,16 +691,11 @@ export const updateActivityService = async (
   itineraryId: string,
   dayNumber: number,
   activityId: string,
-  updatedActivity: Partial<IActivity>
+  updatedActivity: Partial<IActivity>,
+  options: ActivityMutationOptions = {}
 ) => {
-  const itinerary = await Itinerary.findOne({
-    _id: itineraryId,
-    userId,
-  });
-
-  if (!itinerary) {
-    throw new AppError("Itinerary not found", 404, "NOT_FOUND");
-  }
+  const { itinerary } = await getAuthorizedItinerary(userId, itineraryId, "editor");
+  assertItineraryVersion(itinerary, options.ifMatch);
 
   const dayItinerary = itinerary.dayItineraries.find((d) => d.day === dayNumber);
   if (!dayItinerary) {
@@ -290,13 +707,28 @@ export const updateActivityService = async (
     throw new AppError("Activity not found", 404, "ACTIVITY_NOT_FOUND");
   }
 
+  const converter = await getHomeConverter(itinerary);
+  if (updatedActivity.currency !== undefined) {
+    updatedActivity.currency = checkCurrency(converter, updatedActivity.currency);
+  }
+  const budgetBefore = summarizeBudget(itinerary, converter);
   Object.assign(activity, updatedActivity);
+  const scheduleIssues = checkActivitySchedule(
+    itinerary,
+    dayNumber,
+    activity.id,
+    options.strict
+  );
   await itinerary.save();
+  await recordRevision(itinerary, userId, "update-activity", { day: dayNumber, activityId });
+  await publishItineraryEvent(itinerary, "activity.updated", userId, { day: dayNumber, activity });
 
   return {
     success: true,
     message: "Activity updated successfully",
     itinerary,
+    scheduleIssues,
+    budgetWarning: getBudgetWarning(budgetBefore, summarizeBudget(itinerary, converter)),
   };
 };
 
@@ -307,16 +739,11 @@ export const deleteActivityService = async (
   userId: string,
   itineraryId: string,
   dayNumber: number,
-  activityId: string
+  activityId: string,
+  options: ConcurrencyOptions = {}
 ) => {
-  const itinerary = await Itinerary.findOne({
-    _id: itineraryId,
-    userId,
-  });
-
-  if (!itinerary) {
-    throw new AppError("Itinerary not found", 404, "NOT_FOUND");
-  }
+  const { itinerary } = await getAuthorizedItinerary(userId, itineraryId, "editor");
+  assertItineraryVersion(itinerary, options.ifMatch);
 
   const dayItinerary = itinerary.dayItineraries.find((d) => d.day === dayNumber);
   if (!dayItinerary) {
@@ -330,6 +757,8 @@ export const deleteActivityService = async (
 
   dayItinerary.activities.splice(activityIndex, 1);
   await itinerary.save();
+  await recordRevision(itinerary, userId, "delete-activity", { day: dayNumber, activityId });
+  await publishItineraryEvent(itinerary, "activity.deleted", userId, { day: dayNumber, activityId });
 
   return {
     success: true,
@@ -338,21 +767,272 @@ export const deleteActivityService = async (
   };
 };
 
+/**
+ * Regenerate a day's activities with AI. Returns the suggestions; they replace
+ * the day's current activities only when data.apply is true (and only then is
+ * If-Match checked).
+ */
+export const regenerateDayService = async (
+  userId: string,
+  itineraryId: string,
+  dayNumber: number,
+  data: RegenerateDayDTO = {},
+  options: ConcurrencyOptions = {}
+) => {
+  const { itinerary } = await getAuthorizedItinerary(userId, itineraryId, "editor");
+  if (data.apply) assertItineraryVersion(itinerary, options.ifMatch);
+
+  const dayItinerary = itinerary.dayItineraries.find((d) => d.day === dayNumber);
+  if (!dayItinerary) {
+    throw new AppError("Day not found in itinerary", 404, "DAY_NOT_FOUND");
+  }
+
+  const otherActivities = itinerary.dayItineraries
+    .filter((d) => d.day !== dayNumber)
+    .flatMap((d) => d.activities);
+  const converter = await getHomeConverter(itinerary);
+
+  const activities = await generateDayActivities(
+    {
+      day: dayNumber,
+      destination: itinerary.destination,
+      date: new Date(dayItinerary.date).toISOString().split("T")[0],
+      weather: describeWeather(dayItinerary.weather),
+      preferences: itinerary.preferences,
+      budget:
+        itinerary.budget !== undefined && itinerary.budget !== null
+          ? itinerary.budget - sumEstimatedCosts(otherActivities, converter)
+          : undefined,
+      currency: converter.currency,
+      travelStyle: itinerary.travelStyle,
+      excludeActivities: otherActivities.map((a) => a.name),
+      instructions: data.instructions,
+    },
+    { coordinates: itinerary.coordinates }
+  );
+  await resolveActivityLocations(activities, itinerary.coordinates);
+
+  if (data.apply) {
+    dayItinerary.activities = activities;
+    dayItinerary.summary = activities.map((a) => a.name).join(" • ");
+    await itinerary.save();
+    await recordRevision(itinerary, userId, "regenerate-day", { day: dayNumber });
+    await publishItineraryEvent(itinerary, "itinerary.updated", userId, { itinerary });
+  }
+
+  return {
+    success: true,
+    message: data.apply
+      ? "Day regenerated successfully"
+      : "Day suggestions generated successfully",
+    day: dayNumber,
+    applied: !!data.apply,
+    activities,
+    ...(data.apply && { itinerary }),
+  };
+};
+
+/**
+ * Suggest AI alternatives for a single activity. Nothing is saved; the client
+ * swaps one in through updateActivityService.
+ */
+export const getActivityAlternativesService = async (
+  userId: string,
+  itineraryId: string,
+  dayNumber: number,
+  activityId: string,
+  data: ActivityAlternativesDTO = {}
+) => {
+  const { itinerary } = await getAuthorizedItinerary(userId, itineraryId, "editor");
+
+  const dayItinerary = itinerary.dayItineraries.find((d) => d.day === dayNumber);
+  if (!dayItinerary) {
+    throw new AppError("Day not found in itinerary", 404, "DAY_NOT_FOUND");
+  }
+
+  const activity = dayItinerary.activities.find((a) => a.id === activityId);
+  if (!activity) {
+    throw new AppError("Activity not found", 404, "ACTIVITY_NOT_FOUND");
+  }
+
+  const allActivities = itinerary.dayItineraries.flatMap((d) => d.activities);
+  const otherActivities = allActivities.filter((a) => a.id !== activityId);
+  const converter = await getHomeConverter(itinerary);
+
+  const alternatives = await generateDayActivities(
+    {
+      day: dayNumber,
+      destination: itinerary.destination,
+      date: new Date(dayItinerary.date).toISOString().split("T")[0],
+      weather: describeWeather(dayItinerary.weather),
+      preferences: itinerary.preferences,
+      budget:
+        itinerary.budget !== undefined && itinerary.budget !== null
+          ? itinerary.budget - sumEstimatedCosts(otherActivities, converter)
+          : undefined,
+      currency: converter.currency,
+      travelStyle: itinerary.travelStyle,
+      excludeActivities: allActivities.map((a) => a.name),
+      replaceActivity: {
+        name: activity.name,
+        category: activity.category,
+        time: activity.time,
+        duration: activity.duration,
+      },
+      count: data.count,
+      instructions: data.instructions,
+    },
+    { coordinates: itinerary.coordinates }
+  );
+  await resolveActivityLocations(alternatives, itinerary.coordinates);
+
+  return {
+    success: true,
+    activityId,
+    alternatives,
+  };
+};
+
+/**
+ * Reorder a day's activities to minimise travel distance and retime them.
+ * Returns the proposed order; it is saved only when data.apply is true (and
+ * only then is If-Match checked).
+ */
+export const optimizeDayRouteService = async (
+  userId: string,
+  itineraryId: string,
+  dayNumber: number,
+  data: OptimizeRouteDTO = {},
+  options: ConcurrencyOptions = {}
+) => {
+  const { itinerary } = await getAuthorizedItinerary(userId, itineraryId, "editor");
+  if (data.apply) assertItineraryVersion(itinerary, options.ifMatch);
+
+  const dayItinerary = itinerary.dayItineraries.find((d) => d.day === dayNumber);
+  if (!dayItinerary) {
+    throw new AppError("Day not found in itinerary", 404, "DAY_NOT_FOUND");
+  }
+
+  if (data.speedKmh !== undefined && !(data.speedKmh > 0)) {
+    throw new AppError("speedKmh must be a positive number", 400, "INVALID_SPEED");
+  }
+
+  // Plain copies, so the optimizer can spread them without mongoose internals
+  const current: IActivity[] = JSON.parse(JSON.stringify(dayItinerary.activities));
+
+  const schedule = optimizeDayRoute(current, data.speedKmh);
+  const activities = applyScheduleTimes(schedule);
+
+  if (data.apply) {
+    dayItinerary.activities = activities;
+    dayItinerary.summary = activities.map((a) => a.name).join(" • ");
+    await itinerary.save();
+    await recordRevision(itinerary, userId, "optimize-day", { day: dayNumber });
+    await publishItineraryEvent(itinerary, "itinerary.updated", userId, { itinerary });
+  }
+
+  return {
+    success: true,
+    message: data.apply
+      ? "Day route optimized successfully"
+      : "Optimized route calculated successfully",
+    day: dayNumber,
+    applied: !!data.apply,
+    before: { totalDistanceKm: totalRouteDistanceKm(current) },
+    after: { totalDistanceKm: schedule.totalDistanceKm },
+    activities: activities.map((activity, index) => ({
+      ...activity,
+      travelMinutesFromPrevious: schedule.stops[index].travelMinutes,
+    })),
+    warnings: schedule.violations,
+    ...(data.apply && { itinerary }),
+  };
+};
+
 /**
  * Delete itinerary
  */
 export const deleteItineraryService = async (userId: string, itineraryId: string) => {
-  const result = await Itinerary.findOneAndDelete({
-    _id: itineraryId,
-    userId,
-  });
+  const { itinerary } = await getAuthorizedItinerary(userId, itineraryId, "owner");
+  await itinerary.deleteOne();
+  await publishItineraryEvent(itinerary, "itinerary.deleted", userId);
 
-  if (!result) {
-    throw new AppError("Itinerary not found", 404, "NOT_FOUND");
-  }
+  await ItineraryChat.deleteMany({ itineraryId });
+  await deleteShareLinks(itineraryId);
+  await deleteItineraryInvitations(itineraryId);
+  await deleteItineraryRevisions([itinerary._id]);
+  await deleteCalendarFeeds([itinerary._id]);
 
   return {
     success: true,
     message: "Itinerary deleted successfully",
   };
 };
+
+/**
+ * A short-lived token for opening the itinerary's event stream with
+ * EventSource, which can't send the Authorization header
+ */
+export const createEventsTokenService = async (
+  userId: string,
+  itineraryId: string,
+  sessionId?: string
+) => {
+  const { itinerary } = await getAuthorizedItinerary(userId, itineraryId, "viewer");
+
+  return {
+    success: true,
+    token: createEventsToken(userId, String(itinerary._id), sessionId),
+    expiresIn: 60,
+  };
+};
+
+/**
+ * Stream an itinerary's changes to a viewer. Returns the current version and
+ * an unsubscribe function; `close` ends the stream on server shutdown.
+ *
+ * Access is checked again before each event is forwarded: a viewer who was
+ * removed gets `access.revoked` instead, and the stream ends then or after
+ * `itinerary.deleted`.
+ */
+export const watchItineraryService = async (
+  userId: string,
+  itineraryId: string,
+  onEvent: (event: ItineraryEvent) => void,
+  close: () => void
+) => {
+  const { itinerary, role } = await getAuthorizedItinerary(userId, itineraryId, "viewer");
+
+  let ended = false;
+  let pending = Promise.resolve();
+
+  const end = (event: ItineraryEvent) => {
+    ended = true;
+    onEvent(event);
+    close();
+  };
+
+  const forward = async (event: ItineraryEvent) => {
+    if (ended) return;
+    if (event.type === "itinerary.deleted") return end(event);
+
+    const current = await Itinerary.findById(itinerary._id).select("userId collaborators");
+    if (!current || !getItineraryRole(current, userId)) {
+      return end({ ...event, type: "access.revoked", data: {} });
+    }
+    onEvent(event);
+  };
+
+  // One at a time, so the access checks can't reorder events
+  const unsubscribe = await subscribeToItinerary(
+    String(itinerary._id),
+    (event) => {
+      pending = pending
+        .then(() => forward(event))
+        .catch((error) => console.error("Failed to forward itinerary event:", error));
+    },
+    close
+  );
+
+  return { version: getItineraryVersion(itinerary), role, unsubscribe };
+};
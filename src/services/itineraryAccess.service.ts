@@ -0,0 +1,127 @@
+import jwt, { SignOptions } from "jsonwebtoken";
+import { Itinerary, IItineraryDocument } from "../models/itinerary.model";
+import { AppError } from "../middleware/errorMiddleware";
+import { ItineraryRole } from "../types/itinerary.type";
+import { toETag } from "../utils/etag";
+
+const ROLE_RANK: Record<ItineraryRole, number> = { viewer: 1, editor: 2, owner: 3 };
+
+const EVENTS_TOKEN_TTL = "60s";
+const EVENTS_TOKEN_PURPOSE = "itinerary-events";
+
+/**
+ * The user's role on an itinerary: owner, their collaborator role, or null
+ * without access
+ */
+export const getItineraryRole = (
+  itinerary: IItineraryDocument,
+  userId: string
+): ItineraryRole | null => {
+  if (String(itinerary.userId) === userId) return "owner";
+
+  const collaborator = (itinerary.collaborators || []).find(
+    (c) => String(c.userId) === userId
+  );
+  return collaborator?.role || null;
+};
+
+/**
+ * Load an itinerary the user may act on with at least `minimumRole`. Users
+ * without any access get the same 404 as for a missing itinerary; members
+ * whose role is too low get a 403.
+ */
+export const getAuthorizedItinerary = async (
+  userId: string,
+  itineraryId: string,
+  minimumRole: ItineraryRole = "viewer"
+): Promise<{ itinerary: IItineraryDocument; role: ItineraryRole }> => {
+  const itinerary = await Itinerary.findOne({
+    _id: itineraryId,
+    $or: [{ userId }, { "collaborators.userId": userId }],
+  });
+
+  const role = itinerary && getItineraryRole(itinerary, userId);
+  if (!itinerary || !role) {
+    throw new AppError("Itinerary not found", 404, "NOT_FOUND");
+  }
+
+  if (ROLE_RANK[role] < ROLE_RANK[minimumRole]) {
+    throw new AppError(
+      `This action requires the ${minimumRole} role on the itinerary`,
+      403,
+      "INSUFFICIENT_ROLE",
+      { role, requiredRole: minimumRole }
+    );
+  }
+
+  return { itinerary, role };
+};
+
+/**
+ * The itinerary's version (mongoose's __v), used as its ETag
+ */
+export const getItineraryVersion = (itinerary: IItineraryDocument): number =>
+  Number(itinerary.get("__v") ?? 0);
+
+/**
+ * Compare the version the client last saw (If-Match) with the stored one. A
+ * stale version is a 409 carrying the current itinerary so the client can
+ * merge. Without If-Match the check is skipped, unless REQUIRE_IF_MATCH=true.
+ */
+export const assertItineraryVersion = (
+  itinerary: IItineraryDocument,
+  ifMatch: number[] | "*" | undefined
+) => {
+  if (ifMatch === undefined) {
+    if (process.env.REQUIRE_IF_MATCH === "true") {
+      throw new AppError(
+        "If-Match header with the itinerary's ETag is required",
+        428,
+        "PRECONDITION_REQUIRED"
+      );
+    }
+    return;
+  }
+
+  const currentVersion = getItineraryVersion(itinerary);
+  if (ifMatch !== "*" && !ifMatch.includes(currentVersion)) {
+    throw new AppError(
+      "The itinerary was changed since you loaded it",
+      409,
+      "VERSION_CONFLICT",
+      { currentVersion, etag: toETag(currentVersion), itinerary: itinerary.toJSON() }
+    );
+  }
+};
+
+/**
+ * A short-lived token that only opens one itinerary's event stream. Browsers'
+ * EventSource can't send an Authorization header, so it goes in the URL;
+ * authMiddleware refuses it as an access token because of its purpose claim.
+ */
+export const createEventsToken = (userId: string, itineraryId: string, sessionId?: string) =>
+  jwt.sign(
+    { id: userId, sid: sessionId, purpose: EVENTS_TOKEN_PURPOSE, itineraryId },
+    process.env.JWT_SECRET!,
+    { expiresIn: EVENTS_TOKEN_TTL as SignOptions["expiresIn"] }
+  );
+
+/**
+ * The user an events token was issued to, if it is valid for this itinerary
+ */
+export const verifyEventsToken = (token: string, itineraryId: string) => {
+  try {
+    const decoded = jwt.verify(token, process.env.JWT_SECRET!) as {
+      id: string;
+      sid?: string;
+      purpose?: string;
+      itineraryId?: string;
+    };
+    if (decoded.purpose !== EVENTS_TOKEN_PURPOSE || decoded.itineraryId !== itineraryId) {
+      throw new Error("Not an events token for this itinerary");
+    }
+    return { id: decoded.id, sessionId: decoded.sid };
+  } catch (error) {
+    throw new AppError("Invalid or expired events token", 401, "INVALID_TOKEN");
+  }
+};
@@ -0,0 +1,157 @@
+import crypto from "crypto";
+import { AppError } from "../middleware/errorMiddleware";
+import { getRedisClient, RedisClient } from "../config/redis";
+import { IJob, IJobError, JobType } from "../types/job.type";
+
+const JOB_TTL_SECONDS = 24 * 60 * 60; // keep finished jobs pollable for a day
+const JOB_KEY_PREFIX = "wanderwise:job:";
+
+export interface JobStore {
+  save(job: IJob): Promise<void>;
+  get(jobId: string): Promise<IJob | null>;
+}
+
+/**
+ * In-process job store, used when REDIS_URL is not configured and in tests
+ */
+export const createMemoryJobStore = (): JobStore => {
+  const jobs = new Map<string, { job: IJob; expiresAt: number }>();
+
+  const prune = () => {
+    const now = Date.now();
+    for (const [id, entry] of jobs) {
+      if (entry.expiresAt <= now) jobs.delete(id);
+    }
+  };
+
+  return {
+    save: async (job) => {
+      prune();
+      jobs.set(job.id, {
+        job: { ...job },
+        expiresAt: Date.now() + JOB_TTL_SECONDS * 1000,
+      });
+    },
+    get: async (jobId) => {
+      const entry = jobs.get(jobId);
+      if (!entry || entry.expiresAt <= Date.now()) return null;
+      return { ...entry.job };
+    },
+  };
+};
+
+/**
+ * Redis job store, so any server instance can answer status polls
+ */
+export const createRedisJobStore = (client: RedisClient): JobStore => ({
+  save: async (job) => {
+    await client.set(`${JOB_KEY_PREFIX}${job.id}`, JSON.stringify(job), {
+      expiration: { type: "EX", value: JOB_TTL_SECONDS },
+    });
+  },
+  get: async (jobId) => {
+    const raw = await client.get(`${JOB_KEY_PREFIX}${jobId}`);
+    return raw ? (JSON.parse(raw) as IJob) : null;
+  },
+});
+
+const memoryStore = createMemoryJobStore();
+let storeOverride: JobStore | null = null;
+
+/**
+ * Replace the job store (e.g. in tests). Pass null to go back to Redis/in-memory.
+ */
+export const setJobStore = (store: JobStore | null): void => {
+  storeOverride = store;
+};
+
+const getJobStore = async (): Promise<JobStore> => {
+  if (storeOverride) return storeOverride;
+  const client = await getRedisClient();
+  return client ? createRedisJobStore(client) : memoryStore;
+};
+
+const updateJob = async (job: IJob, changes: Partial<IJob>): Promise<IJob> => {
+  Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+  await (await getJobStore()).save(job);
+  return job;
+};
+
+const toJobError = (error: unknown): IJobError => {
+  if (error instanceof AppError) {
+    return {
+      message: error.message,
+      code: error.code || "INTERNAL_ERROR",
+      statusCode: error.statusCode,
+    };
+  }
+
+  return {
+    message: "Job failed unexpectedly",
+    code: "INTERNAL_ERROR",
+    statusCode: 500,
+  };
+};
+
+/**
+ * Queue a job and run the task in the background. The returned job is in the
+ * "queued" state; progress is written to the job store as the task runs.
+ */
+export const startJob = async (
+  userId: string,
+  type: JobType,
+  task: () => Promise<{ itineraryId: string }>
+): Promise<IJob> => {
+  const now = new Date().toISOString();
+  const job: IJob = {
+    id: crypto.randomUUID(),
+    type,
+    userId,
+    status: "queued",
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await (await getJobStore()).save(job);
+
+  setImmediate(async () => {
+    try {
+      await updateJob(job, { status: "running" });
+      const { itineraryId } = await task();
+      await updateJob(job, { status: "succeeded", itineraryId });
+    } catch (error) {
+      console.error(`Job ${job.id} (${type}) failed:`, error);
+      try {
+        await updateJob(job, { status: "failed", error: toJobError(error) });
+      } catch (storeError) {
+        console.error(`Failed to record failure of job ${job.id}:`, storeError);
+      }
+    }
+  });
+
+  return job;
+};
+
+/**
+ * Get a job's status. Jobs are only visible to the user who started them.
+ */
+export const getJobService = async (userId: string, jobId: string) => {
+  const job = await (await getJobStore()).get(jobId);
+
+  if (!job || job.userId !== userId) {
+    throw new AppError("Job not found", 404, "JOB_NOT_FOUND");
+  }
+
+  return {
+    success: true,
+    job: {
+      id: job.id,
+      type: job.type,
+      status: job.status,
+      itineraryId: job.itineraryId,
+      error: job.error,
+      createdAt: job.createdAt,
+      updatedAt: job.updatedAt,
+    },
+  };
+};
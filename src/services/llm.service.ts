@@ -0,0 +1,192 @@
+import axios from "axios";
+import { AppError } from "../middleware/errorMiddleware";
+import {
+  getAIFixtureDir,
+  getAIProviderName,
+  getAIRequestSettings,
+  getOpenAICompatibleConfig,
+  getOpenRouterConfig,
+} from "../config/ai";
+import { getFixtureResponse } from "../utils/llmFixtures";
+import {
+  LLMCompletionRequest,
+  LLMProvider,
+  LLMProviderName,
+  LLMRequestSettings,
+} from "../types/llm.type";
+
+interface OpenAICompatibleOptions {
+  name: LLMProviderName;
+  label: string;
+  baseUrl: string;
+  apiKey?: string;
+  requireApiKey?: boolean;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Provider for any API implementing the OpenAI chat completions endpoint
+ */
+export const createOpenAICompatibleProvider = (
+  options: OpenAICompatibleOptions
+): LLMProvider => ({
+  name: options.name,
+
+  complete: async (request: LLMCompletionRequest, settings: LLMRequestSettings) => {
+    const { label, baseUrl, apiKey } = options;
+
+    if (options.requireApiKey && !apiKey) {
+      throw new AppError(`${label} API key not configured`, 500, "CONFIG_ERROR");
+    }
+
+    try {
+      const response = await axios.post(
+        `${baseUrl}/chat/completions`,
+        {
+          model: settings.model,
+          messages: request.messages,
+          temperature: settings.temperature,
+          max_tokens: settings.maxTokens,
+          ...(request.jsonMode && { response_format: { type: "json_object" } }),
+        },
+        {
+          headers: {
+            ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+            "Content-Type": "application/json",
+            ...options.headers,
+          },
+          timeout: settings.timeoutMs,
+          signal: request.signal,
+        }
+      );
+
+      const content = response.data?.choices?.[0]?.message?.content;
+      if (!content) {
+        throw new AppError(
+          "Invalid response format from AI service",
+          500,
+          "AI_SERVICE_ERROR"
+        );
+      }
+
+      return content;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      console.error("AI Service Error:", error);
+
+      if (axios.isCancel(error)) {
+        throw new AppError("AI request was cancelled", 499, "AI_REQUEST_CANCELLED");
+      }
+
+      if (axios.isAxiosError(error)) {
+        const status = error.response?.status;
+        const statusText = error.response?.statusText;
+
+        if (status === 405) {
+          throw new AppError(
+            `${label} API Error: ${status} ${statusText}. Please check the API endpoint and credentials.`,
+            500,
+            "AI_SERVICE_ERROR"
+          );
+        }
+
+        if (status === 401 || status === 403) {
+          throw new AppError(
+            `${label} API authentication failed. Invalid API key.`,
+            500,
+            "AI_SERVICE_ERROR"
+          );
+        }
+
+        if (status === 429) {
+          throw new AppError(
+            `${label} API rate limit exceeded. Please try again later.`,
+            429,
+            "RATE_LIMIT_ERROR"
+          );
+        }
+
+        throw new AppError(
+          `${label} API Error: ${error.message}`,
+          500,
+          "AI_SERVICE_ERROR"
+        );
+      }
+
+      throw new AppError("AI request failed", 500, "AI_SERVICE_ERROR");
+    }
+  },
+});
+
+export const createOpenRouterProvider = (): LLMProvider => {
+  const { baseUrl, apiKey, referer } = getOpenRouterConfig();
+
+  return createOpenAICompatibleProvider({
+    name: "openrouter",
+    label: "OpenRouter",
+    baseUrl,
+    apiKey,
+    requireApiKey: true,
+    headers: {
+      "HTTP-Referer": referer,
+      "X-Title": "WanderWise",
+    },
+  });
+};
+
+/**
+ * Offline provider returning deterministic fixture responses (tests and local dev)
+ */
+export const createFixtureProvider = (fixtureDir?: string): LLMProvider => ({
+  name: "fixture",
+
+  complete: async (request: LLMCompletionRequest) => {
+    if (request.signal?.aborted) {
+      throw new AppError("AI request was cancelled", 499, "AI_REQUEST_CANCELLED");
+    }
+    return getFixtureResponse(request, fixtureDir);
+  },
+});
+
+const createProvider = (name: LLMProviderName): LLMProvider => {
+  switch (name) {
+    case "fixture":
+      return createFixtureProvider(getAIFixtureDir());
+    case "openai-compatible": {
+      const { baseUrl, apiKey } = getOpenAICompatibleConfig();
+      return createOpenAICompatibleProvider({
+        name,
+        label: "AI provider",
+        baseUrl,
+        apiKey,
+      });
+    }
+    case "openrouter":
+    default:
+      return createOpenRouterProvider();
+  }
+};
+
+let providerOverride: LLMProvider | null = null;
+
+/**
+ * Replace the configured provider (e.g. with a fixture provider in tests).
+ * Pass null to go back to the AI_PROVIDER setting.
+ */
+export const setLLMProvider = (provider: LLMProvider | null): void => {
+  providerOverride = provider;
+};
+
+export const getLLMProvider = (): LLMProvider => {
+  if (providerOverride) return providerOverride;
+  return createProvider(getAIProviderName());
+};
+
+/**
+ * Run a chat completion with the configured provider and the settings for its request type
+ */
+export const completeChat = async (request: LLMCompletionRequest): Promise<string> => {
+  const provider = getLLMProvider();
+  const settings = getAIRequestSettings(request.type);
+  return provider.complete(request, settings);
+};
@@ -0,0 +1,115 @@
+import { AppError } from "../middleware/errorMiddleware";
+import { createCache, createCounter } from "./cache.service";
+import { recordAuditEvent } from "./audit.service";
+import { sendAccountLockedEmail } from "./mail.service";
+import { getLoginProtectionConfig } from "../config/auth";
+import { ClientInfo } from "../dtos/auth.dto";
+
+interface LockoutRecipient {
+  _id: unknown;
+  email: string;
+  firstName: string;
+}
+
+const config = getLoginProtectionConfig();
+
+const accountFailures = createCounter("login-failures:account", config.failureWindowMinutes * 60);
+const ipFailures = createCounter("login-failures:ip", config.failureWindowMinutes * 60);
+const accountLocks = createCache<{ lockedUntil: string }>("login-lock", config.lockoutMinutes * 60);
+
+// Counted per address as typed, so unknown emails are throttled the same way
+const normalizeEmail = (email: unknown) => String(email || "").trim().toLowerCase();
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * No delay for the first few failures, then 0.5s, 1s, 2s... up to the cap
+ */
+export const getLoginDelayMs = (failures: number): number => {
+  if (failures <= config.freeAttempts) return 0;
+  return Math.min(config.baseDelayMs * 2 ** (failures - config.freeAttempts - 1), config.maxDelayMs);
+};
+
+/**
+ * Run before checking credentials: refuses locked accounts and IPs over their
+ * failure limit, then waits longer the more recent failures the account has.
+ */
+export const assertLoginAllowed = async (email: string, client: ClientInfo = {}) => {
+  const key = normalizeEmail(email);
+  const audit = { email: key, ip: client.ip, userAgent: client.userAgent };
+
+  const lock = await accountLocks.get(key);
+  if (lock) {
+    const retryAfterSeconds = Math.max(
+      1,
+      Math.ceil((Date.parse(lock.lockedUntil) - Date.now()) / 1000)
+    );
+    await recordAuditEvent({ type: "account-lock-rejected", ...audit });
+    throw new AppError(
+      "Too many failed login attempts. Please try again later",
+      423,
+      "ACCOUNT_LOCKED",
+      { retryAfterSeconds }
+    );
+  }
+
+  if (client.ip && (await ipFailures.get(client.ip)) >= config.maxIpFailures) {
+    await recordAuditEvent({ type: "login-blocked", ...audit });
+    throw new AppError(
+      "Too many failed login attempts. Please try again later",
+      429,
+      "TOO_MANY_LOGIN_ATTEMPTS"
+    );
+  }
+
+  const delay = getLoginDelayMs(await accountFailures.get(key));
+  if (delay > 0) await sleep(delay);
+};
+
+/**
+ * Count a failed password or second factor. Reaching the limit locks the
+ * account and emails its owner, if the email belongs to a user.
+ */
+export const recordLoginFailure = async (
+  email: string,
+  client: ClientInfo = {},
+  user?: LockoutRecipient | null
+) => {
+  const key = normalizeEmail(email);
+  const audit = {
+    userId: user ? String(user._id) : null,
+    email: key,
+    ip: client.ip,
+    userAgent: client.userAgent,
+  };
+
+  const [failures] = await Promise.all([
+    accountFailures.increment(key),
+    client.ip ? ipFailures.increment(client.ip) : Promise.resolve(0),
+  ]);
+  await recordAuditEvent({ type: "login-failed", ...audit, details: { failures } });
+
+  if (failures < config.maxAccountFailures) return;
+
+  const lockedUntil = new Date(Date.now() + config.lockoutMinutes * 60 * 1000);
+  await accountLocks.set(key, { lockedUntil: lockedUntil.toISOString() });
+  await accountFailures.reset(key);
+  await recordAuditEvent({ type: "account-locked", ...audit, details: { failures, lockedUntil } });
+
+  if (user) {
+    try {
+      await sendAccountLockedEmail(user, config.lockoutMinutes);
+    } catch (error) {
+      console.error("Failed to send account locked email:", error);
+    }
+  }
+};
+
+/**
+ * Forget an account's failures and lock, after a successful login or a
+ * password reset. IP counters are left to expire.
+ */
+export const clearLoginFailures = async (email: string) => {
+  const key = normalizeEmail(email);
+  await Promise.all([accountFailures.reset(key), accountLocks.delete(key)]);
+};
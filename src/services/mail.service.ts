@@ -0,0 +1,163 @@
+import fs from "fs";
+import path from "path";
+import nodemailer, { Transporter } from "nodemailer";
+import { AppError } from "../middleware/errorMiddleware";
+import {
+  getClientUrl,
+  getMailFrom,
+  getMailOutputDir,
+  getMailTransportName,
+  getServerUrl,
+  getSmtpConfig,
+} from "../config/mail";
+import {
+  EmailContent,
+  accountLockedEmail,
+  collaboratorInviteEmail,
+  emailChangeEmail,
+  passwordResetEmail,
+  verificationEmail,
+} from "../utils/emailTemplates";
+
+export const RESET_TOKEN_TTL_HOURS = 1;
+export const VERIFICATION_TOKEN_TTL_HOURS = 24;
+export const INVITATION_TTL_DAYS = 7;
+
+export interface MailMessage extends EmailContent {
+  to: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+interface MailRecipient {
+  email: string;
+  firstName: string;
+}
+
+export const createSmtpTransport = (
+  transporter: Transporter = nodemailer.createTransport(getSmtpConfig())
+): MailTransport => ({
+  name: "smtp",
+  send: async (message) => {
+    await transporter.sendMail({ from: getMailFrom(), ...message });
+  },
+});
+
+/**
+ * Writes each email as an .eml file, so local dev and tests can open the links
+ */
+export const createFileTransport = (dir: string = getMailOutputDir()): MailTransport => {
+  const transporter = nodemailer.createTransport({ streamTransport: true, buffer: true });
+
+  return {
+    name: "file",
+    send: async (message) => {
+      const info = await transporter.sendMail({ from: getMailFrom(), ...message });
+      const safeRecipient = message.to.replace(/[^a-z0-9@._-]/gi, "_");
+
+      await fs.promises.mkdir(dir, { recursive: true });
+      await fs.promises.writeFile(
+        path.resolve(dir, `${Date.now()}-${safeRecipient}.eml`),
+        info.message as Buffer
+      );
+    },
+  };
+};
+
+export const createConsoleTransport = (): MailTransport => ({
+  name: "console",
+  send: async (message) => {
+    console.log(`Email to ${message.to}: ${message.subject}\n${message.text}`);
+  },
+});
+
+let transportOverride: MailTransport | null = null;
+let cachedTransport: MailTransport | null = null;
+
+/**
+ * Replace the configured transport (e.g. in tests). Pass null to go back to config.
+ */
+export const setMailTransport = (transport: MailTransport | null): void => {
+  transportOverride = transport;
+};
+
+const getMailTransport = (): MailTransport => {
+  if (transportOverride) return transportOverride;
+  if (cachedTransport) return cachedTransport;
+
+  switch (getMailTransportName()) {
+    case "smtp":
+      cachedTransport = createSmtpTransport();
+      break;
+    case "file":
+      cachedTransport = createFileTransport();
+      break;
+    default:
+      cachedTransport = createConsoleTransport();
+  }
+  return cachedTransport;
+};
+
+export const sendMail = async (message: MailMessage): Promise<void> => {
+  try {
+    await getMailTransport().send(message);
+  } catch (error) {
+    console.error("Email delivery error:", error);
+    throw new AppError("Failed to send email", 502, "EMAIL_DELIVERY_FAILED");
+  }
+};
+
+export const sendPasswordResetEmail = (user: MailRecipient, token: string) =>
+  sendMail({
+    to: user.email,
+    ...passwordResetEmail(
+      user,
+      `${getClientUrl()}/reset-password?token=${encodeURIComponent(token)}`,
+      RESET_TOKEN_TTL_HOURS
+    ),
+  });
+
+export const sendAccountLockedEmail = (user: MailRecipient, lockoutMinutes: number) =>
+  sendMail({
+    to: user.email,
+    ...accountLockedEmail(user, `${getClientUrl()}/forgot-password`, lockoutMinutes),
+  });
+
+// Sent to the new address; the link confirms the change
+export const sendEmailChangeEmail = (user: MailRecipient, newEmail: string, token: string) =>
+  sendMail({
+    to: newEmail,
+    ...emailChangeEmail(
+      user,
+      `${getServerUrl()}/api/v1/auth/confirm-email-change/${encodeURIComponent(token)}`,
+      VERIFICATION_TOKEN_TTL_HOURS
+    ),
+  });
+
+export const sendVerificationEmail = (user: MailRecipient, token: string) =>
+  sendMail({
+    to: user.email,
+    ...verificationEmail(
+      user,
+      `${getServerUrl()}/api/v1/auth/verify-email/${encodeURIComponent(token)}`,
+      VERIFICATION_TOKEN_TTL_HOURS
+    ),
+  });
+
+export const sendCollaboratorInviteEmail = (
+  user: MailRecipient,
+  invite: { inviterName: string; destination: string; role: string },
+  token: string
+) =>
+  sendMail({
+    to: user.email,
+    ...collaboratorInviteEmail(
+      user,
+      invite,
+      `${getClientUrl()}/invitations/${encodeURIComponent(token)}`,
+      INVITATION_TTL_DAYS
+    ),
+  });
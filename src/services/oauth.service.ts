@@ -0,0 +1,247 @@
+import axios from "axios";
+import { AppError } from "../middleware/errorMiddleware";
+import { createCache } from "./cache.service";
+import {
+  GitHubProviderConfig,
+  OIDCProviderConfig,
+  getOAuthProviderConfigs,
+} from "../config/oauth";
+import { OAuthProfile, OAuthProvider, OAuthProviderName } from "../types/oauth.type";
+
+export const OAUTH_PROVIDERS: OAuthProviderName[] = ["google", "github", "oidc"];
+
+const OAUTH_TIMEOUT_MS = 10000;
+const DISCOVERY_CACHE_TTL_SECONDS = 60 * 60;
+
+interface OIDCDiscovery {
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint: string;
+}
+
+const discoveryCache = createCache<OIDCDiscovery>("oidc-discovery", DISCOVERY_CACHE_TTL_SECONDS);
+
+/**
+ * Provider errors (bad code, network, unexpected responses) as AppErrors.
+ * A rejected code is the user's problem (401); anything else is upstream (502).
+ */
+const toOAuthError = (label: string, error: unknown): AppError => {
+  if (error instanceof AppError) return error;
+  console.error(`${label} OAuth Error:`, error);
+
+  if (axios.isAxiosError(error) && error.response?.status === 400) {
+    return new AppError(`${label} rejected the sign-in. Please try again.`, 401, "OAUTH_FAILED");
+  }
+  return new AppError(`${label} sign-in failed`, 502, "OAUTH_PROVIDER_ERROR");
+};
+
+const splitName = (name?: string) => {
+  const parts = (name || "").trim().split(/\s+/).filter(Boolean);
+  return { firstName: parts[0], lastName: parts.slice(1).join(" ") || undefined };
+};
+
+/**
+ * Authorization code flow with PKCE against any OpenID Connect provider.
+ * The profile comes from the userinfo endpoint, called with the access token
+ * we just received from the token endpoint over TLS.
+ */
+export const createOIDCProvider = (
+  name: OAuthProviderName,
+  config: OIDCProviderConfig
+): OAuthProvider => {
+  const discover = async (): Promise<OIDCDiscovery> => {
+    const cached = await discoveryCache.get(config.issuer);
+    if (cached) return cached;
+
+    const response = await axios.get(`${config.issuer}/.well-known/openid-configuration`, {
+      timeout: OAUTH_TIMEOUT_MS,
+    });
+    const { authorization_endpoint, token_endpoint, userinfo_endpoint } = response.data || {};
+    if (!authorization_endpoint || !token_endpoint || !userinfo_endpoint) {
+      throw new Error(`Incomplete OpenID configuration for ${config.issuer}`);
+    }
+
+    const discovery = { authorization_endpoint, token_endpoint, userinfo_endpoint };
+    await discoveryCache.set(config.issuer, discovery);
+    return discovery;
+  };
+
+  return {
+    name,
+    label: config.label,
+
+    getAuthorizationUrl: async ({ state, codeChallenge, redirectUri }) => {
+      try {
+        const { authorization_endpoint } = await discover();
+        const params = new URLSearchParams({
+          response_type: "code",
+          client_id: config.clientId,
+          redirect_uri: redirectUri,
+          scope: "openid email profile",
+          state,
+          code_challenge: codeChallenge,
+          code_challenge_method: "S256",
+        });
+        return `${authorization_endpoint}?${params}`;
+      } catch (error) {
+        throw toOAuthError(config.label, error);
+      }
+    },
+
+    getProfile: async (code, codeVerifier, redirectUri) => {
+      try {
+        const { token_endpoint, userinfo_endpoint } = await discover();
+
+        const tokenResponse = await axios.post(
+          token_endpoint,
+          new URLSearchParams({
+            grant_type: "authorization_code",
+            code,
+            redirect_uri: redirectUri,
+            client_id: config.clientId,
+            client_secret: config.clientSecret,
+            code_verifier: codeVerifier,
+          }),
+          { timeout: OAUTH_TIMEOUT_MS }
+        );
+        const accessToken = tokenResponse.data?.access_token;
+        if (!accessToken) throw new Error("No access token in token response");
+
+        const { data: info } = await axios.get(userinfo_endpoint, {
+          headers: { Authorization: `Bearer ${accessToken}` },
+          timeout: OAUTH_TIMEOUT_MS,
+        });
+        if (!info?.sub) throw new Error("No subject in userinfo response");
+
+        const fallback = splitName(info.name);
+        return {
+          provider: name,
+          providerUserId: String(info.sub),
+          email: info.email?.toLowerCase(),
+          // Some providers send "true" as a string
+          emailVerified: info.email_verified === true || info.email_verified === "true",
+          firstName: info.given_name || fallback.firstName,
+          lastName: info.family_name || fallback.lastName,
+          avatar: info.picture,
+        };
+      } catch (error) {
+        throw toOAuthError(config.label, error);
+      }
+    },
+  };
+};
+
+/**
+ * GitHub is plain OAuth2: the verified email comes from /user/emails
+ */
+export const createGitHubProvider = (config: GitHubProviderConfig): OAuthProvider => ({
+  name: "github",
+  label: "GitHub",
+
+  getAuthorizationUrl: async ({ state, codeChallenge, redirectUri }) => {
+    const params = new URLSearchParams({
+      client_id: config.clientId,
+      redirect_uri: redirectUri,
+      scope: "read:user user:email",
+      state,
+      code_challenge: codeChallenge,
+      code_challenge_method: "S256",
+    });
+    return `${config.authUrl}/login/oauth/authorize?${params}`;
+  },
+
+  getProfile: async (code, codeVerifier, redirectUri) => {
+    try {
+      const tokenResponse = await axios.post(
+        `${config.authUrl}/login/oauth/access_token`,
+        {
+          client_id: config.clientId,
+          client_secret: config.clientSecret,
+          code,
+          redirect_uri: redirectUri,
+          code_verifier: codeVerifier,
+        },
+        { headers: { Accept: "application/json" }, timeout: OAUTH_TIMEOUT_MS }
+      );
+
+      // GitHub reports a bad code with a 200 and an error field
+      if (tokenResponse.data?.error) {
+        throw new AppError("GitHub rejected the sign-in. Please try again.", 401, "OAUTH_FAILED");
+      }
+      const accessToken = tokenResponse.data?.access_token;
+      if (!accessToken) throw new Error("No access token in token response");
+
+      const headers = {
+        Authorization: `Bearer ${accessToken}`,
+        Accept: "application/vnd.github+json",
+      };
+      const [{ data: user }, { data: emails }] = await Promise.all([
+        axios.get(`${config.apiUrl}/user`, { headers, timeout: OAUTH_TIMEOUT_MS }),
+        axios.get(`${config.apiUrl}/user/emails`, { headers, timeout: OAUTH_TIMEOUT_MS }),
+      ]);
+
+      const primary = (emails as { email: string; primary: boolean; verified: boolean }[]).find(
+        (e) => e.primary
+      );
+      const { firstName, lastName } = splitName(user.name);
+
+      return {
+        provider: "github",
+        providerUserId: String(user.id),
+        email: primary?.email?.toLowerCase(),
+        emailVerified: !!primary?.verified,
+        firstName: firstName || user.login,
+        lastName,
+        avatar: user.avatar_url,
+      };
+    } catch (error) {
+      throw toOAuthError("GitHub", error);
+    }
+  },
+});
+
+const providerOverrides = new Map<OAuthProviderName, OAuthProvider>();
+
+/**
+ * Replace a provider (e.g. with a mock in tests). Pass null to go back to config.
+ */
+export const setOAuthProvider = (name: OAuthProviderName, provider: OAuthProvider | null) => {
+  if (provider) providerOverrides.set(name, provider);
+  else providerOverrides.delete(name);
+};
+
+const createProvider = (name: OAuthProviderName): OAuthProvider | undefined => {
+  const configs = getOAuthProviderConfigs();
+  switch (name) {
+    case "google":
+      return configs.google && createOIDCProvider("google", configs.google);
+    case "github":
+      return configs.github && createGitHubProvider(configs.github);
+    case "oidc":
+      return configs.oidc && createOIDCProvider("oidc", configs.oidc);
+    default:
+      return undefined;
+  }
+};
+
+export const getOAuthProvider = (name: string): OAuthProvider => {
+  const provider =
+    providerOverrides.get(name as OAuthProviderName) ||
+    (OAUTH_PROVIDERS.includes(name as OAuthProviderName)
+      ? createProvider(name as OAuthProviderName)
+      : undefined);
+
+  if (!provider) {
+    throw new AppError(`Sign-in with "${name}" is not available`, 404, "OAUTH_PROVIDER_NOT_FOUND");
+  }
+  return provider;
+};
+
+/**
+ * Providers that are configured, for the client's login buttons
+ */
+export const listOAuthProviders = () =>
+  OAUTH_PROVIDERS.flatMap((name) => {
+    const provider = providerOverrides.get(name) || createProvider(name);
+    return provider ? [{ name, label: provider.label }] : [];
+  });
@@ -0,0 +1,185 @@
+import { EventEmitter } from "events";
+import { getRedisClient, RedisClient } from "../config/redis";
+import { ItineraryEvent, ItineraryEventType, PubSubAdapter } from "../types/realtime.type";
+
+const CHANNEL_PREFIX = "wanderwise:itinerary:";
+
+const channelFor = (itineraryId: string) => `${CHANNEL_PREFIX}${itineraryId}`;
+
+/**
+ * In-process pub/sub, for a single node and tests
+ */
+export const createMemoryPubSub = (): PubSubAdapter => {
+  const emitter = new EventEmitter();
+  emitter.setMaxListeners(0); // one listener per open stream
+
+  return {
+    name: "memory",
+    publish: async (channel, message) => {
+      emitter.emit(channel, message);
+    },
+    subscribe: async (channel, listener) => {
+      emitter.on(channel, listener);
+      return async () => {
+        emitter.off(channel, listener);
+      };
+    },
+    close: async () => {
+      emitter.removeAllListeners();
+    },
+  };
+};
+
+/**
+ * Redis pub/sub. Subscribing needs its own connection, so the shared client
+ * is duplicated the first time a stream opens (and again if that connection
+ * was lost for good).
+ */
+export const createRedisPubSub = (client: RedisClient): PubSubAdapter => {
+  let subscriber: Promise<RedisClient> | null = null;
+
+  const getSubscriber = async () => {
+    const current = await subscriber?.catch(() => null);
+    if (current?.isOpen) return current;
+
+    const connection = client.duplicate();
+    connection.on("error", (err: Error) => {
+      console.error(`Redis subscriber error: ${err.message}`);
+    });
+    subscriber = connection.connect().then(() => connection as RedisClient);
+    subscriber.catch(() => {
+      subscriber = null;
+    });
+    return subscriber;
+  };
+
+  return {
+    name: "redis",
+    publish: async (channel, message) => {
+      await client.publish(channel, message);
+    },
+    subscribe: async (channel, listener) => {
+      const connection = await getSubscriber();
+      await connection.subscribe(channel, listener);
+      return async () => {
+        await connection.unsubscribe(channel, listener);
+      };
+    },
+    close: async () => {
+      const connection = await subscriber?.catch(() => null);
+      subscriber = null;
+      if (connection?.isOpen) await connection.quit();
+    },
+  };
+};
+
+let pubSubOverride: PubSubAdapter | null = null;
+const memoryPubSub = createMemoryPubSub();
+let redisPubSub: { client: RedisClient; pubSub: PubSubAdapter } | null = null;
+let activePubSub: PubSubAdapter | null = null;
+const openStreams = new Set<() => void>();
+
+/**
+ * Replace the pub/sub adapter (e.g. in tests). Pass null to go back to Redis/in-memory.
+ */
+export const setPubSub = (pubSub: PubSubAdapter | null): void => {
+  pubSubOverride = pubSub;
+};
+
+/**
+ * The adapter for the current Redis client, or the in-memory one while Redis
+ * is unavailable. Nothing is pinned: a recovered or reconnected Redis is
+ * picked up on the next call. Streams subscribed through the previous adapter
+ * are ended on a switch, so clients reconnect and subscribe again.
+ */
+const getPubSub = async (): Promise<PubSubAdapter> => {
+  if (pubSubOverride) return pubSubOverride;
+
+  const client = await getRedisClient();
+  let pubSub = memoryPubSub;
+  if (client) {
+    if (redisPubSub?.client !== client) {
+      const stale = redisPubSub?.pubSub;
+      redisPubSub = { client, pubSub: createRedisPubSub(client) };
+      stale?.close().catch((error) => console.error("Failed to close pub/sub:", error));
+    }
+    pubSub = redisPubSub.pubSub;
+  }
+
+  if (activePubSub && activePubSub !== pubSub) {
+    for (const close of openStreams) close();
+    openStreams.clear();
+  }
+  activePubSub = pubSub;
+  return pubSub;
+};
+
+/**
+ * Broadcast a change to everyone watching the itinerary. Failures are logged;
+ * the change itself has already been saved.
+ */
+export const publishItineraryEvent = async (
+  itinerary: { _id: unknown; get(path: string): unknown },
+  type: ItineraryEventType,
+  actorId: string,
+  data: Record<string, unknown> = {}
+): Promise<void> => {
+  const itineraryId = String(itinerary._id);
+  const event: ItineraryEvent = {
+    type,
+    itineraryId,
+    version: Number(itinerary.get("__v") ?? 0),
+    actorId,
+    data,
+    at: new Date().toISOString(),
+  };
+
+  try {
+    await (await getPubSub()).publish(channelFor(itineraryId), JSON.stringify(event));
+  } catch (error) {
+    console.error(`Failed to publish ${type} for itinerary ${itineraryId}:`, error);
+  }
+};
+
+/**
+ * Listen for an itinerary's events. `close` ends the caller's stream on
+ * shutdown. Resolves to an unsubscribe function.
+ */
+export const subscribeToItinerary = async (
+  itineraryId: string,
+  listener: (event: ItineraryEvent) => void,
+  close: () => void
+): Promise<() => Promise<void>> => {
+  const unsubscribe = await (await getPubSub()).subscribe(channelFor(itineraryId), (message) => {
+    try {
+      listener(JSON.parse(message) as ItineraryEvent);
+    } catch (error) {
+      console.error("Invalid itinerary event:", error);
+    }
+  });
+  openStreams.add(close);
+
+  return async () => {
+    openStreams.delete(close);
+    await unsubscribe();
+  };
+};
+
+/**
+ * End open streams (they would keep the HTTP server from closing) and the
+ * Redis subscriber connection
+ */
+export const closeRealtime = async (): Promise<void> => {
+  for (const close of openStreams) close();
+  openStreams.clear();
+
+  if (pubSubOverride) return;
+  const pubSub = redisPubSub?.pubSub;
+  redisPubSub = null;
+  activePubSub = null;
+  try {
+    await pubSub?.close();
+  } catch (error) {
+    console.error("Failed to close pub/sub:", error);
+  }
+};
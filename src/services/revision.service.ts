@@ -0,0 +1,191 @@
+import { IItineraryDocument } from "../models/itinerary.model";
+import {
+  ItineraryRevision,
+  IItineraryRevisionDocument,
+} from "../models/itineraryRevision.model";
+import { User } from "../models/User.model";
+import { AppError } from "../middleware/errorMiddleware";
+import {
+  assertItineraryVersion,
+  getAuthorizedItinerary,
+  getItineraryVersion,
+} from "./itineraryAccess.service";
+import { publishItineraryEvent } from "./realtime.service";
+import { ConcurrencyOptions } from "../dtos/itinerary.dto";
+import { ItinerarySnapshot, RevisionOperation } from "../types/revision.type";
+
+const getRevisionLimit = () => Number(process.env.ITINERARY_REVISION_LIMIT) || 50;
+
+const toSnapshot = (itinerary: IItineraryDocument): ItinerarySnapshot => {
+  const data = itinerary.toObject();
+  return {
+    destination: data.destination,
+    coordinates: data.coordinates,
+    startDate: data.startDate,
+    endDate: data.endDate,
+    duration: data.duration,
+    dayItineraries: data.dayItineraries,
+    budget: data.budget,
+    currency: data.currency,
+    expenses: data.expenses,
+    travelStyle: data.travelStyle,
+    preferences: data.preferences,
+    aiNotes: data.aiNotes,
+  };
+};
+
+const toRevisionSummary = (
+  revision: IItineraryRevisionDocument,
+  usersById: Map<string, { firstName: string; lastName: string }>
+) => {
+  const user = revision.userId ? usersById.get(String(revision.userId)) : undefined;
+  return {
+    id: String(revision._id),
+    version: revision.version,
+    operation: revision.operation,
+    details: revision.details,
+    user: user && {
+      id: String(revision.userId),
+      firstName: user.firstName,
+      lastName: user.lastName,
+    },
+    createdAt: revision.createdAt,
+  };
+};
+
+const findUsers = async (revisions: IItineraryRevisionDocument[]) => {
+  const ids = [...new Set(revisions.map((r) => r.userId).filter(Boolean).map(String))];
+  const users = ids.length
+    ? await User.find({ _id: { $in: ids } }).select("firstName lastName")
+    : [];
+  return new Map(users.map((u) => [String(u._id), u]));
+};
+
+/**
+ * Record the itinerary's state after a saved change, keeping the most recent
+ * ITINERARY_REVISION_LIMIT revisions. Failures are logged; the change itself
+ * has already been saved.
+ */
+export const recordRevision = async (
+  itinerary: IItineraryDocument,
+  userId: string,
+  operation: RevisionOperation,
+  details?: Record<string, unknown>
+): Promise<void> => {
+  try {
+    await ItineraryRevision.create({
+      itineraryId: itinerary._id,
+      userId,
+      operation,
+      version: getItineraryVersion(itinerary),
+      details,
+      snapshot: toSnapshot(itinerary),
+    });
+
+    const stale = await ItineraryRevision.find({ itineraryId: itinerary._id })
+      .sort({ createdAt: -1, _id: -1 })
+      .skip(getRevisionLimit())
+      .select("_id");
+    if (stale.length > 0) {
+      await ItineraryRevision.deleteMany({ _id: { $in: stale.map((r) => r._id) } });
+    }
+  } catch (error) {
+    console.error(`Failed to record ${operation} revision for itinerary ${itinerary._id}:`, error);
+  }
+};
+
+/**
+ * An itinerary's revisions, newest first, without their snapshots
+ */
+export const getRevisionsService = async (userId: string, itineraryId: string) => {
+  const { itinerary } = await getAuthorizedItinerary(userId, itineraryId, "viewer");
+
+  const revisions = await ItineraryRevision.find({ itineraryId: itinerary._id })
+    .sort({ createdAt: -1, _id: -1 })
+    .select("-snapshot");
+  const usersById = await findUsers(revisions);
+
+  return {
+    success: true,
+    currentVersion: getItineraryVersion(itinerary),
+    count: revisions.length,
+    revisions: revisions.map((revision) => toRevisionSummary(revision, usersById)),
+  };
+};
+
+const findRevision = async (itineraryId: unknown, revisionId: string) => {
+  const revision = await ItineraryRevision.findOne({ _id: revisionId, itineraryId });
+  if (!revision) {
+    throw new AppError("Revision not found", 404, "REVISION_NOT_FOUND");
+  }
+  return revision;
+};
+
+/**
+ * One revision with the itinerary's state at that point
+ */
+export const getRevisionService = async (
+  userId: string,
+  itineraryId: string,
+  revisionId: string
+) => {
+  const { itinerary } = await getAuthorizedItinerary(userId, itineraryId, "viewer");
+  const revision = await findRevision(itinerary._id, revisionId);
+  const usersById = await findUsers([revision]);
+
+  return {
+    success: true,
+    revision: {
+      ...toRevisionSummary(revision, usersById),
+      snapshot: revision.snapshot,
+    },
+  };
+};
+
+/**
+ * Put the itinerary back to a revision's state. This is itself a change, so
+ * it gets a new version and revision and can be undone the same way.
+ */
+export const restoreRevisionService = async (
+  userId: string,
+  itineraryId: string,
+  revisionId: string,
+  options: ConcurrencyOptions = {}
+) => {
+  const { itinerary } = await getAuthorizedItinerary(userId, itineraryId, "editor");
+  assertItineraryVersion(itinerary, options.ifMatch);
+
+  const revision = await findRevision(itinerary._id, revisionId);
+  const { snapshot } = revision;
+
+  itinerary.destination = snapshot.destination;
+  itinerary.coordinates = snapshot.coordinates;
+  itinerary.startDate = snapshot.startDate;
+  itinerary.endDate = snapshot.endDate;
+  itinerary.duration = snapshot.duration;
+  itinerary.dayItineraries = snapshot.dayItineraries;
+  itinerary.budget = snapshot.budget;
+  itinerary.currency = snapshot.currency;
+  itinerary.expenses = snapshot.expenses || [];
+  itinerary.travelStyle = snapshot.travelStyle;
+  itinerary.preferences = snapshot.preferences || [];
+  itinerary.aiNotes = snapshot.aiNotes;
+
+  await itinerary.save();
+  const details = { revisionId: String(revision._id), restoredVersion: revision.version };
+  await recordRevision(itinerary, userId, "restore", details);
+  await publishItineraryEvent(itinerary, "itinerary.updated", userId, { itinerary });
+
+  return {
+    success: true,
+    message: `Itinerary restored to version ${revision.version}`,
+    itinerary,
+  };
+};
+
+/**
+ * Remove the revisions of deleted itineraries
+ */
+export const deleteItineraryRevisions = async (itineraryIds: unknown[]) => {
+  await ItineraryRevision.deleteMany({ itineraryId: { $in: itineraryIds } });
+};
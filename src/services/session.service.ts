@@ -0,0 +1,202 @@
+import crypto from "crypto";
+import jwt, { SignOptions } from "jsonwebtoken";
+import { Session } from "../models/session.model";
+import { AppError } from "../middleware/errorMiddleware";
+import { getAccessTokenTtl, getRefreshTokenTtlDays } from "../config/auth";
+import { generateToken } from "../utils/generateToken";
+import { ClientInfo } from "../dtos/auth.dto";
+import { SessionRevokedReason } from "../types/session.type";
+
+export interface AuthTokens {
+  token: string; // access token (JWT)
+  expiresIn: string;
+  refreshToken: string;
+  refreshTokenExpires: Date;
+}
+
+// Rotated hashes kept per session for reuse detection; older ones are dropped
+const ROTATED_TOKEN_HISTORY = 50;
+
+const hashToken = (token: string) => crypto.createHash("sha256").update(token).digest("hex");
+
+const signAccessToken = (userId: string, sessionId: string) =>
+  jwt.sign({ id: userId, sid: sessionId }, process.env.JWT_SECRET!, {
+    expiresIn: getAccessTokenTtl() as SignOptions["expiresIn"],
+  });
+
+/**
+ * Start a session for a logged-in user: a short-lived access token and the
+ * first refresh token of a new token family
+ */
+export const createSession = async (
+  userId: string,
+  client: ClientInfo = {}
+): Promise<AuthTokens> => {
+  const { token: refreshToken, expires } = generateToken(48, getRefreshTokenTtlDays() * 24);
+
+  const session = await Session.create({
+    userId,
+    tokenHash: hashToken(refreshToken),
+    userAgent: client.userAgent,
+    ip: client.ip,
+    lastUsedAt: new Date(),
+    expiresAt: expires,
+  });
+
+  return {
+    token: signAccessToken(userId, String(session._id)),
+    expiresIn: getAccessTokenTtl(),
+    refreshToken,
+    refreshTokenExpires: expires,
+  };
+};
+
+/**
+ * Exchange a refresh token for a new access token and a new refresh token.
+ *
+ * Presenting a token that was already rotated means it was copied, so the
+ * whole session (token family) is revoked and the user has to log in again.
+ * Only the last ROTATED_TOKEN_HISTORY rotated tokens are remembered; older
+ * ones are rejected as invalid without revoking the session.
+ */
+export const rotateSession = async (
+  refreshToken: string | undefined,
+  client: ClientInfo = {}
+): Promise<AuthTokens> => {
+  if (!refreshToken) {
+    throw new AppError("Refresh token missing", 401, "NO_REFRESH_TOKEN");
+  }
+
+  const tokenHash = hashToken(refreshToken);
+  const session = await Session.findOne({ tokenHash });
+
+  if (!session) {
+    const reused = await Session.findOne({ rotatedTokenHashes: tokenHash });
+    if (reused && !reused.revokedAt) {
+      reused.revokedAt = new Date();
+      reused.revokedReason = "token-reuse";
+      await reused.save();
+      console.warn(`Refresh token reuse detected, revoked session ${reused._id}`);
+    }
+    throw new AppError("Invalid or expired refresh token", 401, "INVALID_REFRESH_TOKEN");
+  }
+
+  if (session.revokedAt || session.expiresAt <= new Date()) {
+    throw new AppError("Invalid or expired refresh token", 401, "INVALID_REFRESH_TOKEN");
+  }
+
+  const { token: nextToken } = generateToken(48);
+  const updated = await Session.findOneAndUpdate(
+    // Matching on the old hash makes concurrent refreshes with one token race-safe
+    { _id: session._id, tokenHash, revokedAt: null },
+    {
+      tokenHash: hashToken(nextToken),
+      $push: { rotatedTokenHashes: { $each: [tokenHash], $slice: -ROTATED_TOKEN_HISTORY } },
+      lastUsedAt: new Date(),
+      ...(client.userAgent && { userAgent: client.userAgent }),
+      ...(client.ip && { ip: client.ip }),
+    }
+  );
+
+  if (!updated) {
+    throw new AppError("Invalid or expired refresh token", 401, "INVALID_REFRESH_TOKEN");
+  }
+
+  const userId = String(session.userId);
+  return {
+    token: signAccessToken(userId, String(session._id)),
+    expiresIn: getAccessTokenTtl(),
+    refreshToken: nextToken,
+    refreshTokenExpires: session.expiresAt,
+  };
+};
+
+/**
+ * Revoke the session a refresh token belongs to. Unknown tokens are ignored so
+ * logout always succeeds.
+ */
+export const revokeSessionByToken = async (refreshToken: string | undefined) => {
+  if (!refreshToken) return;
+
+  await Session.updateOne(
+    { tokenHash: hashToken(refreshToken), revokedAt: null },
+    { revokedAt: new Date(), revokedReason: "logout" }
+  );
+};
+
+export const revokeSession = async (
+  userId: string,
+  sessionId: string,
+  reason: SessionRevokedReason = "revoked"
+) => {
+  const session = await Session.findOne({ _id: sessionId, userId, revokedAt: null });
+  if (!session) {
+    throw new AppError("Session not found", 404, "SESSION_NOT_FOUND");
+  }
+
+  session.revokedAt = new Date();
+  session.revokedReason = reason;
+  await session.save();
+};
+
+/**
+ * Revoke every active session of a user, optionally keeping the current one
+ */
+export const revokeAllSessions = async (
+  userId: string,
+  reason: SessionRevokedReason,
+  exceptSessionId?: string
+) => {
+  const result = await Session.updateMany(
+    {
+      userId,
+      revokedAt: null,
+      ...(exceptSessionId && { _id: { $ne: exceptSessionId } }),
+    },
+    { revokedAt: new Date(), revokedReason: reason }
+  );
+  return result.modifiedCount;
+};
+
+/**
+ * Whether the session is active and was started by logging in (password or
+ * OAuth) within the last `minutes`; refreshing tokens doesn't restart it
+ */
+export const isRecentLogin = async (
+  userId: string,
+  sessionId: string | undefined,
+  minutes: number
+) => {
+  if (!sessionId) return false;
+
+  const session = await Session.findOne({ _id: sessionId, userId, revokedAt: null });
+  return !!session?.createdAt && Date.now() - session.createdAt.getTime() <= minutes * 60 * 1000;
+};
+
+/**
+ * Active sessions for a user, most recently used first
+ */
+export const listSessions = async (userId: string, currentSessionId?: string) => {
+  const sessions = await Session.find({
+    userId,
+    revokedAt: null,
+    expiresAt: { $gt: new Date() },
+  }).sort({ lastUsedAt: -1 });
+
+  return sessions.map((session) => ({
+    id: String(session._id),
+    userAgent: session.userAgent,
+    ip: session.ip,
+    createdAt: session.createdAt,
+    lastUsedAt: session.lastUsedAt,
+    expiresAt: session.expiresAt,
+    current: String(session._id) === currentSessionId,
+  }));
+};
+
+/**
+ * Remove every session of a user, revoked or not (account purge)
+ */
+export const deleteAllSessions = async (userId: string) => {
+  await Session.deleteMany({ userId });
+};
@@ -0,0 +1,174 @@
+import crypto from "crypto";
+import { Itinerary, IItineraryDocument } from "../models/itinerary.model";
+import { ShareLink, IShareLinkDocument } from "../models/shareLink.model";
+import { AppError } from "../middleware/errorMiddleware";
+import { getAuthorizedItinerary } from "./itineraryAccess.service";
+import { getClientUrl } from "../config/mail";
+import { CreateShareLinkDTO } from "../dtos/itinerary.dto";
+
+const MAX_EXPIRY_DAYS = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toShareLinkResponse = (link: IShareLinkDocument) => ({
+  id: String(link._id),
+  token: link.token,
+  url: `${getClientUrl()}/shared/${link.token}`,
+  label: link.label,
+  expiresAt: link.expiresAt,
+  revokedAt: link.revokedAt,
+  active: !link.revokedAt && (!link.expiresAt || link.expiresAt > new Date()),
+  viewCount: link.viewCount,
+  lastViewedAt: link.lastViewedAt,
+  createdAt: link.createdAt,
+});
+
+/**
+ * What a share link shows: the plan itself, without the owner, personal notes,
+ * budget or logged expenses
+ */
+const toSharedItinerary = (itinerary: IItineraryDocument) => ({
+  id: String(itinerary._id),
+  destination: itinerary.destination,
+  coordinates: itinerary.coordinates,
+  startDate: itinerary.startDate,
+  endDate: itinerary.endDate,
+  duration: itinerary.duration,
+  currency: itinerary.currency,
+  travelStyle: itinerary.travelStyle,
+  preferences: itinerary.preferences,
+  dayItineraries: itinerary.dayItineraries.map((day) => ({
+    day: day.day,
+    date: day.date,
+    weather: day.weather,
+    summary: day.summary,
+    activities: day.activities.map((activity) => ({
+      id: activity.id,
+      name: activity.name,
+      description: activity.description,
+      time: activity.time,
+      duration: activity.duration,
+      location: activity.location,
+      category: activity.category,
+      estimatedCost: activity.estimatedCost,
+      currency: activity.currency,
+      openingHours: activity.openingHours,
+    })),
+  })),
+  updatedAt: itinerary.updatedAt,
+});
+
+/**
+ * Create a share link. Only the owner can share an itinerary publicly.
+ */
+export const createShareLinkService = async (
+  userId: string,
+  itineraryId: string,
+  data: CreateShareLinkDTO = {}
+) => {
+  await getAuthorizedItinerary(userId, itineraryId, "owner");
+
+  let expiresAt: Date | null = null;
+  if (data.expiresInDays !== undefined && data.expiresInDays !== null) {
+    const days = Number(data.expiresInDays);
+    if (!Number.isFinite(days) || days <= 0 || days > MAX_EXPIRY_DAYS) {
+      throw new AppError(
+        `expiresInDays must be more than 0 and at most ${MAX_EXPIRY_DAYS}`,
+        400,
+        "INVALID_EXPIRY"
+      );
+    }
+    expiresAt = new Date(Date.now() + days * DAY_MS);
+  }
+
+  const link = await ShareLink.create({
+    token: crypto.randomBytes(24).toString("base64url"),
+    itineraryId,
+    userId,
+    label: typeof data.label === "string" ? data.label.trim() || undefined : undefined,
+    expiresAt,
+  });
+
+  return {
+    success: true,
+    message: "Share link created successfully",
+    shareLink: toShareLinkResponse(link),
+  };
+};
+
+/**
+ * List an itinerary's share links (including revoked and expired ones) with
+ * their view counts
+ */
+export const getShareLinksService = async (userId: string, itineraryId: string) => {
+  await getAuthorizedItinerary(userId, itineraryId, "owner");
+
+  const links = await ShareLink.find({ itineraryId }).sort({ createdAt: -1 });
+
+  return {
+    success: true,
+    count: links.length,
+    shareLinks: links.map(toShareLinkResponse),
+  };
+};
+
+/**
+ * Revoke a share link; the token stops working immediately
+ */
+export const revokeShareLinkService = async (
+  userId: string,
+  itineraryId: string,
+  shareId: string
+) => {
+  await getAuthorizedItinerary(userId, itineraryId, "owner");
+
+  const link = await ShareLink.findOne({ _id: shareId, itineraryId });
+  if (!link) {
+    throw new AppError("Share link not found", 404, "SHARE_LINK_NOT_FOUND");
+  }
+
+  if (!link.revokedAt) {
+    link.revokedAt = new Date();
+    await link.save();
+  }
+
+  return {
+    success: true,
+    message: "Share link revoked successfully",
+    shareLink: toShareLinkResponse(link),
+  };
+};
+
+/**
+ * Public view of a shared itinerary. Counts the view; revoked, expired and
+ * unknown tokens all look the same to the caller.
+ */
+export const getSharedItineraryService = async (token: string) => {
+  const now = new Date();
+  const link = await ShareLink.findOneAndUpdate(
+    {
+      token,
+      revokedAt: null,
+      $or: [{ expiresAt: null }, { expiresAt: { $gt: now } }],
+    },
+    { $inc: { viewCount: 1 }, $set: { lastViewedAt: now } },
+    { new: true }
+  );
+
+  const itinerary = link && (await Itinerary.findById(link.itineraryId));
+  if (!link || !itinerary) {
+    throw new AppError("Shared itinerary not found", 404, "SHARE_LINK_NOT_FOUND");
+  }
+
+  return {
+    success: true,
+    itinerary: toSharedItinerary(itinerary),
+    expiresAt: link.expiresAt,
+  };
+};
+
+/**
+ * Remove the share links of a deleted itinerary
+ */
+export const deleteShareLinks = async (itineraryId: string) => {
+  await ShareLink.deleteMany({ itineraryId });
+};
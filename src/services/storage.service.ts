@@ -0,0 +1,85 @@
+import fs from "fs";
+import path from "path";
+import { DeleteObjectCommand, PutObjectCommand, S3Client } from "@aws-sdk/client-s3";
+import { AppError } from "../middleware/errorMiddleware";
+import {
+  getLocalStorageConfig,
+  getS3StorageConfig,
+  getStorageDriverName,
+} from "../config/storage";
+import { StorageAdapter } from "../types/storage.type";
+
+// Keys come from our own code, but never let one escape the storage root
+const assertSafeKey = (key: string) => {
+  if (!/^[a-zA-Z0-9/_.-]+$/.test(key) || key.split("/").includes("..")) {
+    throw new AppError(`Invalid storage key: ${key}`, 500, "STORAGE_ERROR");
+  }
+};
+
+export const createLocalStorage = (
+  options: { dir: string; baseUrl: string } = getLocalStorageConfig()
+): StorageAdapter => ({
+  name: "local",
+  put: async (key, body) => {
+    assertSafeKey(key);
+    const file = path.join(options.dir, key);
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    await fs.promises.writeFile(file, body);
+    return `${options.baseUrl}/${key}`;
+  },
+  delete: async (key) => {
+    assertSafeKey(key);
+    await fs.promises.rm(path.join(options.dir, key), { force: true });
+  },
+});
+
+export const createS3Storage = (
+  options: ReturnType<typeof getS3StorageConfig> = getS3StorageConfig()
+): StorageAdapter => {
+  const client = new S3Client({
+    region: options.region,
+    endpoint: options.endpoint,
+    forcePathStyle: options.forcePathStyle,
+    credentials: options.credentials,
+  });
+
+  return {
+    name: "s3",
+    put: async (key, body, contentType) => {
+      assertSafeKey(key);
+      await client.send(
+        new PutObjectCommand({
+          Bucket: options.bucket,
+          Key: key,
+          Body: body,
+          ContentType: contentType,
+          CacheControl: "public, max-age=31536000, immutable",
+        })
+      );
+      return `${options.publicUrl}/${key}`;
+    },
+    delete: async (key) => {
+      assertSafeKey(key);
+      await client.send(new DeleteObjectCommand({ Bucket: options.bucket, Key: key }));
+    },
+  };
+};
+
+let storageOverride: StorageAdapter | null = null;
+let cachedStorage: StorageAdapter | null = null;
+
+/**
+ * Replace the configured storage (e.g. in tests). Pass null to go back to config.
+ */
+export const setStorageAdapter = (storage: StorageAdapter | null): void => {
+  storageOverride = storage;
+};
+
+export const getStorage = (): StorageAdapter => {
+  if (storageOverride) return storageOverride;
+  if (!cachedStorage) {
+    cachedStorage =
+      getStorageDriverName() === "s3" ? createS3Storage() : createLocalStorage();
+  }
+  return cachedStorage;
+};
@@ -0,0 +1,202 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import QRCode from "qrcode";
+import { User, IUserDocument } from "../models/User.model";
+import { AppError } from "../middleware/errorMiddleware";
+import { decryptSecret, encryptSecret } from "../utils/encryption";
+import { buildOtpauthUrl, generateTotpSecret, verifyTotp } from "../utils/totp";
+import { assertLoginAllowed, recordLoginFailure } from "./loginProtection.service";
+import { ConfirmTwoFactorDTO, DisableTwoFactorDTO, SecondFactorDTO } from "../dtos/user.dto";
+import { ClientInfo } from "../dtos/auth.dto";
+
+const MFA_TOKEN_TTL = "5m";
+const MFA_TOKEN_PURPOSE = "mfa";
+const RECOVERY_CODE_COUNT = 10;
+
+const TWO_FACTOR_FIELDS =
+  "+twoFactorSecret +twoFactorPendingSecret +twoFactorRecoveryCodes +twoFactorLastCounter";
+
+const hashRecoveryCode = (code: string) =>
+  crypto
+    .createHash("sha256")
+    .update(code.replace(/[\s-]/g, "").toLowerCase())
+    .digest("hex");
+
+// xxxxx-xxxxx, lowercase hex: easy to type, 40 bits each
+const generateRecoveryCodes = () =>
+  Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString("hex");
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+/**
+ * Check a TOTP code or a recovery code. A used recovery code is removed and a
+ * TOTP step can't be used twice; the caller saves the user.
+ */
+const checkSecondFactor = (user: IUserDocument, data: SecondFactorDTO): boolean => {
+  if (data.recoveryCode) {
+    const hash = hashRecoveryCode(String(data.recoveryCode));
+    const codes = user.twoFactorRecoveryCodes || [];
+    if (!codes.includes(hash)) return false;
+
+    user.twoFactorRecoveryCodes = codes.filter((c) => c !== hash);
+    return true;
+  }
+
+  if (!data.code || !user.twoFactorSecret) return false;
+
+  const counter = verifyTotp(decryptSecret(user.twoFactorSecret), String(data.code));
+  if (counter === null) return false;
+  if (user.twoFactorLastCounter !== null && user.twoFactorLastCounter !== undefined) {
+    if (counter <= user.twoFactorLastCounter) return false;
+  }
+
+  user.twoFactorLastCounter = counter;
+  return true;
+};
+
+/**
+ * Start enrollment: a new secret as a QR code and as text for manual entry.
+ * Nothing changes for login until the code is confirmed.
+ */
+export const setupTwoFactorService = async (userId: string) => {
+  const user = await User.findById(userId).select(TWO_FACTOR_FIELDS);
+  if (!user) throw new AppError("User not found", 404, "USER_NOT_FOUND");
+
+  if (user.twoFactorEnabled) {
+    throw new AppError("Two-factor authentication is already enabled", 409, "TWO_FACTOR_ALREADY_ENABLED");
+  }
+
+  const secret = generateTotpSecret();
+  user.twoFactorPendingSecret = encryptSecret(secret);
+  await user.save();
+
+  const otpauthUrl = buildOtpauthUrl(secret, user.email, process.env.TOTP_ISSUER || "WanderWise");
+
+  return {
+    success: true,
+    secret,
+    otpauthUrl,
+    qrCode: await QRCode.toDataURL(otpauthUrl),
+  };
+};
+
+/**
+ * Finish enrollment with a code from the authenticator app. The recovery codes
+ * are only ever shown in this response.
+ */
+export const confirmTwoFactorService = async (userId: string, data: ConfirmTwoFactorDTO) => {
+  if (!data?.code) throw new AppError("Code is required", 400, "MISSING_FIELDS");
+
+  const user = await User.findById(userId).select(TWO_FACTOR_FIELDS);
+  if (!user) throw new AppError("User not found", 404, "USER_NOT_FOUND");
+
+  if (user.twoFactorEnabled) {
+    throw new AppError("Two-factor authentication is already enabled", 409, "TWO_FACTOR_ALREADY_ENABLED");
+  }
+  if (!user.twoFactorPendingSecret) {
+    throw new AppError("Start two-factor setup first", 400, "TWO_FACTOR_SETUP_REQUIRED");
+  }
+
+  const counter = verifyTotp(decryptSecret(user.twoFactorPendingSecret), String(data.code));
+  if (counter === null) {
+    throw new AppError("Invalid verification code", 400, "INVALID_TWO_FACTOR_CODE");
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  user.twoFactorEnabled = true;
+  user.twoFactorSecret = user.twoFactorPendingSecret;
+  user.twoFactorPendingSecret = null;
+  user.twoFactorLastCounter = counter;
+  user.twoFactorRecoveryCodes = recoveryCodes.map(hashRecoveryCode);
+  await user.save();
+
+  return {
+    success: true,
+    message: "Two-factor authentication enabled",
+    recoveryCodes,
+  };
+};
+
+/**
+ * Turn 2FA off. Needs the password and a current code (or a recovery code),
+ * so a stolen session alone can't remove the second factor.
+ */
+export const disableTwoFactorService = async (userId: string, data: DisableTwoFactorDTO) => {
+  if (!data?.password || (!data.code && !data.recoveryCode)) {
+    throw new AppError(
+      "Password and a verification or recovery code are required",
+      400,
+      "MISSING_FIELDS"
+    );
+  }
+
+  const user = await User.findById(userId).select(`+password ${TWO_FACTOR_FIELDS}`);
+  if (!user) throw new AppError("User not found", 404, "USER_NOT_FOUND");
+
+  if (!user.twoFactorEnabled) {
+    throw new AppError("Two-factor authentication is not enabled", 400, "TWO_FACTOR_NOT_ENABLED");
+  }
+
+  const isMatch = await user.comparePassword(data.password);
+  if (!isMatch) throw new AppError("Password is incorrect", 401, "INVALID_CREDENTIALS");
+
+  if (!checkSecondFactor(user, data)) {
+    throw new AppError("Invalid verification code", 401, "INVALID_TWO_FACTOR_CODE");
+  }
+
+  user.twoFactorEnabled = false;
+  user.twoFactorSecret = null;
+  user.twoFactorPendingSecret = null;
+  user.twoFactorRecoveryCodes = [];
+  user.twoFactorLastCounter = null;
+  await user.save();
+
+  return { success: true, message: "Two-factor authentication disabled" };
+};
+
+/**
+ * Short-lived token proving the password step of a login passed. It is signed
+ * with a purpose claim, which authMiddleware refuses as an access token.
+ */
+export const createMfaToken = (userId: string): string =>
+  jwt.sign({ id: userId, purpose: MFA_TOKEN_PURPOSE }, process.env.JWT_SECRET!, {
+    expiresIn: MFA_TOKEN_TTL,
+  });
+
+/**
+ * Redeem an mfa token with a second factor; returns the user on success.
+ * Wrong codes count towards the account's login lockout.
+ */
+export const verifyMfaChallenge = async (
+  mfaToken: string,
+  data: SecondFactorDTO,
+  client: ClientInfo = {}
+) => {
+  let userId: string;
+  try {
+    const decoded = jwt.verify(mfaToken, process.env.JWT_SECRET as string) as {
+      id: string;
+      purpose?: string;
+    };
+    if (decoded.purpose !== MFA_TOKEN_PURPOSE) throw new Error("Wrong token purpose");
+    userId = decoded.id;
+  } catch (error) {
+    throw new AppError("Login session expired, please login again", 401, "INVALID_MFA_TOKEN");
+  }
+
+  const user = await User.findById(userId).select(TWO_FACTOR_FIELDS);
+  if (!user || !user.twoFactorEnabled) {
+    throw new AppError("Login session expired, please login again", 401, "INVALID_MFA_TOKEN");
+  }
+
+  await assertLoginAllowed(user.email, client);
+
+  if (!checkSecondFactor(user, data)) {
+    await recordLoginFailure(user.email, client, user);
+    throw new AppError("Invalid verification code", 401, "INVALID_TWO_FACTOR_CODE");
+  }
+  await user.save();
+
+  return user;
+};
@@ -1,5 +1,37 @@
-import { User } from "../models/user.model";
+import bcrypt from "bcryptjs";
+import { User } from "../models/User.model";
 import { AppError } from "../middleware/errorMiddleware";
+import { generateToken } from "../utils/generateToken";
+import { getCurrencyConverter, normalizeCurrency } from "./currency.service";
+import { VERIFICATION_TOKEN_TTL_HOURS, sendEmailChangeEmail } from "./mail.service";
+import { deleteAvatarFiles } from "./avatar.service";
+import {
+  deleteAllSessions,
+  isRecentLogin,
+  listSessions,
+  revokeAllSessions,
+  revokeSession,
+} from "./session.service";
+import { deleteAuditEvents } from "./audit.service";
+import { removeUserCollaborations } from "./collaborator.service";
+import { deleteItineraryRevisions } from "./revision.service";
+import { Itinerary } from "../models/itinerary.model";
+import { ItineraryChat } from "../models/itineraryChat.model";
+import { ShareLink } from "../models/shareLink.model";
+import { CalendarFeed } from "../models/calendarFeed.model";
+import { getAccountDeletionGraceDays } from "../config/auth";
+import {
+  ChangeEmailDTO,
+  ChangePasswordDTO,
+  DeleteAccountDTO,
+  UpdatePreferencesDTO,
+  UpdateProfileDTO,
+} from "../dtos/user.dto";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RECENT_LOGIN_MINUTES = 10;
+const EXPORT_FORMAT = "wanderwise-export";
+const EXPORT_VERSION = 1;
 
 export const getMeService = async (userId: string) => {
   const user = await User.findById(userId).select("-password");
@@ -11,14 +43,310 @@ export const getMeService = async (userId: string) => {
   };
 };
 
-export const deleteMeService = async (userId: string) => {
-  const user = await User.findById(userId);
+export const updateProfileService = async (userId: string, data: UpdateProfileDTO) => {
+  const user = await User.findById(userId).select("-password +avatarStorageKeys");
   if (!user) throw new AppError("User not found", 404, "USER_NOT_FOUND");
 
-  await User.findByIdAndDelete(userId);
+  if (data.firstName !== undefined) user.firstName = String(data.firstName).trim();
+  if (data.lastName !== undefined) user.lastName = String(data.lastName).trim();
+
+  // A plain URL replaces any uploaded avatar
+  const replacedKeys = data.avatar !== undefined ? user.avatarStorageKeys || [] : [];
+  if (data.avatar !== undefined) {
+    user.avatar = data.avatar.trim();
+    user.avatarVariants = undefined;
+    user.avatarStorageKeys = [];
+  }
+
+  await user.save();
+  await deleteAvatarFiles(replacedKeys);
+
+  return {
+    success: true,
+    message: "Profile updated successfully",
+    user,
+  };
+};
+
+/**
+ * Change password while logged in. Other devices are logged out; the session
+ * making the change stays signed in.
+ */
+export const changePasswordService = async (
+  userId: string,
+  data: ChangePasswordDTO,
+  currentSessionId?: string
+) => {
+  const { currentPassword, newPassword } = data;
+
+  const user = await User.findById(userId).select("+password");
+  if (!user) throw new AppError("User not found", 404, "USER_NOT_FOUND");
+
+  const isMatch = await user.comparePassword(currentPassword);
+  if (!isMatch)
+    throw new AppError("Current password is incorrect", 401, "INVALID_CREDENTIALS");
+
+  const isSamePassword = await bcrypt.compare(newPassword, user.password);
+  if (isSamePassword) {
+    throw new AppError(
+      "New password cannot be the same as the old password",
+      400,
+      "SAME_PASSWORD"
+    );
+  }
+
+  user.password = newPassword;
+  user.resetPasswordToken = null;
+  user.resetPasswordExpires = null;
+  await user.save();
+
+  await revokeAllSessions(userId, "password-change", currentSessionId);
+
+  return { success: true, message: "Password changed successfully" };
+};
+
+/**
+ * Start an email change. The new address gets a confirmation link; the
+ * account keeps its current email until the link is used.
+ */
+export const requestEmailChangeService = async (userId: string, data: ChangeEmailDTO) => {
+  const newEmail = String(data.newEmail).trim().toLowerCase();
+
+  const user = await User.findById(userId).select("+password");
+  if (!user) throw new AppError("User not found", 404, "USER_NOT_FOUND");
+
+  const isMatch = await user.comparePassword(data.password);
+  if (!isMatch) throw new AppError("Password is incorrect", 401, "INVALID_CREDENTIALS");
+
+  if (newEmail === user.email) {
+    throw new AppError("That is already your email", 400, "SAME_EMAIL");
+  }
+
+  const existingUser = await User.findOne({ email: newEmail });
+  if (existingUser) throw new AppError("Email already exists", 400, "DUPLICATE_KEY");
+
+  const { token, expires } = generateToken(32, VERIFICATION_TOKEN_TTL_HOURS);
+  user.pendingEmail = newEmail;
+  user.emailChangeToken = token;
+  user.emailChangeTokenExpires = expires;
+  await user.save();
+
+  await sendEmailChangeEmail(user, newEmail, token);
 
   return {
     success: true,
-    message: "Account deleted successfully",
+    message: `Confirmation email sent to ${newEmail}`,
+    pendingEmail: newEmail,
+  };
+};
+
+/**
+ * Finish an email change using the token from the confirmation email
+ */
+export const confirmEmailChangeService = async (token: string) => {
+  const user = await User.findOne({
+    emailChangeToken: token,
+    emailChangeTokenExpires: { $gt: new Date() },
+  });
+
+  if (!user || !user.pendingEmail)
+    throw new AppError(
+      "Email change token is invalid or expired",
+      400,
+      "INVALID_TOKEN"
+    );
+
+  // The address may have been registered since the change was requested
+  const existingUser = await User.findOne({ email: user.pendingEmail });
+  if (existingUser) throw new AppError("Email already exists", 400, "DUPLICATE_KEY");
+
+  user.email = user.pendingEmail;
+  user.isVerified = true; // the link proves the new address works
+  user.pendingEmail = null;
+  user.emailChangeToken = null;
+  user.emailChangeTokenExpires = null;
+  await user.save();
+
+  return { success: true, message: "Email changed successfully", email: user.email };
+};
+
+export const updatePreferencesService = async (
+  userId: string,
+  data: UpdatePreferencesDTO
+) => {
+  const user = await User.findById(userId).select("-password");
+  if (!user) throw new AppError("User not found", 404, "USER_NOT_FOUND");
+
+  if (data.preferredCurrency !== undefined) {
+    const currency = normalizeCurrency(data.preferredCurrency ?? undefined);
+    // Throws UNSUPPORTED_CURRENCY for codes without an exchange rate
+    if (currency) await getCurrencyConverter(currency);
+    user.preferredCurrency = currency;
+  }
+
+  await user.save();
+
+  return {
+    success: true,
+    message: "Preferences updated successfully",
+    user,
+  };
+};
+
+export const getSessionsService = async (userId: string, currentSessionId?: string) => {
+  const sessions = await listSessions(userId, currentSessionId);
+
+  return {
+    success: true,
+    count: sessions.length,
+    sessions,
+  };
+};
+
+export const revokeSessionService = async (userId: string, sessionId: string) => {
+  await revokeSession(userId, sessionId);
+
+  return {
+    success: true,
+    message: "Session revoked successfully",
+  };
+};
+
+/**
+ * Delete the account after confirming the password, or without it when the
+ * current session was logged into in the last RECENT_LOGIN_MINUTES (OAuth
+ * accounts have no password they know). During the grace period
+ * (ACCOUNT_DELETION_GRACE_DAYS) the account is only scheduled for deletion
+ * and signed out everywhere; logging in and calling restoreAccountService
+ * cancels it. With no grace period everything is purged right away.
+ */
+export const deleteMeService = async (
+  userId: string,
+  data: DeleteAccountDTO,
+  sessionId?: string
+) => {
+  const user = await User.findById(userId).select("+password");
+  if (!user) throw new AppError("User not found", 404, "USER_NOT_FOUND");
+
+  if (data?.password) {
+    const isMatch = await user.comparePassword(data.password);
+    if (!isMatch) throw new AppError("Password is incorrect", 401, "INVALID_CREDENTIALS");
+  } else if (!(await isRecentLogin(userId, sessionId, RECENT_LOGIN_MINUTES))) {
+    throw new AppError(
+      `Enter your password, or log in again and delete your account within ${RECENT_LOGIN_MINUTES} minutes`,
+      401,
+      "REAUTHENTICATION_REQUIRED"
+    );
+  }
+
+  const graceDays = getAccountDeletionGraceDays();
+  if (graceDays === 0) {
+    await purgeUserAccount(userId);
+    return { success: true, message: "Account deleted successfully" };
+  }
+
+  if (!user.deletionScheduledFor) {
+    user.deletionRequestedAt = new Date();
+    user.deletionScheduledFor = new Date(Date.now() + graceDays * DAY_MS);
+    await user.save();
+  }
+  await revokeAllSessions(userId, "account-deleted");
+
+  return {
+    success: true,
+    message: `Account scheduled for deletion on ${user.deletionScheduledFor.toISOString()}. Until then, log in and call POST /api/v1/users/me/restore to cancel it`,
+    deletionScheduledFor: user.deletionScheduledFor,
+  };
+};
+
+/**
+ * Cancel a scheduled deletion
+ */
+export const restoreAccountService = async (userId: string) => {
+  const user = await User.findById(userId).select("-password");
+  if (!user) throw new AppError("User not found", 404, "USER_NOT_FOUND");
+
+  if (!user.deletionScheduledFor) {
+    throw new AppError("Account is not scheduled for deletion", 400, "DELETION_NOT_SCHEDULED");
+  }
+
+  user.deletionRequestedAt = null;
+  user.deletionScheduledFor = null;
+  await user.save();
+
+  return { success: true, message: "Account restored successfully", user };
+};
+
+/**
+ * Permanently remove a user and everything that belongs to them: itineraries
+ * and their revisions, chats, share links, calendar feeds, collaborations and
+ * invitations, sessions, audit events and uploaded avatar files.
+ */
+export const purgeUserAccount = async (userId: string) => {
+  const user = await User.findById(userId).select("+avatarStorageKeys");
+  if (!user) return;
+
+  // Collaborators' chats on the user's itineraries go with them
+  const owned = await Itinerary.find({ userId }).select("_id");
+  const ownedIds = owned.map((itinerary) => itinerary._id);
+
+  await Promise.all([
+    Itinerary.deleteMany({ userId }),
+    ItineraryChat.deleteMany({ $or: [{ userId }, { itineraryId: { $in: ownedIds } }] }),
+    ShareLink.deleteMany({ userId }),
+    deleteItineraryRevisions(ownedIds),
+    CalendarFeed.deleteMany({ $or: [{ userId }, { itineraryId: { $in: ownedIds } }] }),
+    removeUserCollaborations(userId, user.email),
+    deleteAllSessions(userId),
+    deleteAuditEvents(userId, user.email),
+  ]);
+  await User.findByIdAndDelete(userId);
+  await deleteAvatarFiles(user.avatarStorageKeys || []);
+};
+
+/**
+ * Purge accounts whose grace period has ended. Run on a timer by server.ts;
+ * one failing account doesn't stop the others.
+ */
+export const purgeScheduledDeletionsService = async () => {
+  const users = await User.find({ deletionScheduledFor: { $lte: new Date() } }).select("_id");
+
+  let purged = 0;
+  for (const user of users) {
+    try {
+      await purgeUserAccount(String(user._id));
+      purged++;
+    } catch (error) {
+      console.error(`Failed to purge account ${user._id}:`, error);
+    }
+  }
+
+  return { success: true, purged };
+};
+
+/**
+ * Everything stored about the user as one JSON document (GDPR data export).
+ * Secrets such as password hashes, tokens and 2FA keys are left out.
+ */
+export const exportMeService = async (userId: string) => {
+  const user = await User.findById(userId);
+  if (!user) throw new AppError("User not found", 404, "USER_NOT_FOUND");
+
+  const [itineraries, chats, shareLinks, sessions] = await Promise.all([
+    Itinerary.find({ userId }).sort({ createdAt: 1 }),
+    ItineraryChat.find({ userId }),
+    ShareLink.find({ userId }),
+    listSessions(userId),
+  ]);
+
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    profile: user.getPublicProfile(),
+    itineraries: itineraries.map((itinerary) => itinerary.toObject()),
+    chats: chats.map((chat) => chat.toObject()),
+    shareLinks: shareLinks.map((link) => link.toObject()),
+    sessions,
   };
 };
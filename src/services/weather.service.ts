@@ -117,41 +117,37 @@ export const getWeatherForecast = async (
   }
 };
 
+export interface GeocodingResult {
+  latitude: number;
+  longitude: number;
+  displayName: string;
+}
+
 /**
- * Get geocoding data for a destination (get coordinates from name)
+ * Search OpenWeather's geocoder for places matching a name
  */
-export const getCoordinatesByDestination = async (
-  destination: string
-): Promise<{ latitude: number; longitude: number; displayName: string }> => {
+export const searchLocations = async (
+  query: string,
+  limit = 5
+): Promise<GeocodingResult[]> => {
   try {
     const response = await axios.get(
       `${OPENWEATHER_BASE_URL}/geo/1.0/direct`,
       {
         params: {
-          q: destination,
-          limit: 1,
+          q: query,
+          limit,
           appid: OPENWEATHER_API_KEY,
         },
       }
     );
 
-    if (!response.data || response.data.length === 0) {
-      throw new AppError(
-        "Destination not found",
-        404,
-        "DESTINATION_NOT_FOUND"
-      );
-    }
-
-    const { lat, lon, name, country } = response.data[0];
-
-    return {
-      latitude: lat,
-      longitude: lon,
-      displayName: `${name}, ${country}`,
-    };
+    return (response.data || []).map((place: any) => ({
+      latitude: place.lat,
+      longitude: place.lon,
+      displayName: `${place.name}, ${place.country}`,
+    }));
   } catch (error) {
-    if (error instanceof AppError) throw error;
     console.error("Geocoding API Error:", error);
     throw new AppError(
       "Failed to get destination coordinates",
@@ -160,3 +156,22 @@ export const getCoordinatesByDestination = async (
     );
   }
 };
+
+/**
+ * Get geocoding data for a destination (get coordinates from name)
+ */
+export const getCoordinatesByDestination = async (
+  destination: string
+): Promise<GeocodingResult> => {
+  const [place] = await searchLocations(destination, 1);
+
+  if (!place) {
+    throw new AppError(
+      "Destination not found",
+      404,
+      "DESTINATION_NOT_FOUND"
+    );
+  }
+
+  return place;
+};
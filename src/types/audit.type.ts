@@ -0,0 +1,19 @@
+export type AuditEventType =
+  | "login-failed"
+  | "login-blocked" // refused before checking the password (IP over its limit)
+  | "account-locked"
+  | "account-lock-rejected"; // login attempted while the account is locked
+
+/**
+ * A security-relevant event. email is kept as entered, since failed logins
+ * may not match any user.
+ */
+export interface IAuditLog {
+  type: AuditEventType;
+  userId?: string | null;
+  email?: string;
+  ip?: string;
+  userAgent?: string;
+  details?: Record<string, unknown>;
+  createdAt?: Date;
+}
@@ -0,0 +1,12 @@
+/**
+ * A secret URL a calendar app can subscribe to. It serves the itinerary as
+ * iCalendar for as long as its user still has access to the itinerary.
+ */
+export interface ICalendarFeed {
+  userId: string;
+  itineraryId: string;
+  tokenHash: string; // SHA-256 of the token in the feed URL
+  lastAccessedAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
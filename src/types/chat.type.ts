@@ -0,0 +1,20 @@
+import { IItineraryDiff } from "./itinerary.type";
+
+export type ChatDiffStatus = "proposed" | "applied" | "discarded";
+
+export interface IChatMessage {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  diff?: IItineraryDiff;
+  diffStatus?: ChatDiffStatus;
+  createdAt: Date;
+}
+
+export interface IItineraryChat {
+  itineraryId: string;
+  userId: string;
+  messages: IChatMessage[];
+  createdAt?: Date;
+  updatedAt?: Date;
+}
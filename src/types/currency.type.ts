@@ -0,0 +1,15 @@
+export interface ExchangeRates {
+  base: string;
+  date?: string;
+  rates: Record<string, number>; // units of each currency per 1 `base`
+}
+
+export interface RateSource {
+  name: string;
+  getRates(): Promise<ExchangeRates>;
+}
+
+export interface CurrencyConverter {
+  currency: string; // target currency
+  convert(amount: number, from: string): number;
+}
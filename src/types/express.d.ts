@@ -5,6 +5,7 @@ declare global {
     interface Request {
       user?: {
         id: string;
+        sessionId?: string; // absent for tokens issued before sessions existed
       };
     }
   }
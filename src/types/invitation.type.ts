@@ -0,0 +1,21 @@
+import { CollaboratorRole } from "./itinerary.type";
+
+export type InvitationStatus = "pending" | "accepted" | "declined" | "revoked";
+
+/**
+ * An emailed invitation to collaborate on an itinerary. It is accepted by the
+ * logged-in account with the invited email, which is then added to the
+ * itinerary's collaborators.
+ */
+export interface IInvitation {
+  itineraryId: string;
+  email: string;
+  role: CollaboratorRole;
+  invitedBy: string;
+  tokenHash: string; // SHA-256 of the emailed token
+  status: InvitationStatus;
+  expiresAt: Date;
+  respondedAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
@@ -6,12 +6,22 @@ export interface IActivity {
   duration: number; // in minutes
   location: {
     name: string;
-    latitude: number;
-    longitude: number;
+    // Absent when an AI-suggested place could not be geocoded
+    latitude?: number;
+    longitude?: number;
+    // "approximate": not found by the geocoder; the AI's own coordinates, unverified
+    geocodeStatus?: "resolved" | "approximate" | "unresolved";
+    confidence?: "high" | "medium" | "low";
   };
   category: "attraction" | "dining" | "accommodation" | "transport" | "shopping" | "activity";
   estimatedCost?: number;
+  currency?: string; // ISO 4217 code of estimatedCost; defaults to the itinerary's
   notes?: string;
+  fixedTime?: boolean; // must happen at `time` (e.g. a dinner reservation)
+  openingHours?: {
+    open: string; // HH:MM
+    close: string; // HH:MM
+  };
 }
 
 export interface IDayItinerary {
@@ -28,8 +38,34 @@ export interface IDayItinerary {
   summary?: string;
 }
 
-export interface IItinerary {
+export type ExpenseCategory = IActivity["category"] | "other";
+
+export interface IExpense {
+  id: string;
+  day: number;
+  activityId?: string; // actual cost of a planned activity
+  category: ExpenseCategory;
+  amount: number;
+  currency?: string; // ISO 4217 code of amount; defaults to the itinerary's
+  description?: string;
+  createdAt?: Date;
+}
+
+export type ItineraryRole = "owner" | "editor" | "viewer";
+export type CollaboratorRole = Exclude<ItineraryRole, "owner">;
+
+/**
+ * A user who accepted an invitation to the itinerary (see IInvitation)
+ */
+export interface ICollaborator {
   userId: string;
+  role: CollaboratorRole;
+  invitedBy: string;
+  addedAt: Date;
+}
+
+export interface IItinerary {
+  userId: string; // owner
   destination: string;
   coordinates: {
     latitude: number;
@@ -40,6 +76,9 @@ export interface IItinerary {
   duration: number; // in days
   dayItineraries: IDayItinerary[];
   budget?: number;
+  currency?: string; // ISO 4217 home currency of the budget and costs, default USD
+  expenses?: IExpense[];
+  collaborators?: ICollaborator[];
   travelStyle?: "budget" | "comfort" | "luxury";
   preferences?: string[]; // e.g., ["beaches", "hiking", "local food"]
   aiGenerated: boolean;
@@ -47,3 +86,34 @@ export interface IItinerary {
   createdAt?: Date;
   updatedAt?: Date;
 }
+
+/**
+ * Progress reported while an AI itinerary is generated, in the order the stages finish
+ */
+export type GenerationProgressEvent =
+  | {
+      stage: "geocoded";
+      latitude: number;
+      longitude: number;
+      displayName: string;
+    }
+  | { stage: "weather"; forecast: NonNullable<IDayItinerary["weather"]>[] }
+  | { stage: "day"; day: IDayItinerary };
+
+export interface GenerationOptions {
+  onProgress?: (event: GenerationProgressEvent) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * A single change to an itinerary's days, as proposed by the refinement chat
+ */
+export type ItineraryChange =
+  | { op: "add"; day: number; activity: IActivity }
+  | { op: "update"; day: number; activityId: string; activity: Partial<Omit<IActivity, "id">> }
+  | { op: "remove"; day: number; activityId: string };
+
+export interface IItineraryDiff {
+  summary: string;
+  changes: ItineraryChange[];
+}
@@ -0,0 +1,20 @@
+export type JobStatus = "queued" | "running" | "succeeded" | "failed";
+
+export type JobType = "itinerary-generation";
+
+export interface IJobError {
+  message: string;
+  code: string;
+  statusCode: number;
+}
+
+export interface IJob {
+  id: string;
+  type: JobType;
+  userId: string;
+  status: JobStatus;
+  itineraryId?: string;
+  error?: IJobError;
+  createdAt: string;
+  updatedAt: string;
+}
@@ -0,0 +1,32 @@
+export type LLMProviderName = "openrouter" | "openai-compatible" | "fixture";
+
+/**
+ * Kinds of AI calls the app makes. Each one can be tuned separately through config.
+ */
+export type AIRequestType = "itinerary" | "activity" | "chat";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface LLMCompletionRequest {
+  type: AIRequestType;
+  messages: ChatMessage[];
+  jsonMode?: boolean;
+  // Structured inputs behind the prompt, used by the fixture provider
+  context?: Record<string, any>;
+  signal?: AbortSignal;
+}
+
+export interface LLMRequestSettings {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  timeoutMs: number;
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  complete(request: LLMCompletionRequest, settings: LLMRequestSettings): Promise<string>;
+}
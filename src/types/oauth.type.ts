@@ -0,0 +1,34 @@
+export type OAuthProviderName = "google" | "github" | "oidc";
+
+/**
+ * What we need from a provider account to log in, link or create a user
+ */
+export interface OAuthProfile {
+  provider: OAuthProviderName;
+  providerUserId: string;
+  email?: string;
+  emailVerified: boolean;
+  firstName?: string;
+  lastName?: string;
+  avatar?: string;
+}
+
+export interface OAuthAuthorizationParams {
+  state: string;
+  codeChallenge: string; // PKCE, S256
+  redirectUri: string;
+}
+
+export interface OAuthProvider {
+  name: OAuthProviderName;
+  label: string;
+  getAuthorizationUrl(params: OAuthAuthorizationParams): Promise<string>;
+  getProfile(code: string, codeVerifier: string, redirectUri: string): Promise<OAuthProfile>;
+}
+
+export interface IOAuthIdentity {
+  provider: OAuthProviderName;
+  providerUserId: string;
+  email?: string;
+  linkedAt: Date;
+}
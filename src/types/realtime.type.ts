@@ -0,0 +1,33 @@
+export type ItineraryEventType =
+  | "itinerary.updated"
+  | "itinerary.deleted"
+  | "activity.added"
+  | "activity.updated"
+  | "activity.deleted"
+  | "collaborators.updated"
+  | "access.revoked"; // only to a watcher who lost access, right before their stream ends
+
+/**
+ * A change broadcast to everyone watching an itinerary. version is the
+ * itinerary's ETag version after the change.
+ */
+export interface ItineraryEvent {
+  type: ItineraryEventType;
+  itineraryId: string;
+  version: number;
+  actorId: string; // user who made the change
+  data: Record<string, unknown>;
+  at: string;
+}
+
+/**
+ * Message fan-out between server instances: Redis pub/sub, or an in-process
+ * emitter on a single node and in tests.
+ */
+export interface PubSubAdapter {
+  name: "redis" | "memory";
+  publish(channel: string, message: string): Promise<void>;
+  // Resolves to an unsubscribe function
+  subscribe(channel: string, listener: (message: string) => void): Promise<() => Promise<void>>;
+  close(): Promise<void>;
+}
@@ -0,0 +1,48 @@
+import { IItinerary } from "./itinerary.type";
+
+export type RevisionOperation =
+  | "create"
+  | "generate"
+  | "update"
+  | "apply-chat"
+  | "add-activity"
+  | "update-activity"
+  | "delete-activity"
+  | "regenerate-day"
+  | "optimize-day"
+  | "add-expense"
+  | "delete-expense"
+  | "restore";
+
+/**
+ * The plan fields a revision keeps; ownership and collaborators aren't part of it
+ */
+export type ItinerarySnapshot = Pick<
+  IItinerary,
+  | "destination"
+  | "coordinates"
+  | "startDate"
+  | "endDate"
+  | "duration"
+  | "dayItineraries"
+  | "budget"
+  | "currency"
+  | "expenses"
+  | "travelStyle"
+  | "preferences"
+  | "aiNotes"
+>;
+
+/**
+ * The state of an itinerary right after one of its changes was saved.
+ * Restoring a revision copies its snapshot back and records a new revision.
+ */
+export interface IItineraryRevision {
+  itineraryId: string;
+  userId: string | null; // who made the change
+  operation: RevisionOperation;
+  version: number; // the itinerary's version (ETag) after the change
+  details?: Record<string, unknown>; // e.g. { day, activityId }
+  snapshot: ItinerarySnapshot;
+  createdAt?: Date;
+}
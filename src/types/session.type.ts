@@ -0,0 +1,28 @@
+export type SessionRevokedReason =
+  | "logout"
+  | "logout-all"
+  | "revoked"
+  | "token-reuse"
+  | "password-reset"
+  | "password-change"
+  | "account-deleted"
+  | "account-claimed";
+
+/**
+ * A logged-in device. Each session is one refresh token family: the token is
+ * rotated on every refresh, and the hashes of rotated tokens are kept so that
+ * replaying one can be detected.
+ */
+export interface ISession {
+  userId: string;
+  tokenHash: string; // current refresh token
+  rotatedTokenHashes: string[];
+  userAgent?: string;
+  ip?: string;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date | null;
+  revokedReason?: SessionRevokedReason;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
@@ -0,0 +1,16 @@
+/**
+ * A public read-only link to an itinerary. Anyone with the token can view the
+ * sanitized itinerary until the link is revoked or expires.
+ */
+export interface IShareLink {
+  token: string;
+  itineraryId: string;
+  userId: string; // owner who created the link
+  label?: string;
+  expiresAt?: Date | null; // null never expires
+  revokedAt?: Date | null;
+  viewCount: number;
+  lastViewedAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
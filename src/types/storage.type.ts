@@ -0,0 +1,11 @@
+export type StorageDriverName = "local" | "s3";
+
+/**
+ * Where uploaded files live. Keys are relative paths like
+ * "avatars/<userId>/<id>-256.webp"; put() returns the public URL.
+ */
+export interface StorageAdapter {
+  name: StorageDriverName;
+  put(key: string, body: Buffer, contentType: string): Promise<string>;
+  delete(key: string): Promise<void>;
+}
@@ -1,4 +1,5 @@
 import { ObjectId } from "mongodb";
+import { IOAuthIdentity } from "./oauth.type";
 
 export interface IUser {
   _id?: ObjectId | string;
@@ -6,12 +7,26 @@ export interface IUser {
   lastName: string;
   email: string;
   password: string;
-  avatar: string;
+  avatar: string; // URL of the largest avatar variant, or an external URL
+  avatarVariants?: Partial<Record<"small" | "medium" | "large", string>>;
+  avatarStorageKeys?: string[]; // uploaded files backing the avatar
   resetPasswordToken: string | null;
   resetPasswordExpires: Date | null;
   verificationToken: string | null;
   verificationTokenExpires: Date | null;
   isVerified: boolean;
+  identities?: IOAuthIdentity[]; // linked social/OIDC logins
+  twoFactorEnabled?: boolean;
+  twoFactorSecret?: string | null; // encrypted TOTP secret
+  twoFactorPendingSecret?: string | null; // encrypted, until enrollment is confirmed
+  twoFactorRecoveryCodes?: string[]; // SHA-256 hashes of unused codes
+  twoFactorLastCounter?: number | null; // last accepted TOTP step, to block replays
+  pendingEmail?: string | null; // new address awaiting confirmation
+  emailChangeToken?: string | null;
+  emailChangeTokenExpires?: Date | null;
+  preferredCurrency?: string; // ISO 4217 code used to display budgets
+  deletionRequestedAt?: Date | null;
+  deletionScheduledFor?: Date | null; // purged after this, unless restored
   createdAt?: Date;
   updatedAt?: Date;
 }
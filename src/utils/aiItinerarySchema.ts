@@ -0,0 +1,378 @@
+import crypto from "crypto";
+import {
+  IActivity,
+  IDayItinerary,
+  IItineraryDiff,
+  ItineraryChange,
+} from "../types/itinerary.type";
+
+export const ACTIVITY_CATEGORIES: IActivity["category"][] = [
+  "attraction",
+  "dining",
+  "accommodation",
+  "transport",
+  "shopping",
+  "activity",
+];
+
+const ACTIVITY_JSON_SCHEMA = `{
+  "name": string,
+  "description": string,
+  "time": string ("HH:MM", 24-hour),
+  "duration": number (minutes),
+  "category": ${ACTIVITY_CATEGORIES.map((c) => `"${c}"`).join(" | ")},
+  "estimatedCost": number,
+  "location": { "name": string, "latitude": number, "longitude": number },
+  "notes": string
+}`;
+
+const indent = (text: string, spaces: number) =>
+  text.replace(/\n/g, `\n${" ".repeat(spaces)}`);
+
+/**
+ * JSON shape the model is asked to return. Mirrors IDayItinerary/IActivity,
+ * minus the fields the server fills in itself (ids, dates, weather).
+ */
+export const ITINERARY_JSON_SCHEMA = `{
+  "summary": string,
+  "tips": string,
+  "days": [
+    {
+      "day": number (1-based),
+      "activities": [
+        ${indent(ACTIVITY_JSON_SCHEMA, 8)}
+      ]
+    }
+  ]
+}`;
+
+/**
+ * JSON shape for a list of activities (single-day regeneration and alternatives)
+ */
+export const ACTIVITIES_JSON_SCHEMA = `{
+  "activities": [
+    ${indent(ACTIVITY_JSON_SCHEMA, 4)}
+  ]
+}`;
+
+/**
+ * JSON shape for a refinement chat reply: a message for the user plus the
+ * changes to apply. "update" only needs the fields that change.
+ */
+export const ITINERARY_DIFF_JSON_SCHEMA = `{
+  "reply": string,
+  "changes": [
+    { "op": "add", "day": number, "activity": ${indent(ACTIVITY_JSON_SCHEMA, 4)} }
+    | { "op": "update", "day": number, "activityId": string, "activity": { ...only the changed activity fields } }
+    | { "op": "remove", "day": number, "activityId": string }
+  ]
+}`;
+
+export interface AIItineraryResult {
+  summary: string;
+  tips: string;
+  dayActivities: IActivity[][];
+}
+
+/**
+ * Pull a JSON object out of a model response. Handles markdown code fences,
+ * leading/trailing prose and trailing commas. Returns undefined if nothing parses.
+ */
+export const extractJSON = (text: string): unknown => {
+  const candidates: string[] = [text.trim()];
+
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  if (fenced) candidates.push(fenced[1].trim());
+
+  const first = text.indexOf("{");
+  const last = text.lastIndexOf("}");
+  if (first !== -1 && last > first) candidates.push(text.slice(first, last + 1));
+
+  for (const candidate of candidates) {
+    for (const source of [candidate, candidate.replace(/,\s*([}\]])/g, "$1")]) {
+      try {
+        return JSON.parse(source);
+      } catch {
+        // try next candidate
+      }
+    }
+  }
+
+  return undefined;
+};
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === "string" && value.trim().length > 0;
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+const normalizeTime = (value: unknown): string | undefined => {
+  if (typeof value !== "string") return undefined;
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return undefined;
+
+  const hours = parseInt(match[1]);
+  const minutes = parseInt(match[2]);
+  if (hours > 23 || minutes > 59) return undefined;
+
+  return `${String(hours).padStart(2, "0")}:${match[2]}`;
+};
+
+/**
+ * Validate raw activity objects from the model and convert them to IActivity.
+ * Activities missing a name or a usable time are dropped and reported.
+ */
+export const validateAIActivities = (
+  rawActivities: unknown[],
+  path: string,
+  destination: string
+): { activities: IActivity[]; errors: string[] } => {
+  const errors: string[] = [];
+  const activities: IActivity[] = [];
+
+  rawActivities.forEach((raw: any, activityIndex: number) => {
+    const itemPath = `${path}[${activityIndex}]`;
+    const time = normalizeTime(raw?.time);
+
+    if (!isNonEmptyString(raw?.name)) errors.push(`${itemPath}.name is required`);
+    if (!time) errors.push(`${itemPath}.time must be "HH:MM"`);
+    if (!isFiniteNumber(raw?.duration) || raw.duration <= 0) {
+      errors.push(`${itemPath}.duration must be a positive number of minutes`);
+    }
+    if (!ACTIVITY_CATEGORIES.includes(raw?.category)) {
+      errors.push(`${itemPath}.category must be one of ${ACTIVITY_CATEGORIES.join(", ")}`);
+    }
+    if (raw?.estimatedCost !== undefined && !isFiniteNumber(raw.estimatedCost)) {
+      errors.push(`${itemPath}.estimatedCost must be a number`);
+    }
+    if (!raw || !isNonEmptyString(raw.name) || !time) return;
+
+    const latitude = raw.location?.latitude;
+    const longitude = raw.location?.longitude;
+    const hasCoordinates =
+      isFiniteNumber(latitude) &&
+      isFiniteNumber(longitude) &&
+      Math.abs(latitude) <= 90 &&
+      Math.abs(longitude) <= 180;
+
+    activities.push({
+      id: crypto.randomUUID(),
+      name: raw.name.trim(),
+      description: isNonEmptyString(raw.description) ? raw.description.trim() : raw.name.trim(),
+      time,
+      duration: isFiniteNumber(raw.duration) && raw.duration > 0 ? Math.round(raw.duration) : 120,
+      // AI coordinates are only a hint; geocoding decides the final position
+      location: {
+        name: isNonEmptyString(raw.location?.name) ? raw.location.name.trim() : destination,
+        ...(hasCoordinates && { latitude, longitude }),
+      },
+      category: raw.category,
+      estimatedCost: isFiniteNumber(raw.estimatedCost) ? raw.estimatedCost : 0,
+      notes: typeof raw.notes === "string" ? raw.notes : "",
+    });
+  });
+
+  return { activities, errors };
+};
+
+/**
+ * Validate a parsed model response against ITINERARY_JSON_SCHEMA and convert it
+ * into activities. Collects every problem so they can be sent back to the model.
+ */
+export const validateAIItinerary = (
+  data: unknown,
+  numberOfDays: number,
+  destination: string
+): { result?: AIItineraryResult; errors: string[] } => {
+  const errors: string[] = [];
+
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    return { errors: ["Response must be a JSON object"] };
+  }
+
+  const { summary, tips, days } = data as Record<string, unknown>;
+
+  if (typeof summary !== "string") errors.push(`"summary" must be a string`);
+  if (tips !== undefined && typeof tips !== "string") {
+    errors.push(`"tips" must be a string`);
+  }
+  if (!Array.isArray(days)) {
+    return { errors: [...errors, `"days" must be an array`] };
+  }
+  if (days.length !== numberOfDays) {
+    errors.push(`"days" must contain exactly ${numberOfDays} entries, got ${days.length}`);
+  }
+
+  const dayActivities: IActivity[][] = Array(numberOfDays)
+    .fill(null)
+    .map(() => []);
+
+  days.forEach((rawDay: any, dayIndex: number) => {
+    const dayNumber = isFiniteNumber(rawDay?.day) ? rawDay.day : dayIndex + 1;
+    if (dayNumber < 1 || dayNumber > numberOfDays) {
+      errors.push(`days[${dayIndex}].day must be between 1 and ${numberOfDays}`);
+      return;
+    }
+    if (!Array.isArray(rawDay?.activities)) {
+      errors.push(`days[${dayIndex}].activities must be an array`);
+      return;
+    }
+
+    const parsed = validateAIActivities(
+      rawDay.activities,
+      `days[${dayIndex}].activities`,
+      destination
+    );
+    errors.push(...parsed.errors);
+    dayActivities[dayNumber - 1].push(...parsed.activities);
+  });
+
+  if (errors.length > 0) return { errors };
+
+  return {
+    result: {
+      summary: (summary as string).trim(),
+      tips: typeof tips === "string" ? tips.trim() : "",
+      dayActivities,
+    },
+    errors,
+  };
+};
+
+/**
+ * Validate a parsed model response against ACTIVITIES_JSON_SCHEMA
+ */
+export const validateAIActivityList = (
+  data: unknown,
+  destination: string
+): { result?: IActivity[]; errors: string[] } => {
+  const activities = (data as Record<string, unknown> | null)?.activities;
+
+  if (!Array.isArray(activities)) {
+    return { errors: [`"activities" must be an array`] };
+  }
+  if (activities.length === 0) {
+    return { errors: [`"activities" must not be empty`] };
+  }
+
+  const parsed = validateAIActivities(activities, "activities", destination);
+  if (parsed.errors.length > 0) return { errors: parsed.errors };
+
+  return { result: parsed.activities, errors: [] };
+};
+
+/**
+ * Validate a parsed refinement reply against ITINERARY_DIFF_JSON_SCHEMA.
+ * Days and activity ids must exist in the current itinerary.
+ */
+export const validateAIItineraryDiff = (
+  data: unknown,
+  dayItineraries: IDayItinerary[],
+  destination: string
+): { result?: IItineraryDiff; errors: string[] } => {
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    return { errors: ["Response must be a JSON object"] };
+  }
+
+  const { reply, changes } = data as Record<string, unknown>;
+  const errors: string[] = [];
+  const result: ItineraryChange[] = [];
+
+  if (!isNonEmptyString(reply)) errors.push(`"reply" must be a non-empty string`);
+  if (!Array.isArray(changes)) {
+    return { errors: [...errors, `"changes" must be an array`] };
+  }
+
+  changes.forEach((raw: any, index: number) => {
+    const path = `changes[${index}]`;
+    const day = dayItineraries.find((d) => d.day === raw?.day);
+
+    if (!day) {
+      errors.push(`${path}.day must be one of ${dayItineraries.map((d) => d.day).join(", ")}`);
+      return;
+    }
+
+    if (raw.op === "add") {
+      const parsed = validateAIActivities([raw.activity], `${path}.activity`, destination);
+      errors.push(...parsed.errors);
+      if (parsed.activities[0]) {
+        result.push({ op: "add", day: day.day, activity: parsed.activities[0] });
+      }
+      return;
+    }
+
+    if (raw.op !== "update" && raw.op !== "remove") {
+      errors.push(`${path}.op must be "add", "update" or "remove"`);
+      return;
+    }
+
+    if (!day.activities.some((a) => a.id === raw.activityId)) {
+      errors.push(`${path}.activityId "${raw.activityId}" does not exist on day ${day.day}`);
+      return;
+    }
+
+    if (raw.op === "remove") {
+      result.push({ op: "remove", day: day.day, activityId: raw.activityId });
+      return;
+    }
+
+    const fields = raw.activity;
+    if (!fields || typeof fields !== "object") {
+      errors.push(`${path}.activity must be an object`);
+      return;
+    }
+
+    const update: Partial<Omit<IActivity, "id">> = {};
+    if (fields.name !== undefined) {
+      if (isNonEmptyString(fields.name)) update.name = fields.name.trim();
+      else errors.push(`${path}.activity.name must be a non-empty string`);
+    }
+    if (fields.description !== undefined) {
+      if (typeof fields.description === "string") update.description = fields.description;
+      else errors.push(`${path}.activity.description must be a string`);
+    }
+    if (fields.time !== undefined) {
+      const time = normalizeTime(fields.time);
+      if (time) update.time = time;
+      else errors.push(`${path}.activity.time must be "HH:MM"`);
+    }
+    if (fields.duration !== undefined) {
+      if (isFiniteNumber(fields.duration) && fields.duration > 0) {
+        update.duration = Math.round(fields.duration);
+      } else {
+        errors.push(`${path}.activity.duration must be a positive number of minutes`);
+      }
+    }
+    if (fields.category !== undefined) {
+      if (ACTIVITY_CATEGORIES.includes(fields.category)) update.category = fields.category;
+      else errors.push(`${path}.activity.category must be one of ${ACTIVITY_CATEGORIES.join(", ")}`);
+    }
+    if (fields.estimatedCost !== undefined) {
+      if (isFiniteNumber(fields.estimatedCost)) update.estimatedCost = fields.estimatedCost;
+      else errors.push(`${path}.activity.estimatedCost must be a number`);
+    }
+    if (fields.notes !== undefined && typeof fields.notes === "string") {
+      update.notes = fields.notes;
+    }
+    if (fields.location !== undefined) {
+      const { name, latitude, longitude } = fields.location || {};
+      if (isNonEmptyString(name) && isFiniteNumber(latitude) && isFiniteNumber(longitude)) {
+        update.location = { name: name.trim(), latitude, longitude };
+      } else {
+        errors.push(`${path}.activity.location needs name, latitude and longitude`);
+      }
+    }
+
+    if (Object.keys(update).length === 0) {
+      errors.push(`${path}.activity has no fields to update`);
+      return;
+    }
+
+    result.push({ op: "update", day: day.day, activityId: raw.activityId, activity: update });
+  });
+
+  if (errors.length > 0) return { errors };
+
+  return { result: { summary: (reply as string).trim(), changes: result }, errors };
+};
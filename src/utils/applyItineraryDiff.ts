@@ -0,0 +1,62 @@
+import { AppError } from "../middleware/errorMiddleware";
+import { IDayItinerary, IItineraryDiff } from "../types/itinerary.type";
+
+/**
+ * Apply a diff to a copy of an itinerary's days. Throws DIFF_CONFLICT if the
+ * diff no longer matches the days (e.g. an activity was deleted since).
+ */
+export const applyItineraryDiff = (
+  dayItineraries: IDayItinerary[],
+  diff: IItineraryDiff
+): IDayItinerary[] => {
+  const days: IDayItinerary[] = dayItineraries.map((d) => ({
+    day: d.day,
+    date: d.date,
+    weather: d.weather,
+    summary: d.summary,
+    activities: d.activities.map((a) => ({ ...a, location: { ...a.location } })),
+  }));
+
+  const changedDays = new Set<IDayItinerary>();
+
+  for (const change of diff.changes) {
+    const day = days.find((d) => d.day === change.day);
+    if (!day) {
+      throw new AppError(
+        `Day ${change.day} no longer exists in this itinerary`,
+        409,
+        "DIFF_CONFLICT"
+      );
+    }
+
+    changedDays.add(day);
+
+    if (change.op === "add") {
+      day.activities.push({ ...change.activity });
+      continue;
+    }
+
+    const index = day.activities.findIndex((a) => a.id === change.activityId);
+    if (index === -1) {
+      throw new AppError(
+        `Activity ${change.activityId} no longer exists on day ${change.day}`,
+        409,
+        "DIFF_CONFLICT"
+      );
+    }
+
+    if (change.op === "remove") {
+      day.activities.splice(index, 1);
+    } else {
+      day.activities[index] = { ...day.activities[index], ...change.activity };
+    }
+  }
+
+  // Keep changed days in time order and their summaries in sync
+  for (const day of changedDays) {
+    day.activities.sort((a, b) => a.time.localeCompare(b.time));
+    day.summary = day.activities.map((a) => a.name).join(" • ");
+  }
+
+  return days;
+};
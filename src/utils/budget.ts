@@ -0,0 +1,161 @@
+import { CurrencyConverter } from "../types/currency.type";
+import { ExpenseCategory, IItinerary } from "../types/itinerary.type";
+
+export interface BudgetTotals {
+  estimated: number; // sum of activity estimates
+  actual: number; // sum of logged expenses
+  projected: number; // actual where logged, estimate otherwise
+}
+
+export interface DayBudget extends BudgetTotals {
+  day: number;
+  date: Date;
+  overBudget: boolean; // projected spend above the daily allowance
+}
+
+export interface BudgetSummary {
+  currency: string; // all amounts below are in this currency
+  budget: number | null;
+  dailyAllowance: number | null;
+  totals: BudgetTotals;
+  remaining: number | null;
+  overBudget: boolean;
+  byDay: DayBudget[];
+  byCategory: Partial<Record<ExpenseCategory, BudgetTotals>>;
+  overBudgetDays: number[];
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Amounts are already in the itinerary's currency when no converter is given
+const identityConverter = (currency: string): CurrencyConverter => ({
+  currency,
+  convert: (amount) => amount,
+});
+
+const emptyTotals = (): BudgetTotals => ({ estimated: 0, actual: 0, projected: 0 });
+
+const addTotals = (target: BudgetTotals, source: BudgetTotals) => {
+  target.estimated += source.estimated;
+  target.actual += source.actual;
+  target.projected += source.projected;
+};
+
+const roundTotals = (totals: BudgetTotals): BudgetTotals => ({
+  estimated: round(totals.estimated),
+  actual: round(totals.actual),
+  projected: round(totals.projected),
+});
+
+/**
+ * Add up estimated and actual spending per day and per category.
+ *
+ * An activity with expenses logged against it counts its actual cost in the
+ * projection instead of its estimate; expenses not tied to an activity are
+ * added to their day. Days are over budget when their projected spend is above
+ * an even split of the budget across the trip.
+ *
+ * Costs and expenses may each be in their own currency (defaulting to the
+ * itinerary's); everything is converted into `converter.currency`.
+ */
+export const summarizeBudget = (
+  itinerary: Pick<IItinerary, "budget" | "currency" | "dayItineraries" | "expenses">,
+  converter?: CurrencyConverter
+): BudgetSummary => {
+  const homeCurrency = itinerary.currency || "USD";
+  const { currency, convert } = converter || identityConverter(homeCurrency);
+
+  const expenses = (itinerary.expenses || []).map((e) => ({
+    day: e.day,
+    activityId: e.activityId,
+    category: e.category,
+    amount: convert(e.amount, e.currency || homeCurrency),
+  }));
+  const budget =
+    itinerary.budget !== undefined && itinerary.budget !== null
+      ? convert(itinerary.budget, homeCurrency)
+      : null;
+  const dayCount = itinerary.dayItineraries.length;
+  const dailyAllowance = budget !== null && dayCount > 0 ? budget / dayCount : null;
+
+  const activityIds = new Set(
+    itinerary.dayItineraries.flatMap((d) => d.activities.map((a) => a.id))
+  );
+  const byCategory: Partial<Record<ExpenseCategory, BudgetTotals>> = {};
+  const totals = emptyTotals();
+
+  const addToCategory = (category: ExpenseCategory, amounts: BudgetTotals) => {
+    byCategory[category] = byCategory[category] || emptyTotals();
+    addTotals(byCategory[category]!, amounts);
+  };
+
+  const byDay: DayBudget[] = itinerary.dayItineraries.map((day) => {
+    const dayTotals = emptyTotals();
+
+    for (const activity of day.activities) {
+      const logged = expenses.filter((e) => e.activityId === activity.id);
+      const estimated = convert(activity.estimatedCost || 0, activity.currency || homeCurrency);
+      const actual = logged.reduce((sum, e) => sum + e.amount, 0);
+      const amounts = {
+        estimated,
+        actual,
+        projected: logged.length > 0 ? actual : estimated,
+      };
+
+      addTotals(dayTotals, amounts);
+      addToCategory(activity.category, amounts);
+    }
+
+    // Expenses without a (still existing) activity
+    for (const expense of expenses) {
+      if (expense.day !== day.day) continue;
+      if (expense.activityId && activityIds.has(expense.activityId)) continue;
+
+      const amounts = { estimated: 0, actual: expense.amount, projected: expense.amount };
+      addTotals(dayTotals, amounts);
+      addToCategory(expense.category, amounts);
+    }
+
+    addTotals(totals, dayTotals);
+
+    return {
+      day: day.day,
+      date: day.date,
+      ...roundTotals(dayTotals),
+      overBudget: dailyAllowance !== null && dayTotals.projected > dailyAllowance,
+    };
+  });
+
+  for (const category of Object.keys(byCategory) as ExpenseCategory[]) {
+    byCategory[category] = roundTotals(byCategory[category]!);
+  }
+
+  return {
+    currency,
+    budget,
+    dailyAllowance: dailyAllowance !== null ? round(dailyAllowance) : null,
+    totals: roundTotals(totals),
+    remaining: budget !== null ? round(budget - totals.projected) : null,
+    overBudget: budget !== null && totals.projected > budget,
+    byDay,
+    byCategory,
+    overBudgetDays: byDay.filter((d) => d.overBudget).map((d) => d.day),
+  };
+};
+
+/**
+ * Warning for add/update responses when a change pushes projected spending
+ * over the trip budget (or further over it)
+ */
+export const getBudgetWarning = (before: BudgetSummary, after: BudgetSummary) => {
+  if (after.budget === null || !after.overBudget) return undefined;
+  if (after.totals.projected <= before.totals.projected) return undefined;
+
+  return {
+    message: `This change puts the trip ${round(after.totals.projected - after.budget)} ${after.currency} over its budget of ${after.budget} ${after.currency}`,
+    currency: after.currency,
+    budget: after.budget,
+    projectedTotal: after.totals.projected,
+    overBy: round(after.totals.projected - after.budget),
+  };
+};
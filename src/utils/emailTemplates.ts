@@ -0,0 +1,127 @@
+export interface EmailContent {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+interface TemplateUser {
+  firstName: string;
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+/**
+ * Shared layout: a greeting, a paragraph, a call-to-action link and a footnote
+ */
+const renderEmail = (options: {
+  subject: string;
+  firstName: string;
+  intro: string;
+  actionLabel: string;
+  actionUrl: string;
+  footnote: string;
+}): EmailContent => {
+  const { subject, firstName, intro, actionLabel, actionUrl, footnote } = options;
+
+  const text = `Hi ${firstName},
+
+${intro}
+
+${actionLabel}: ${actionUrl}
+
+${footnote}
+
+— The WanderWise team`;
+
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="font-family: Arial, sans-serif; color: #1f2937; line-height: 1.5;">
+    <p>Hi ${escapeHtml(firstName)},</p>
+    <p>${escapeHtml(intro)}</p>
+    <p>
+      <a href="${escapeHtml(actionUrl)}" style="display: inline-block; padding: 10px 18px; background: #0ea5e9; color: #ffffff; text-decoration: none; border-radius: 6px;">${escapeHtml(actionLabel)}</a>
+    </p>
+    <p style="font-size: 13px; color: #6b7280;">If the button doesn't work, copy this link into your browser:<br />${escapeHtml(actionUrl)}</p>
+    <p style="font-size: 13px; color: #6b7280;">${escapeHtml(footnote)}</p>
+    <p>— The WanderWise team</p>
+  </body>
+</html>`;
+
+  return { subject, text, html };
+};
+
+export const passwordResetEmail = (
+  user: TemplateUser,
+  resetUrl: string,
+  expiresInHours: number
+): EmailContent =>
+  renderEmail({
+    subject: "Reset your WanderWise password",
+    firstName: user.firstName,
+    intro: "We received a request to reset your WanderWise password.",
+    actionLabel: "Reset password",
+    actionUrl: resetUrl,
+    footnote: `This link expires in ${expiresInHours} hour${expiresInHours === 1 ? "" : "s"}. If you didn't ask for a reset, you can ignore this email.`,
+  });
+
+export const emailChangeEmail = (
+  user: TemplateUser,
+  confirmUrl: string,
+  expiresInHours: number
+): EmailContent =>
+  renderEmail({
+    subject: "Confirm your new WanderWise email",
+    firstName: user.firstName,
+    intro: "You asked to use this address for your WanderWise account. Please confirm it to finish the change.",
+    actionLabel: "Confirm email",
+    actionUrl: confirmUrl,
+    footnote: `This link expires in ${expiresInHours} hours. Until then you can keep logging in with your current email. If you didn't ask for this, you can ignore this email.`,
+  });
+
+export const verificationEmail = (
+  user: TemplateUser,
+  verifyUrl: string,
+  expiresInHours: number
+): EmailContent =>
+  renderEmail({
+    subject: "Verify your WanderWise email",
+    firstName: user.firstName,
+    intro: "Thanks for signing up! Please confirm your email address to finish setting up your account.",
+    actionLabel: "Verify email",
+    actionUrl: verifyUrl,
+    footnote: `This link expires in ${expiresInHours} hours. If you didn't create an account, you can ignore this email.`,
+  });
+
+export const accountLockedEmail = (
+  user: TemplateUser,
+  resetUrl: string,
+  lockoutMinutes: number
+): EmailContent =>
+  renderEmail({
+    subject: "Your WanderWise account was temporarily locked",
+    firstName: user.firstName,
+    intro: `There were several failed attempts to log in to your WanderWise account, so logins are paused for ${lockoutMinutes} minutes.`,
+    actionLabel: "Reset password",
+    actionUrl: resetUrl,
+    footnote: "If this was you, you can try again later or reset your password. If it wasn't, we recommend resetting your password and turning on two-factor authentication.",
+  });
+
+export const collaboratorInviteEmail = (
+  user: TemplateUser,
+  invite: { inviterName: string; destination: string; role: string },
+  inviteUrl: string,
+  expiresInDays: number
+): EmailContent =>
+  renderEmail({
+    subject: `${invite.inviterName} invited you to plan a trip to ${invite.destination}`,
+    firstName: user.firstName,
+    intro: `${invite.inviterName} invited you to their WanderWise trip to ${invite.destination} as ${invite.role === "editor" ? "an editor" : "a viewer"}.`,
+    actionLabel: "View invitation",
+    actionUrl: inviteUrl,
+    footnote: `This invitation expires in ${expiresInDays} days. You'll need to log in (or sign up) with this email address to accept it.`,
+  });
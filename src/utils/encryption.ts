@@ -0,0 +1,28 @@
+import crypto from "crypto";
+
+// AES-256-GCM for secrets we must be able to read back (e.g. TOTP secrets)
+
+const getKey = () =>
+  crypto
+    .createHash("sha256")
+    .update(process.env.ENCRYPTION_KEY || process.env.JWT_SECRET || "")
+    .digest();
+
+/**
+ * Encrypt to "iv.authTag.ciphertext", each part base64url
+ */
+export const encryptSecret = (plaintext: string): string => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), ciphertext].map((b) => b.toString("base64url")).join(".");
+};
+
+export const decryptSecret = (encrypted: string): string => {
+  const [iv, authTag, ciphertext] = encrypted.split(".").map((p) => Buffer.from(p, "base64url"));
+  const decipher = crypto.createDecipheriv("aes-256-gcm", getKey(), iv);
+  decipher.setAuthTag(authTag);
+
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString("utf8");
+};
@@ -0,0 +1,19 @@
+/**
+ * Strong ETag for a document version
+ */
+export const toETag = (version: number): string => `"${version}"`;
+
+/**
+ * Versions listed in an If-Match header. "*" matches any version; weak or
+ * foreign tags are dropped, so they never match. Undefined without a header.
+ */
+export const parseIfMatch = (header: string | undefined): number[] | "*" | undefined => {
+  if (!header) return undefined;
+  if (header.trim() === "*") return "*";
+
+  return header
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter((tag) => /^"\d+"$/.test(tag))
+    .map((tag) => Number(tag.slice(1, -1)));
+};
@@ -0,0 +1,142 @@
+import { IDayItinerary, IItinerary } from "../types/itinerary.type";
+import { estimateTravelMinutes } from "./routeOptimizer";
+import { parseTimeToMinutes } from "./time";
+
+export type FeasibilityIssueCode =
+  | "INVALID_TIME"
+  | "OVERLAP"
+  | "IMPOSSIBLE_TRAVEL"
+  | "DAY_TOO_LONG"
+  | "PAST_MIDNIGHT"
+  | "OUTSIDE_TRIP_DATES";
+
+export interface FeasibilityIssue {
+  code: FeasibilityIssueCode;
+  severity: "error" | "warning";
+  day: number;
+  activityIds: string[];
+  message: string;
+}
+
+export interface FeasibilityOptions {
+  maxActiveHours: number; // first start to last end, per day
+  speedKmh?: number; // average travel speed between stops
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDayIndex = (date: Date | string) => Math.floor(new Date(date).getTime() / DAY_MS);
+
+/**
+ * Check one day's schedule: unparseable times, overlaps, travel that can't fit
+ * between consecutive activities, days longer than the active-hours limit and
+ * activities running past midnight.
+ */
+export const checkDayFeasibility = (
+  day: IDayItinerary,
+  options: FeasibilityOptions
+): FeasibilityIssue[] => {
+  const issues: FeasibilityIssue[] = [];
+
+  const timed = day.activities
+    .map((activity) => ({ activity, start: parseTimeToMinutes(activity.time) }))
+    .filter(({ activity, start }) => {
+      if (start !== undefined) return true;
+      issues.push({
+        code: "INVALID_TIME",
+        severity: "error",
+        day: day.day,
+        activityIds: [activity.id],
+        message: `"${activity.name}" has an invalid time "${activity.time}" (expected HH:MM)`,
+      });
+      return false;
+    })
+    .map(({ activity, start }) => ({ activity, start: start!, end: start! + activity.duration }))
+    .sort((a, b) => a.start - b.start);
+
+  for (let i = 0; i < timed.length; i++) {
+    const current = timed[i];
+
+    if (current.end > 24 * 60) {
+      issues.push({
+        code: "PAST_MIDNIGHT",
+        severity: "warning",
+        day: day.day,
+        activityIds: [current.activity.id],
+        message: `"${current.activity.name}" runs past midnight`,
+      });
+    }
+
+    // Compare with every later activity that starts before this one ends
+    for (let j = i + 1; j < timed.length && timed[j].start < current.end; j++) {
+      issues.push({
+        code: "OVERLAP",
+        severity: "error",
+        day: day.day,
+        activityIds: [current.activity.id, timed[j].activity.id],
+        message: `"${current.activity.name}" (${current.activity.time}) overlaps "${timed[j].activity.name}" (${timed[j].activity.time})`,
+      });
+    }
+
+    const next = timed[i + 1];
+    if (!next) continue;
+
+    const gap = next.start - current.end;
+    const travel = estimateTravelMinutes(current.activity, next.activity, options.speedKmh);
+    if (gap >= 0 && travel > gap) {
+      issues.push({
+        code: "IMPOSSIBLE_TRAVEL",
+        severity: "error",
+        day: day.day,
+        activityIds: [current.activity.id, next.activity.id],
+        message: `Getting from "${current.activity.name}" to "${next.activity.name}" takes about ${travel} minutes but only ${gap} are planned`,
+      });
+    }
+  }
+
+  if (timed.length > 0) {
+    const activeMinutes =
+      Math.max(...timed.map((t) => t.end)) - Math.min(...timed.map((t) => t.start));
+
+    if (activeMinutes > options.maxActiveHours * 60) {
+      issues.push({
+        code: "DAY_TOO_LONG",
+        severity: "warning",
+        day: day.day,
+        activityIds: timed.map((t) => t.activity.id),
+        message: `Day ${day.day} is active for ${Math.round((activeMinutes / 60) * 10) / 10} hours, over the ${options.maxActiveHours} hour limit`,
+      });
+    }
+  }
+
+  return issues;
+};
+
+/**
+ * Check every day of an itinerary, plus days (and so their activities) that
+ * fall outside the trip's start and end dates.
+ */
+export const checkItineraryFeasibility = (
+  itinerary: Pick<IItinerary, "startDate" | "endDate" | "dayItineraries">,
+  options: FeasibilityOptions
+): FeasibilityIssue[] => {
+  const first = toDayIndex(itinerary.startDate);
+  const last = toDayIndex(itinerary.endDate);
+
+  return itinerary.dayItineraries.flatMap((day) => {
+    const issues = checkDayFeasibility(day, options);
+    const dayIndex = toDayIndex(day.date);
+
+    if ((dayIndex < first || dayIndex > last) && day.activities.length > 0) {
+      issues.push({
+        code: "OUTSIDE_TRIP_DATES",
+        severity: "error",
+        day: day.day,
+        activityIds: day.activities.map((a) => a.id),
+        message: `Day ${day.day} (${new Date(day.date).toISOString().split("T")[0]}) is outside the trip dates`,
+      });
+    }
+
+    return issues;
+  });
+};
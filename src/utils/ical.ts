@@ -0,0 +1,145 @@
+import { IActivity, IItinerary } from "../types/itinerary.type";
+import { parseTimeToMinutes } from "./time";
+
+const PRODUCT_ID = "-//WanderWise//Itinerary Calendar//EN";
+const MAX_LINE_OCTETS = 75;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CalendarOptions {
+  itineraryId: string;
+  version?: number; // sent as SEQUENCE so apps replace events that changed
+  refreshMinutes?: number; // for subscribed feeds: how often apps should re-fetch
+}
+
+const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+
+// TEXT values escape backslashes, separators and newlines (RFC 5545 3.3.11)
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+/**
+ * Split a content line into 75-octet pieces, continued with a leading space.
+ * Multi-byte characters are never split.
+ */
+const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+};
+
+const formatDate = (date: Date) =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`;
+
+// Without a trailing Z this is a "floating" time: the same wall-clock time in any zone
+const formatLocalDateTime = (date: Date) =>
+  `${formatDate(date)}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}00`;
+
+const formatUtcDateTime = (date: Date) => `${formatLocalDateTime(date)}Z`;
+
+/**
+ * One VEVENT for an activity. It starts at the day's date plus the activity's
+ * time and lasts its duration; activities without a valid time become
+ * all-day events.
+ */
+const activityEvent = (
+  activity: IActivity,
+  date: Date | string,
+  options: CalendarOptions,
+  stamp: string,
+  lastModified?: Date
+): string[] => {
+  const day = new Date(date);
+  const midnight = Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate());
+  const startMinutes = parseTimeToMinutes(activity.time);
+
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${options.itineraryId}-${activity.id}@wanderwise`,
+    `DTSTAMP:${stamp}`,
+  ];
+
+  if (startMinutes === undefined) {
+    lines.push(
+      `DTSTART;VALUE=DATE:${formatDate(new Date(midnight))}`,
+      `DTEND;VALUE=DATE:${formatDate(new Date(midnight + DAY_MS))}`
+    );
+  } else {
+    const start = midnight + startMinutes * 60 * 1000;
+    lines.push(`DTSTART:${formatLocalDateTime(new Date(start))}`);
+    if (activity.duration > 0) {
+      lines.push(`DTEND:${formatLocalDateTime(new Date(start + activity.duration * 60 * 1000))}`);
+    }
+  }
+
+  lines.push(`SUMMARY:${escapeText(activity.name)}`);
+  if (activity.description) lines.push(`DESCRIPTION:${escapeText(activity.description)}`);
+  if (activity.location?.name) lines.push(`LOCATION:${escapeText(activity.location.name)}`);
+  if (activity.location?.latitude !== undefined && activity.location?.longitude !== undefined) {
+    lines.push(`GEO:${activity.location.latitude};${activity.location.longitude}`);
+  }
+  lines.push(`CATEGORIES:${activity.category.toUpperCase()}`);
+  if (options.version !== undefined) lines.push(`SEQUENCE:${options.version}`);
+  if (lastModified) lines.push(`LAST-MODIFIED:${formatUtcDateTime(new Date(lastModified))}`);
+  lines.push("END:VEVENT");
+
+  return lines;
+};
+
+/**
+ * An RFC 5545 calendar with one event per activity. Times are floating (no
+ * time zone), so they show at the planned local time of the destination.
+ */
+export const buildItineraryCalendar = (
+  itinerary: Pick<IItinerary, "destination" | "dayItineraries" | "updatedAt">,
+  options: CalendarOptions
+): string => {
+  const stamp = formatUtcDateTime(new Date());
+  const name = `Trip to ${itinerary.destination}`;
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `NAME:${escapeText(name)}`,
+    `X-WR-CALNAME:${escapeText(name)}`,
+  ];
+
+  if (options.refreshMinutes) {
+    lines.push(
+      `REFRESH-INTERVAL;VALUE=DURATION:PT${options.refreshMinutes}M`,
+      `X-PUBLISHED-TTL:PT${options.refreshMinutes}M`
+    );
+  }
+
+  for (const day of itinerary.dayItineraries) {
+    for (const activity of day.activities) {
+      lines.push(...activityEvent(activity, day.date, options, stamp, itinerary.updatedAt));
+    }
+  }
+
+  lines.push("END:VCALENDAR");
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+};
@@ -0,0 +1,133 @@
+import fs from "fs";
+import path from "path";
+import { AIRequestType, LLMCompletionRequest } from "../types/llm.type";
+
+type FixtureResponder = (request: LLMCompletionRequest) => string;
+
+const FIXTURE_DAY = [
+  { time: "09:00", duration: 180, category: "attraction", name: "Old Town Walking Tour", cost: 20 },
+  { time: "12:30", duration: 60, category: "dining", name: "Lunch at Central Market", cost: 15 },
+  { time: "14:30", duration: 120, category: "activity", name: "City Museum", cost: 12 },
+  { time: "19:00", duration: 90, category: "dining", name: "Dinner at Harbour Bistro", cost: 35 },
+];
+
+/**
+ * Deterministic itinerary shaped like ITINERARY_JSON_SCHEMA, built from the request context
+ */
+const itineraryFixture: FixtureResponder = ({ context = {} }) => {
+  const destination: string = context.destination || "Destination";
+  const numberOfDays: number = context.numberOfDays || 1;
+  const latitude: number = context.coordinates?.latitude ?? 0;
+  const longitude: number = context.coordinates?.longitude ?? 0;
+
+  return JSON.stringify({
+    summary: `A ${numberOfDays}-day trip to ${destination}.`,
+    tips: "Carry a refillable water bottle and book museums in advance.",
+    days: Array.from({ length: numberOfDays }, (_, dayIndex) => ({
+      day: dayIndex + 1,
+      activities: FIXTURE_DAY.map((item, index) => ({
+        name: `${item.name} (Day ${dayIndex + 1})`,
+        description: `${item.name} in ${destination}`,
+        time: item.time,
+        duration: item.duration,
+        category: item.category,
+        estimatedCost: item.cost,
+        location: {
+          name: `${item.name}, ${destination}`,
+          latitude: latitude + (dayIndex * 4 + index) * 0.001,
+          longitude: longitude + (dayIndex * 4 + index) * 0.001,
+        },
+        notes: "",
+      })),
+    })),
+  });
+};
+
+/**
+ * Deterministic activity list shaped like ACTIVITIES_JSON_SCHEMA: a full day,
+ * or `count` alternatives in the slot of context.replaceActivity
+ */
+const activityFixture: FixtureResponder = ({ context = {} }) => {
+  const destination: string = context.destination || "Destination";
+  const day: number = context.day || 1;
+  const latitude: number = context.coordinates?.latitude ?? 0;
+  const longitude: number = context.coordinates?.longitude ?? 0;
+  const replacing = context.replaceActivity;
+
+  const items = replacing
+    ? Array.from({ length: context.count || 3 }, (_, index) => ({
+        time: replacing.time,
+        duration: replacing.duration,
+        category: "attraction",
+        name: `Alternative ${index + 1} to ${replacing.name}`,
+        cost: 10 * (index + 1),
+      }))
+    : FIXTURE_DAY.map((item) => ({ ...item, name: `${item.name} (Day ${day})` }));
+
+  return JSON.stringify({
+    activities: items.map((item, index) => ({
+      name: item.name,
+      description: `${item.name} in ${destination}`,
+      time: item.time,
+      duration: item.duration,
+      category: item.category,
+      estimatedCost: item.cost,
+      location: {
+        name: `${item.name}, ${destination}`,
+        latitude: latitude + (index + 1) * 0.002,
+        longitude: longitude - (index + 1) * 0.002,
+      },
+      notes: "",
+    })),
+  });
+};
+
+/**
+ * Deterministic refinement reply shaped like ITINERARY_DIFF_JSON_SCHEMA:
+ * shortens the first activity of the first non-empty day
+ */
+const chatFixture: FixtureResponder = ({ context = {} }) => {
+  const days: { day: number; activities: { id: string; duration: number }[] }[] =
+    context.dayItineraries || [];
+  const day = days.find((d) => d.activities.length > 0);
+
+  if (!day) {
+    return JSON.stringify({ reply: "There are no activities to change yet.", changes: [] });
+  }
+
+  const activity = day.activities[0];
+  return JSON.stringify({
+    reply: `I shortened the first activity on day ${day.day} to give you more free time.`,
+    changes: [
+      {
+        op: "update",
+        day: day.day,
+        activityId: activity.id,
+        activity: { duration: Math.max(30, activity.duration - 30), notes: "Relaxed pace" },
+      },
+    ],
+  });
+};
+
+const FIXTURE_RESPONDERS: Record<AIRequestType, FixtureResponder> = {
+  itinerary: itineraryFixture,
+  activity: activityFixture,
+  chat: chatFixture,
+};
+
+/**
+ * Resolve the canned response for a request. A file named `<type>.json` in
+ * AI_FIXTURE_DIR takes precedence over the built-in generators, so tests can
+ * feed malformed output through the repair path.
+ */
+export const getFixtureResponse = (
+  request: LLMCompletionRequest,
+  fixtureDir?: string
+): string => {
+  if (fixtureDir) {
+    const file = path.resolve(fixtureDir, `${request.type}.json`);
+    if (fs.existsSync(file)) return fs.readFileSync(file, "utf8");
+  }
+
+  return FIXTURE_RESPONDERS[request.type](request);
+};
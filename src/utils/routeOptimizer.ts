@@ -0,0 +1,257 @@
+import { IActivity } from "../types/itinerary.type";
+import { haversineDistanceKm } from "./geo";
+import { formatMinutesAsTime, parseTimeToMinutes } from "./time";
+
+const DEFAULT_SPEED_KMH = 20; // mixed walking/transit pace in a city
+const TRAVEL_ROUNDING_MINUTES = 5;
+const MAX_BRUTE_FORCE_ORDERS = 5040; // 7! orders stay fast; beyond that use nearest neighbour
+
+type Located = IActivity & { location: { latitude: number; longitude: number } };
+
+export interface ScheduledActivity {
+  activity: IActivity;
+  start: number; // minutes since midnight
+  travelMinutes: number; // from the previous located stop
+}
+
+export interface RouteSchedule {
+  stops: ScheduledActivity[];
+  totalDistanceKm: number;
+  violations: string[];
+}
+
+const isLocated = (activity: IActivity): activity is Located =>
+  activity.location.latitude !== undefined && activity.location.longitude !== undefined;
+
+/**
+ * Estimated travel time between two activities, rounded up to 5 minutes.
+ * Unlocated activities are treated as zero travel.
+ */
+export const estimateTravelMinutes = (
+  from: IActivity | undefined,
+  to: IActivity,
+  speedKmh = DEFAULT_SPEED_KMH
+): number => {
+  if (!from || !isLocated(from) || !isLocated(to)) return 0;
+  const minutes = (haversineDistanceKm(from.location, to.location) / speedKmh) * 60;
+  return Math.ceil(minutes / TRAVEL_ROUNDING_MINUTES) * TRAVEL_ROUNDING_MINUTES;
+};
+
+/**
+ * Total straight-line distance between consecutive located activities
+ */
+export const totalRouteDistanceKm = (activities: IActivity[]): number => {
+  const located = activities.filter(isLocated);
+  let total = 0;
+  for (let i = 1; i < located.length; i++) {
+    total += haversineDistanceKm(located[i - 1].location, located[i].location);
+  }
+  return Math.round(total * 100) / 100;
+};
+
+/**
+ * Lay out activities in the given order. Fixed activities start at their set
+ * time; the others start as soon as the previous stop ends plus travel,
+ * waiting for opening time if needed.
+ */
+const simulateOrder = (
+  order: IActivity[],
+  isFixed: (activity: IActivity) => boolean,
+  dayStart: number,
+  speedKmh: number
+): RouteSchedule => {
+  const stops: ScheduledActivity[] = [];
+  const violations: string[] = [];
+  let clock = dayStart;
+  let previous: IActivity | undefined;
+
+  for (const activity of order) {
+    const travelMinutes = estimateTravelMinutes(previous, activity, speedKmh);
+    let start: number;
+
+    if (isFixed(activity)) {
+      start = parseTimeToMinutes(activity.time)!;
+      if (clock + travelMinutes > start) {
+        violations.push(`Cannot reach "${activity.name}" by ${activity.time}`);
+      }
+    } else {
+      const open = parseTimeToMinutes(activity.openingHours?.open);
+      const close = parseTimeToMinutes(activity.openingHours?.close);
+      start = Math.max(clock + travelMinutes, open ?? 0);
+
+      if (close !== undefined && start + activity.duration > close) {
+        violations.push(
+          `"${activity.name}" would end after closing time ${activity.openingHours!.close}`
+        );
+      }
+    }
+
+    stops.push({ activity, start, travelMinutes });
+    clock = Math.max(clock + travelMinutes, start) + activity.duration;
+    previous = activity;
+  }
+
+  if (clock > 24 * 60) {
+    violations.push("The day runs past midnight");
+  }
+
+  return {
+    stops,
+    totalDistanceKm: totalRouteDistanceKm(order),
+    violations,
+  };
+};
+
+/**
+ * Split the flexible activities by the fixed ones around them: segment i holds
+ * those that originally started after i fixed activities. Orders only shuffle
+ * activities within a segment, so nothing is moved past a fixed stop (e.g. a
+ * midday visit pushed after a 19:00 dinner because that happens to be shorter).
+ */
+const segmentByFixed = (flexible: IActivity[], fixed: IActivity[]): IActivity[][] => {
+  const segments: IActivity[][] = fixed.map(() => []);
+  segments.push([]);
+
+  for (const activity of flexible) {
+    const start = parseTimeToMinutes(activity.time)!;
+    const index = fixed.filter((f) => parseTimeToMinutes(f.time)! <= start).length;
+    segments[index].push(activity);
+  }
+
+  return segments;
+};
+
+const countOrders = (segments: IActivity[][]) =>
+  segments.reduce((total, segment) => {
+    let orders = 1;
+    for (let n = 2; n <= segment.length; n++) orders *= n;
+    return total * orders;
+  }, 1);
+
+/**
+ * Order for large days: nearest neighbour within each segment, starting from
+ * the last located stop before it.
+ */
+const greedyOrder = (segments: IActivity[][], fixed: IActivity[]): IActivity[] => {
+  const order: IActivity[] = [];
+
+  segments.forEach((segment, index) => {
+    const remaining = [...segment];
+    let last = [...order].reverse().find(isLocated);
+
+    while (remaining.length > 0) {
+      if (last) {
+        const from = last;
+        remaining.sort(
+          (a, b) =>
+            haversineDistanceKm(from.location, (a as Located).location) -
+            haversineDistanceKm(from.location, (b as Located).location)
+        );
+      }
+      last = remaining.shift()! as Located;
+      order.push(last);
+    }
+
+    if (fixed[index]) order.push(fixed[index]);
+  });
+
+  return order;
+};
+
+const isBetter = (candidate: RouteSchedule, best: RouteSchedule | undefined) =>
+  !best ||
+  candidate.violations.length < best.violations.length ||
+  (candidate.violations.length === best.violations.length &&
+    candidate.totalDistanceKm < best.totalDistanceKm);
+
+function* permutations<T>(items: T[]): Generator<T[]> {
+  if (items.length <= 1) {
+    yield items;
+    return;
+  }
+  for (let i = 0; i < items.length; i++) {
+    const rest = [...items.slice(0, i), ...items.slice(i + 1)];
+    for (const tail of permutations(rest)) yield [items[i], ...tail];
+  }
+}
+
+/**
+ * Every order that keeps each segment between its fixed activities
+ */
+function* segmentedOrders(
+  segments: IActivity[][],
+  fixed: IActivity[],
+  index = 0
+): Generator<IActivity[]> {
+  if (index === segments.length) {
+    yield [];
+    return;
+  }
+  for (const head of permutations(segments[index])) {
+    const anchor = fixed[index] ? [fixed[index]] : [];
+    for (const tail of segmentedOrders(segments, fixed, index + 1)) {
+      yield [...head, ...anchor, ...tail];
+    }
+  }
+}
+
+/**
+ * Reorder a day's activities to minimise travel distance.
+ *
+ * Activities with `fixedTime`, and those without coordinates (they can't be
+ * routed), keep their time; the others are reordered between them, staying
+ * on the same side of each fixed activity as before, and retimed from the
+ * day's first start time, their durations and estimated travel. Orders that
+ * break fixed times or opening hours are only chosen when no order avoids it.
+ */
+export const optimizeDayRoute = (
+  activities: IActivity[],
+  speedKmh = DEFAULT_SPEED_KMH
+): RouteSchedule => {
+  if (activities.length === 0) {
+    return { stops: [], totalDistanceKm: 0, violations: [] };
+  }
+
+  const isFixed = (a: IActivity) =>
+    !!a.fixedTime || !isLocated(a) || parseTimeToMinutes(a.time) === undefined;
+
+  const fixed = activities
+    .filter((a) => isFixed(a) && parseTimeToMinutes(a.time) !== undefined)
+    .sort((a, b) => parseTimeToMinutes(a.time)! - parseTimeToMinutes(b.time)!);
+  const flexible = activities.filter((a) => !isFixed(a));
+  // Activities without a usable time can't be scheduled; keep them at the end
+  const untimed = activities.filter((a) => parseTimeToMinutes(a.time) === undefined);
+
+  const dayStart = Math.min(
+    ...activities.map((a) => parseTimeToMinutes(a.time) ?? Infinity),
+    24 * 60
+  );
+
+  const segments = segmentByFixed(flexible, fixed);
+  let best: RouteSchedule | undefined;
+
+  if (countOrders(segments) <= MAX_BRUTE_FORCE_ORDERS) {
+    for (const order of segmentedOrders(segments, fixed)) {
+      const schedule = simulateOrder(order, isFixed, dayStart, speedKmh);
+      if (isBetter(schedule, best)) best = schedule;
+    }
+  } else {
+    best = simulateOrder(greedyOrder(segments, fixed), isFixed, dayStart, speedKmh);
+  }
+
+  const result = best!;
+  for (const activity of untimed) {
+    result.stops.push({ activity, start: NaN, travelMinutes: 0 });
+  }
+
+  return result;
+};
+
+/**
+ * Copy the schedule's start times onto its activities
+ */
+export const applyScheduleTimes = (schedule: RouteSchedule): IActivity[] =>
+  schedule.stops.map(({ activity, start }) => ({
+    ...activity,
+    time: Number.isNaN(start) ? activity.time : formatMinutesAsTime(start),
+  }));
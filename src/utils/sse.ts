@@ -0,0 +1,33 @@
+import { Response } from "express";
+
+/**
+ * Switch a response to Server-Sent Events and return a writer for it.
+ * Flushes after each event because the compression middleware buffers output.
+ */
+export const openEventStream = (res: Response) => {
+  res.status(200);
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache, no-transform");
+  res.setHeader("Connection", "keep-alive");
+  res.setHeader("X-Accel-Buffering", "no"); // disable proxy buffering (Nginx)
+  res.flushHeaders();
+
+  const flush = () => (res as Response & { flush?: () => void }).flush?.();
+
+  return {
+    send: (event: string, data: unknown) => {
+      if (res.writableEnded) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      flush();
+    },
+    // Comment line; keeps idle connections from being dropped by proxies
+    ping: () => {
+      if (res.writableEnded) return;
+      res.write(": ping\n\n");
+      flush();
+    },
+    close: () => {
+      if (!res.writableEnded) res.end();
+    },
+  };
+};
@@ -0,0 +1,23 @@
+/**
+ * Minutes since midnight for an "HH:MM" string, or undefined if it isn't one
+ */
+export const parseTimeToMinutes = (time: string | undefined): number | undefined => {
+  const match = time?.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return undefined;
+
+  const hours = parseInt(match[1]);
+  const minutes = parseInt(match[2]);
+  if (hours > 23 || minutes > 59) return undefined;
+
+  return hours * 60 + minutes;
+};
+
+/**
+ * "HH:MM" for minutes since midnight. Values past midnight wrap around.
+ */
+export const formatMinutesAsTime = (totalMinutes: number): string => {
+  const normalized = ((Math.round(totalMinutes) % 1440) + 1440) % 1440;
+  const hours = Math.floor(normalized / 60);
+  const minutes = normalized % 60;
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+};
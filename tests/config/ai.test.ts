@@ -0,0 +1,49 @@
+import { describe, expect, it, vi } from "vitest";
+import { getAIProviderName, getAIRequestSettings } from "../../src/config/ai";
+
+describe("getAIRequestSettings", () => {
+  it("uses the defaults for each request type", () => {
+    expect(getAIRequestSettings("itinerary")).toEqual({
+      model: "openai/gpt-3.5-turbo",
+      temperature: 0.7,
+      maxTokens: 2000,
+      timeoutMs: 30000,
+    });
+    expect(getAIRequestSettings("activity").temperature).toBe(0.8);
+  });
+
+  it("lets per-type variables win over the global ones", () => {
+    vi.stubEnv("AI_MODEL", "llama3");
+    vi.stubEnv("AI_TEMPERATURE", "0.2");
+    vi.stubEnv("AI_CHAT_MODEL", "mistral");
+    vi.stubEnv("AI_CHAT_TIMEOUT_MS", "5000");
+
+    expect(getAIRequestSettings("chat")).toEqual({
+      model: "mistral",
+      temperature: 0.2,
+      maxTokens: 1500,
+      timeoutMs: 5000,
+    });
+    expect(getAIRequestSettings("itinerary").model).toBe("llama3");
+  });
+
+  it("ignores values that aren't numbers", () => {
+    vi.stubEnv("AI_ITINERARY_MAX_TOKENS", "lots");
+
+    expect(getAIRequestSettings("itinerary").maxTokens).toBe(2000);
+  });
+});
+
+describe("getAIProviderName", () => {
+  it("defaults to openrouter", () => {
+    vi.stubEnv("AI_PROVIDER", "");
+
+    expect(getAIProviderName()).toBe("openrouter");
+  });
+
+  it("rejects unknown providers", () => {
+    vi.stubEnv("AI_PROVIDER", "carrier-pigeon");
+
+    expect(() => getAIProviderName()).toThrow(expect.objectContaining({ code: "CONFIG_ERROR" }));
+  });
+});
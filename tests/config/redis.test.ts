@@ -0,0 +1,32 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { disconnectRedis, getRedisClient } from "../../src/config/redis";
+import { createCache } from "../../src/services/cache.service";
+
+describe("getRedisClient", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    // Nothing listens on port 1, so every connection attempt is refused
+    vi.stubEnv("REDIS_URL", "redis://127.0.0.1:1");
+  });
+
+  afterEach(async () => {
+    await disconnectRedis();
+  });
+
+  it("is null without REDIS_URL", async () => {
+    vi.stubEnv("REDIS_URL", "");
+
+    expect(await getRedisClient()).toBeNull();
+  });
+
+  it("gives up on an unreachable server and falls back to memory for a while", async () => {
+    expect(await getRedisClient()).toBeNull();
+
+    const started = Date.now();
+    const cache = createCache<string>("redis-test", 60);
+    await cache.set("key", "value");
+
+    expect(await cache.get("key")).toBe("value");
+    expect(Date.now() - started).toBeLessThan(500); // no new connection attempts
+  }, 15000);
+});
@@ -0,0 +1,31 @@
+import fs from "fs";
+import path from "path";
+import { LLMCompletionRequest, LLMProvider, LLMRequestSettings } from "../../src/types/llm.type";
+
+const FIXTURE_DIR = path.join(__dirname, "..", "fixtures", "openrouter");
+
+/**
+ * Message content of a stored OpenRouter chat completion response
+ */
+export const loadOpenRouterFixture = (name: string): string => {
+  const body = JSON.parse(fs.readFileSync(path.join(FIXTURE_DIR, `${name}.json`), "utf8"));
+  return body.choices[0].message.content;
+};
+
+/**
+ * Provider that answers with the given fixtures in order (the last one
+ * repeats) and records every request it receives
+ */
+export const createScriptedProvider = (fixtures: string[]) => {
+  const calls: { request: LLMCompletionRequest; settings: LLMRequestSettings }[] = [];
+
+  const provider: LLMProvider = {
+    name: "openrouter",
+    complete: async (request, settings) => {
+      calls.push({ request, settings });
+      return loadOpenRouterFixture(fixtures[Math.min(calls.length, fixtures.length) - 1]);
+    },
+  };
+
+  return { provider, calls };
+};
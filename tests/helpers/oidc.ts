@@ -0,0 +1,45 @@
+import { RecordedRequest, sendJson, startServer } from "./http";
+
+export interface MockOIDCOptions {
+  code?: string; // the only code the token endpoint accepts
+  userinfo: Record<string, unknown>;
+}
+
+/**
+ * A local OpenID Connect provider: discovery, a token endpoint that accepts
+ * one code and a userinfo endpoint that returns the given claims
+ */
+export const startMockOIDCProvider = async ({ code = "good-code", userinfo }: MockOIDCOptions) => {
+  const accessToken = "mock-access-token";
+  let issuer = "";
+
+  const server = await startServer((req: RecordedRequest, res) => {
+    const path = (req.url || "").split("?")[0];
+
+    if (path === "/.well-known/openid-configuration") {
+      return sendJson(res, 200, {
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        userinfo_endpoint: `${issuer}/userinfo`,
+      });
+    }
+    if (path === "/token" && req.method === "POST") {
+      const params = new URLSearchParams(req.body);
+      if (params.get("code") !== code) {
+        return sendJson(res, 400, { error: "invalid_grant" });
+      }
+      return sendJson(res, 200, { access_token: accessToken, token_type: "Bearer" });
+    }
+    if (path === "/userinfo") {
+      if (req.headers.authorization !== `Bearer ${accessToken}`) {
+        return sendJson(res, 401, { error: "invalid_token" });
+      }
+      return sendJson(res, 200, userinfo);
+    }
+    sendJson(res, 404, { error: "not_found" });
+  });
+
+  issuer = server.url;
+  return server;
+};
@@ -0,0 +1,54 @@
+import jwt from "jsonwebtoken";
+import { Request, Response } from "express";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { eventStreamAuthMiddleware } from "../../src/middleware/authMiddleware";
+import { createEventsToken } from "../../src/services/itineraryAccess.service";
+
+const USER_ID = "507f1f77bcf86cd799439011";
+const ITINERARY_ID = "507f1f77bcf86cd799439099";
+
+const request = (query: Record<string, string>, authorization?: string) =>
+  ({ query, params: { id: ITINERARY_ID }, headers: { authorization } }) as unknown as Request;
+
+describe("eventStreamAuthMiddleware", () => {
+  beforeEach(() => {
+    vi.stubEnv("JWT_SECRET", "test-secret");
+  });
+
+  it("accepts an events token for the itinerary in the query", () => {
+    const req = request({ token: createEventsToken(USER_ID, ITINERARY_ID, "session-1") });
+    const next = vi.fn();
+
+    eventStreamAuthMiddleware(req, {} as Response, next);
+
+    expect(req.user).toEqual({ id: USER_ID, sessionId: "session-1" });
+    expect(next).toHaveBeenCalled();
+  });
+
+  it("rejects an events token for another itinerary", () => {
+    const token = createEventsToken(USER_ID, "507f1f77bcf86cd799439000");
+
+    expect(() => eventStreamAuthMiddleware(request({ token }), {} as Response, vi.fn())).toThrow(
+      expect.objectContaining({ statusCode: 401, code: "INVALID_TOKEN" })
+    );
+  });
+
+  it("does not take an access token from the query", () => {
+    const token = jwt.sign({ id: USER_ID, sid: "session-1" }, "test-secret");
+
+    expect(() => eventStreamAuthMiddleware(request({ token }), {} as Response, vi.fn())).toThrow(
+      expect.objectContaining({ statusCode: 401 })
+    );
+  });
+
+  it("falls back to the Authorization header", () => {
+    const token = jwt.sign({ id: USER_ID, sid: "session-1" }, "test-secret");
+    const req = request({}, `Bearer ${token}`);
+    const next = vi.fn();
+
+    eventStreamAuthMiddleware(req, {} as Response, next);
+
+    expect(req.user).toEqual({ id: USER_ID, sessionId: "session-1" });
+    expect(next).toHaveBeenCalled();
+  });
+});
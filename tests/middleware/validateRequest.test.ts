@@ -0,0 +1,35 @@
+import { Request, Response } from "express";
+import { describe, expect, it, vi } from "vitest";
+import { validateUpdateProfile } from "../../src/middleware/validateRequest";
+
+const run = (body: Record<string, unknown>) => {
+  const next = vi.fn();
+  validateUpdateProfile({ body } as Request, {} as Response, next);
+  return next.mock.calls[0][0];
+};
+
+describe("validateUpdateProfile", () => {
+  it.each(["https://cdn.example.com/me.png", "http://example.com/a.jpg?size=200", ""])(
+    "accepts the avatar %j",
+    (avatar) => {
+      expect(run({ avatar })).toBeUndefined();
+    }
+  );
+
+  it.each([
+    "javascript:alert(1)",
+    "data:image/png;base64,AAAA",
+    "not a url",
+    "/relative/path.png",
+    `https://example.com/${"a".repeat(2048)}`,
+    42,
+  ])("rejects the avatar %j", (avatar) => {
+    expect(run({ avatar })).toMatchObject({ statusCode: 400, code: "INVALID_AVATAR" });
+  });
+
+  it("still checks names alongside the avatar", () => {
+    expect(run({ firstName: "A", avatar: "https://example.com/a.png" })).toMatchObject({
+      code: "INVALID_FIRST_NAME",
+    });
+  });
+});
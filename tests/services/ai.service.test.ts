@@ -0,0 +1,110 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { generateDayActivities, generateTravelItinerary } from "../../src/services/ai.service";
+import { createFixtureProvider, setLLMProvider } from "../../src/services/llm.service";
+import { createScriptedProvider } from "../helpers/llm";
+
+const generateLisbon = () =>
+  generateTravelItinerary("Lisbon", "2026-11-02", "2026-11-03", "comfort", 500, ["food"], 2, "EUR");
+
+describe("generateTravelItinerary", () => {
+  afterEach(() => {
+    setLLMProvider(null);
+  });
+
+  it("validates a JSON response into day activities", async () => {
+    const { provider, calls } = createScriptedProvider(["itinerary-valid"]);
+    setLLMProvider(provider);
+
+    const result = await generateLisbon();
+
+    expect(calls).toHaveLength(1);
+    expect(calls[0].request.jsonMode).toBe(true);
+    expect(calls[0].request.type).toBe("itinerary");
+    expect(result.summary).toBe("Two relaxed days in Lisbon.");
+    expect(result.dayActivities).toHaveLength(2);
+    expect(result.dayActivities[0].map((a) => a.name)).toEqual([
+      "Belém Tower",
+      "Pastéis de Belém",
+    ]);
+    expect(result.dayActivities[0][0]).toMatchObject({
+      time: "09:30",
+      duration: 90,
+      category: "attraction",
+      location: { name: "Belém Tower, Lisbon", latitude: 38.6916, longitude: -9.216 },
+    });
+    expect(result.dayActivities[0][0].id).toEqual(expect.any(String));
+  });
+
+  it("re-prompts with the validation errors and uses the repaired response", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const { provider, calls } = createScriptedProvider(["itinerary-invalid", "itinerary-valid"]);
+    setLLMProvider(provider);
+
+    const result = await generateLisbon();
+
+    expect(calls).toHaveLength(2);
+    const messages = calls[1].request.messages;
+    const repairPrompt = messages[messages.length - 1];
+    expect(repairPrompt.role).toBe("user");
+    expect(repairPrompt.content).toContain("did not match the required schema");
+    expect(repairPrompt.content).toContain('"days" must contain exactly 2 entries');
+    // The rejected answer is sent back so the model can correct it
+    expect(messages[messages.length - 2].role).toBe("assistant");
+    expect(result.dayActivities[1][0].name).toBe("São Jorge Castle");
+  });
+
+  it("falls back to the text parser when the repair also fails", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const { provider, calls } = createScriptedProvider(["itinerary-text"]);
+    setLLMProvider(provider);
+
+    const result = await generateLisbon();
+
+    expect(calls).toHaveLength(2);
+    expect(result.dayActivities).toHaveLength(2);
+    expect(result.summary).toBe("A charming trip through Lisbon.");
+    expect(result.dayActivities[0]).toContainEqual(
+      expect.objectContaining({ name: "09:00 Belém Tower", time: "09:00" })
+    );
+    expect(result.dayActivities[1]).toContainEqual(
+      expect.objectContaining({ name: "10:30 Castle tour", time: "10:30" })
+    );
+    // The text parser can't place activities, so they carry no coordinates
+    expect(result.dayActivities[0][0].location).toEqual({ name: "Lisbon" });
+  });
+});
+
+describe("generateDayActivities", () => {
+  afterEach(() => {
+    setLLMProvider(null);
+  });
+
+  it("returns alternatives from the fixture provider without already planned names", async () => {
+    setLLMProvider(createFixtureProvider());
+
+    const activities = await generateDayActivities({
+      day: 1,
+      destination: "Lisbon",
+      date: "2026-11-02",
+      replaceActivity: { name: "Belém Tower", category: "attraction", time: "09:30", duration: 90 },
+      excludeActivities: ["Alternative 1 to Belém Tower"],
+      count: 3,
+    });
+
+    expect(activities.map((a) => a.name)).toEqual([
+      "Alternative 2 to Belém Tower",
+      "Alternative 3 to Belém Tower",
+    ]);
+    expect(activities.every((a) => a.time === "09:30")).toBe(true);
+  });
+
+  it("rejects a response that never validates with AI_INVALID_RESPONSE", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const { provider } = createScriptedProvider(["itinerary-text"]);
+    setLLMProvider(provider);
+
+    await expect(
+      generateDayActivities({ day: 1, destination: "Lisbon", date: "2026-11-02" })
+    ).rejects.toMatchObject({ statusCode: 502, code: "AI_INVALID_RESPONSE" });
+  });
+});
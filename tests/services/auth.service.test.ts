@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { User } from "../../src/models/User.model";
+import {
+  completeOAuthLoginService,
+  startOAuthLoginService,
+} from "../../src/services/auth.service";
+import { createOIDCProvider, setOAuthProvider } from "../../src/services/oauth.service";
+import { createSession, revokeAllSessions } from "../../src/services/session.service";
+import { startMockOIDCProvider } from "../helpers/oidc";
+
+vi.mock("../../src/services/session.service", () => ({
+  createSession: vi.fn(async () => ({
+    token: "access-token",
+    expiresIn: "15m",
+    refreshToken: "refresh-token",
+    refreshTokenExpires: new Date(),
+  })),
+  revokeAllSessions: vi.fn(async () => 1),
+  revokeSessionByToken: vi.fn(),
+  rotateSession: vi.fn(),
+}));
+
+const USER_ID = "64b000000000000000000001";
+
+const existingUser = (overrides: Record<string, unknown> = {}) => ({
+  _id: USER_ID,
+  email: "ana@example.com",
+  firstName: "Ana",
+  lastName: "Silva",
+  password: "password-set-by-registrant",
+  isVerified: false,
+  verificationToken: "verify-token",
+  verificationTokenExpires: new Date(),
+  resetPasswordToken: "reset-token",
+  resetPasswordExpires: new Date(),
+  twoFactorEnabled: false,
+  twoFactorSecret: null,
+  twoFactorPendingSecret: null,
+  twoFactorRecoveryCodes: [] as string[],
+  twoFactorLastCounter: null,
+  identities: [] as unknown[],
+  save: vi.fn(async () => undefined),
+  ...overrides,
+});
+
+describe("OAuth sign-in with an existing email", () => {
+  let server: Awaited<ReturnType<typeof startMockOIDCProvider>>;
+
+  beforeEach(async () => {
+    server = await startMockOIDCProvider({
+      userinfo: { sub: "sso-1", email: "ana@example.com", email_verified: true, name: "Ana Silva" },
+    });
+    setOAuthProvider(
+      "oidc",
+      createOIDCProvider("oidc", {
+        issuer: server.url,
+        clientId: "client-id",
+        clientSecret: "client-secret",
+        label: "Mock SSO",
+      })
+    );
+  });
+
+  afterEach(async () => {
+    setOAuthProvider("oidc", null);
+    vi.mocked(createSession).mockClear();
+    vi.mocked(revokeAllSessions).mockClear();
+    await server.close();
+  });
+
+  const signIn = async (user: ReturnType<typeof existingUser>) => {
+    // No linked identity yet, then the account with the same email
+    vi.spyOn(User, "findOne")
+      .mockResolvedValueOnce(null as never)
+      .mockResolvedValueOnce(user as never);
+
+    const { url } = await startOAuthLoginService("oidc");
+    const state = new URL(url).searchParams.get("state")!;
+    return completeOAuthLoginService("oidc", { code: "good-code", state });
+  };
+
+  it("takes an unverified account away from whoever registered it", async () => {
+    const user = existingUser({
+      twoFactorEnabled: true,
+      twoFactorSecret: "secret",
+      twoFactorRecoveryCodes: ["hash"],
+    });
+
+    const result = await signIn(user);
+
+    expect(result).toMatchObject({ success: true, linked: true, created: false });
+    expect(result).not.toHaveProperty("mfaRequired");
+    expect(user.password).not.toBe("password-set-by-registrant");
+    expect(user).toMatchObject({
+      isVerified: true,
+      verificationToken: null,
+      resetPasswordToken: null,
+      resetPasswordExpires: null,
+      twoFactorEnabled: false,
+      twoFactorSecret: null,
+      twoFactorRecoveryCodes: [],
+    });
+    expect(user.identities).toEqual([
+      expect.objectContaining({ provider: "oidc", providerUserId: "sso-1" }),
+    ]);
+    expect(revokeAllSessions).toHaveBeenCalledWith(USER_ID, "account-claimed");
+    expect(user.save).toHaveBeenCalled();
+    expect(createSession).toHaveBeenCalledWith(USER_ID, {});
+  });
+
+  it("keeps the password and sessions of a verified account", async () => {
+    const user = existingUser({ isVerified: true });
+
+    const result = await signIn(user);
+
+    expect(result).toMatchObject({ success: true, linked: true });
+    expect(user.password).toBe("password-set-by-registrant");
+    expect(user.resetPasswordToken).toBe("reset-token");
+    expect(revokeAllSessions).not.toHaveBeenCalled();
+    expect(user.identities).toHaveLength(1);
+  });
+
+  it("does not accept the same callback twice", async () => {
+    const { url } = await startOAuthLoginService("oidc");
+    const state = new URL(url).searchParams.get("state")!;
+    vi.spyOn(User, "findOne")
+      .mockResolvedValueOnce(null as never)
+      .mockResolvedValueOnce(existingUser({ isVerified: true }) as never);
+
+    await completeOAuthLoginService("oidc", { code: "good-code", state });
+
+    await expect(
+      completeOAuthLoginService("oidc", { code: "good-code", state })
+    ).rejects.toMatchObject({ statusCode: 400, code: "INVALID_OAUTH_STATE" });
+  });
+});
@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createCounter, createMemoryStore } from "../../src/services/cache.service";
+
+describe("createMemoryStore", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("sweeps expired entries that are never read again", () => {
+    const store = createMemoryStore<{ expiresAt: number }>();
+    store.set("a", { expiresAt: Date.now() + 1000 });
+    store.set("b", { expiresAt: Date.now() + 1000 });
+
+    vi.advanceTimersByTime(2 * 60 * 1000);
+    store.set("c", { expiresAt: Date.now() + 1000 });
+
+    expect(store.size).toBe(1);
+    expect(store.get("c")).toBeDefined();
+  });
+
+  it("drops the least recently written entries beyond the cap", () => {
+    const store = createMemoryStore<{ expiresAt: number }>(2);
+    const expiresAt = Date.now() + 60 * 1000;
+    store.set("a", { expiresAt });
+    store.set("b", { expiresAt });
+    store.set("a", { expiresAt });
+    store.set("c", { expiresAt });
+
+    expect(store.size).toBe(2);
+    expect(store.get("b")).toBeUndefined();
+    expect(store.get("a")).toBeDefined();
+  });
+});
+
+describe("createCounter", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("counts within the window and starts over after it", async () => {
+    const counter = createCounter("test", 60);
+
+    expect(await counter.increment("ip")).toBe(1);
+    expect(await counter.increment("ip")).toBe(2);
+
+    vi.advanceTimersByTime(61 * 1000);
+    expect(await counter.get("ip")).toBe(0);
+    expect(await counter.increment("ip")).toBe(1);
+  });
+});
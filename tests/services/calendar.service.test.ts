@@ -0,0 +1,44 @@
+import { describe, expect, it, vi } from "vitest";
+import { Itinerary } from "../../src/models/itinerary.model";
+import { CalendarFeed } from "../../src/models/calendarFeed.model";
+import { getCalendarFeedService } from "../../src/services/calendar.service";
+
+const OWNER_ID = "507f1f77bcf86cd799439011";
+const MEMBER_ID = "507f1f77bcf86cd799439012";
+
+const setup = (collaborators: { userId: string; role: string }[]) => {
+  const itinerary = new Itinerary({
+    userId: OWNER_ID,
+    destination: "Lisbon",
+    collaborators,
+    dayItineraries: [],
+  });
+  vi.spyOn(CalendarFeed, "findOne").mockResolvedValue({
+    _id: "feed",
+    userId: MEMBER_ID,
+    itineraryId: itinerary._id,
+  } as never);
+  vi.spyOn(Itinerary, "findById").mockResolvedValue(itinerary as never);
+  return vi.spyOn(CalendarFeed, "updateOne").mockResolvedValue({} as never);
+};
+
+describe("getCalendarFeedService", () => {
+  it("serves the calendar while the token's user is a member", async () => {
+    const updateOne = setup([{ userId: MEMBER_ID, role: "viewer" }]);
+
+    const { calendar } = await getCalendarFeedService("token");
+
+    expect(calendar).toContain("X-WR-CALNAME:Trip to Lisbon");
+    expect(updateOne).toHaveBeenCalled();
+  });
+
+  it("returns 404 once the token's user loses access", async () => {
+    const updateOne = setup([]);
+
+    await expect(getCalendarFeedService("token")).rejects.toMatchObject({
+      statusCode: 404,
+      code: "CALENDAR_FEED_NOT_FOUND",
+    });
+    expect(updateOne).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,82 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../../src/services/weather.service", () => ({
+  searchLocations: vi.fn(async () => []),
+}));
+
+import { Itinerary } from "../../src/models/itinerary.model";
+import { ItineraryChat } from "../../src/models/itineraryChat.model";
+import { sendChatMessageService } from "../../src/services/chat.service";
+
+const OWNER_ID = "507f1f77bcf86cd799439011";
+const EDITOR_ID = "507f1f77bcf86cd799439022";
+
+describe("sendChatMessageService", () => {
+  const itinerary = new Itinerary({
+    userId: OWNER_ID,
+    destination: "Lisbon",
+    collaborators: [{ userId: EDITOR_ID, role: "editor", addedAt: new Date() }],
+    dayItineraries: [
+      {
+        day: 1,
+        date: new Date("2026-11-02"),
+        activities: [
+          {
+            id: "a",
+            name: "Castle",
+            description: "Castle",
+            time: "09:00",
+            duration: 60,
+            location: { name: "Castle" },
+            category: "attraction",
+          },
+        ],
+      },
+    ],
+  });
+  const ownerChat = new ItineraryChat({
+    itineraryId: itinerary._id,
+    userId: OWNER_ID,
+    messages: [{ id: "m1", role: "user", content: "Hi" }],
+  });
+  let saved: InstanceType<typeof ItineraryChat>[];
+
+  beforeEach(() => {
+    vi.stubEnv("AI_PROVIDER", "fixture");
+    saved = [];
+    vi.spyOn(Itinerary, "findOne").mockResolvedValue(itinerary as never);
+    vi.spyOn(ItineraryChat, "findOne").mockImplementation((async (query: {
+      userId: string;
+    }) => (query.userId === OWNER_ID ? ownerChat : null)) as never);
+    vi.spyOn(ItineraryChat.prototype, "save").mockImplementation(async function (
+      this: InstanceType<typeof ItineraryChat>
+    ) {
+      saved.push(this);
+      return this;
+    });
+  });
+
+  it("starts a separate chat for a second member of the itinerary", async () => {
+    await sendChatMessageService(EDITOR_ID, String(itinerary._id), {
+      message: "Add a dinner on day 1",
+    });
+
+    expect(ItineraryChat.findOne).toHaveBeenCalledWith({
+      itineraryId: String(itinerary._id),
+      userId: EDITOR_ID,
+    });
+    expect(saved).toHaveLength(1);
+    expect(saved[0]).not.toBe(ownerChat);
+    expect(String(saved[0].userId)).toBe(EDITOR_ID);
+    expect(saved[0].messages.map((m) => m.role)).toEqual(["user", "assistant"]);
+    expect(ownerChat.messages).toHaveLength(1);
+  });
+
+  it("allows one chat per member, not per itinerary", () => {
+    expect(ItineraryChat.schema.path("itineraryId").options.unique).toBeUndefined();
+    expect(ItineraryChat.schema.indexes()).toContainEqual([
+      { itineraryId: 1, userId: 1 },
+      expect.objectContaining({ unique: true }),
+    ]);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("../../src/services/weather.service", () => ({
+  searchLocations: vi.fn(async (query: string) =>
+    query === "Belém Tower"
+      ? [{ latitude: 38.6916, longitude: -9.216, displayName: "Belém Tower, PT" }]
+      : []
+  ),
+}));
+
+import { resolveActivityLocations } from "../../src/services/geocoding.service";
+import { IActivity } from "../../src/types/itinerary.type";
+
+const LISBON = { latitude: 38.7223, longitude: -9.1393 };
+
+const activity = (location: IActivity["location"]): IActivity => ({
+  id: location.name,
+  name: location.name,
+  description: "",
+  time: "10:00",
+  duration: 60,
+  location,
+  category: "attraction",
+});
+
+describe("resolveActivityLocations", () => {
+  it("tells geocoder matches, unconfirmed AI coordinates and unknown places apart", async () => {
+    const [matched, guessed, unknown] = await resolveActivityLocations(
+      [
+        activity({ name: "Belém Tower", latitude: 0, longitude: 0 }),
+        activity({ name: "Tasca do Chico", latitude: 38.7139, longitude: -9.1447 }),
+        // AI coordinates in Porto are too far from the trip to trust
+        activity({ name: "Café Nowhere", latitude: 41.1579, longitude: -8.6291 }),
+      ],
+      LISBON
+    );
+
+    expect(matched.location).toEqual({
+      name: "Belém Tower",
+      latitude: 38.6916,
+      longitude: -9.216,
+      geocodeStatus: "resolved",
+      confidence: "high",
+    });
+    expect(guessed.location).toEqual({
+      name: "Tasca do Chico",
+      latitude: 38.7139,
+      longitude: -9.1447,
+      geocodeStatus: "approximate",
+    });
+    expect(unknown.location).toEqual({ name: "Café Nowhere", geocodeStatus: "unresolved" });
+  });
+});
@@ -0,0 +1,344 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../../src/services/weather.service", () => ({
+  getCoordinatesByDestination: vi.fn(async () => ({
+    latitude: 38.7223,
+    longitude: -9.1393,
+    displayName: "Lisbon, PT",
+  })),
+  getWeatherForecast: vi.fn(async () => []),
+  searchLocations: vi.fn(async () => []),
+}));
+vi.mock("../../src/services/revision.service", () => ({
+  recordRevision: vi.fn(async () => undefined),
+  deleteItineraryRevisions: vi.fn(async () => undefined),
+}));
+
+import { Itinerary } from "../../src/models/itinerary.model";
+import {
+  generateAIItineraryService,
+  optimizeDayRouteService,
+  updateItineraryService,
+  watchItineraryService,
+} from "../../src/services/itinerary.service";
+import { setRateSource } from "../../src/services/currency.service";
+import { setLLMProvider } from "../../src/services/llm.service";
+import {
+  createMemoryPubSub,
+  publishItineraryEvent,
+  setPubSub,
+} from "../../src/services/realtime.service";
+import { GenerationProgressEvent } from "../../src/types/itinerary.type";
+import { ItineraryEvent } from "../../src/types/realtime.type";
+
+describe("generateAIItineraryService", () => {
+  beforeEach(() => {
+    vi.stubEnv("AI_PROVIDER", "fixture");
+    // Saving is the only step that needs MongoDB; hand back what would be stored
+    vi.spyOn(Itinerary, "create").mockImplementation((async (doc: unknown) => doc) as never);
+  });
+
+  afterEach(() => {
+    setLLMProvider(null);
+  });
+
+  it("generates a full itinerary offline with the fixture provider", async () => {
+    const stages: string[] = [];
+
+    const result = await generateAIItineraryService(
+      "507f1f77bcf86cd799439011",
+      {
+        destination: "Lisbon",
+        startDate: "2026-11-02",
+        endDate: "2026-11-04",
+        travelStyle: "comfort",
+        numberOfDays: 2,
+        currency: "eur",
+      },
+      { onProgress: (event: GenerationProgressEvent) => stages.push(event.stage) }
+    );
+
+    expect(stages).toEqual(["geocoded", "weather", "day", "day"]);
+    const itinerary = result.itinerary as any;
+    expect(itinerary).toMatchObject({ destination: "Lisbon", currency: "EUR", aiGenerated: true });
+    expect(itinerary.dayItineraries).toHaveLength(2);
+    expect(itinerary.dayItineraries[1].activities[0]).toMatchObject({
+      name: "Old Town Walking Tour (Day 2)",
+      time: "09:00",
+      // The geocoder finds nothing; the fixture's own coordinates are kept as a guess
+      location: { geocodeStatus: "approximate" },
+    });
+  });
+
+  it("rejects an end date before the start date", async () => {
+    await expect(
+      generateAIItineraryService("507f1f77bcf86cd799439011", {
+        destination: "Lisbon",
+        startDate: "2026-11-04",
+        endDate: "2026-11-02",
+        travelStyle: "comfort",
+        numberOfDays: 2,
+      })
+    ).rejects.toMatchObject({ code: "INVALID_DATE_RANGE" });
+  });
+});
+
+describe("optimizeDayRouteService", () => {
+  const USER_ID = "507f1f77bcf86cd799439011";
+
+  const storedItinerary = () => {
+    const itinerary = new Itinerary({
+      userId: USER_ID,
+      destination: "Lisbon",
+      startDate: new Date("2026-11-02"),
+      endDate: new Date("2026-11-02"),
+      duration: 1,
+      travelStyle: "comfort",
+      dayItineraries: [
+        {
+          day: 1,
+          date: new Date("2026-11-02"),
+          activities: [
+            {
+              id: "a",
+              name: "Castle",
+              description: "Castle",
+              time: "09:00",
+              duration: 60,
+              location: { name: "Castle", latitude: 38.7139, longitude: -9.1335 },
+              category: "attraction",
+            },
+          ],
+        },
+      ],
+      __v: 3,
+    });
+    vi.spyOn(itinerary, "save").mockResolvedValue(itinerary);
+    vi.spyOn(Itinerary, "findOne").mockResolvedValue(itinerary as never);
+    return itinerary;
+  };
+
+  beforeEach(() => {
+    setPubSub(createMemoryPubSub());
+  });
+
+  afterEach(() => {
+    setPubSub(null);
+  });
+
+  it("rejects applying over a newer version", async () => {
+    const itinerary = storedItinerary();
+
+    await expect(
+      optimizeDayRouteService(USER_ID, String(itinerary._id), 1, { apply: true }, { ifMatch: [2] })
+    ).rejects.toMatchObject({ statusCode: 409, code: "VERSION_CONFLICT" });
+    expect(itinerary.save).not.toHaveBeenCalled();
+  });
+
+  it("applies with the current version and ignores If-Match for previews", async () => {
+    const itinerary = storedItinerary();
+
+    const preview = await optimizeDayRouteService(USER_ID, String(itinerary._id), 1, {}, {
+      ifMatch: [2],
+    });
+    expect(preview.applied).toBe(false);
+
+    const applied = await optimizeDayRouteService(
+      USER_ID,
+      String(itinerary._id),
+      1,
+      { apply: true },
+      { ifMatch: [3] }
+    );
+    expect(applied.applied).toBe(true);
+    expect(itinerary.save).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("watchItineraryService", () => {
+  const OWNER_ID = "507f1f77bcf86cd799439011";
+  const VIEWER_ID = "507f1f77bcf86cd799439022";
+
+  const itinerary = new Itinerary({
+    userId: OWNER_ID,
+    destination: "Lisbon",
+    collaborators: [{ userId: VIEWER_ID, role: "viewer", addedAt: new Date() }],
+  });
+  const withoutViewer = new Itinerary({ _id: itinerary._id, userId: OWNER_ID, collaborators: [] });
+
+  // What the per-event access check reads
+  const storedAs = (doc: unknown) =>
+    vi.spyOn(Itinerary, "findById").mockReturnValue({ select: async () => doc } as never);
+
+  const watch = async () => {
+    const events: ItineraryEvent[] = [];
+    const close = vi.fn();
+    const { unsubscribe } = await watchItineraryService(
+      VIEWER_ID,
+      String(itinerary._id),
+      (event) => events.push(event),
+      close
+    );
+    return { events, close, unsubscribe };
+  };
+
+  // Forwarding waits for the access check
+  const settle = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+  beforeEach(() => {
+    setPubSub(createMemoryPubSub());
+    vi.spyOn(Itinerary, "findOne").mockResolvedValue(itinerary as never);
+  });
+
+  afterEach(() => {
+    setPubSub(null);
+  });
+
+  it("forwards events while the user still has access", async () => {
+    storedAs(itinerary);
+    const { events, close, unsubscribe } = await watch();
+
+    await publishItineraryEvent(itinerary, "activity.added", OWNER_ID, { day: 1 });
+    await publishItineraryEvent(itinerary, "itinerary.updated", OWNER_ID);
+    await settle();
+
+    expect(events.map((e) => e.type)).toEqual(["activity.added", "itinerary.updated"]);
+    expect(close).not.toHaveBeenCalled();
+    await unsubscribe();
+  });
+
+  it("ends the stream with access.revoked once the user is removed", async () => {
+    storedAs(withoutViewer);
+    const { events, close, unsubscribe } = await watch();
+
+    await publishItineraryEvent(withoutViewer, "collaborators.updated", OWNER_ID, {
+      userId: VIEWER_ID,
+      role: null,
+    });
+    await publishItineraryEvent(withoutViewer, "itinerary.updated", OWNER_ID);
+    await settle();
+
+    expect(events).toEqual([expect.objectContaining({ type: "access.revoked", data: {} })]);
+    expect(close).toHaveBeenCalledTimes(1);
+    await unsubscribe();
+  });
+
+  it("ends the stream after itinerary.deleted", async () => {
+    storedAs(null);
+    const { events, close, unsubscribe } = await watch();
+
+    await publishItineraryEvent(itinerary, "itinerary.deleted", OWNER_ID);
+    await settle();
+
+    expect(events.map((e) => e.type)).toEqual(["itinerary.deleted"]);
+    expect(close).toHaveBeenCalledTimes(1);
+    await unsubscribe();
+  });
+});
+
+describe("updateItineraryService currency changes", () => {
+  const USER_ID = "507f1f77bcf86cd799439011";
+
+  const storedItinerary = () => {
+    const itinerary = new Itinerary({
+      userId: USER_ID,
+      destination: "Lisbon",
+      startDate: new Date("2026-11-02"),
+      endDate: new Date("2026-11-03"),
+      duration: 1,
+      travelStyle: "comfort",
+      budget: 1000,
+      currency: "USD",
+      dayItineraries: [
+        {
+          day: 1,
+          date: new Date("2026-11-02"),
+          activities: [
+            {
+              id: "a",
+              name: "Castle",
+              description: "Castle",
+              time: "09:00",
+              duration: 60,
+              location: { name: "Castle" },
+              category: "attraction",
+              estimatedCost: 20,
+            },
+            {
+              id: "b",
+              name: "Fado show",
+              description: "Fado",
+              time: "20:00",
+              duration: 90,
+              location: { name: "Alfama" },
+              category: "activity",
+              estimatedCost: 30,
+              currency: "EUR",
+            },
+          ],
+        },
+      ],
+      expenses: [{ id: "e", day: 1, category: "dining", amount: 40, createdAt: new Date() }],
+    });
+    vi.spyOn(itinerary, "save").mockResolvedValue(itinerary);
+    vi.spyOn(Itinerary, "findOne").mockResolvedValue(itinerary as never);
+    return itinerary;
+  };
+
+  beforeEach(() => {
+    setPubSub(createMemoryPubSub());
+    setRateSource({
+      name: "test",
+      getRates: async () => ({ base: "USD", rates: { USD: 1, EUR: 0.5 } }),
+    });
+  });
+
+  afterEach(() => {
+    setPubSub(null);
+    setRateSource(null);
+  });
+
+  it("converts the budget and costs that were in the old currency", async () => {
+    const itinerary = storedItinerary();
+
+    await updateItineraryService(USER_ID, String(itinerary._id), { currency: "eur" });
+
+    expect(itinerary.currency).toBe("EUR");
+    expect(itinerary.budget).toBe(500);
+    const [castle, fado] = itinerary.dayItineraries[0].activities;
+    expect(castle.estimatedCost).toBe(10);
+    expect(fado).toMatchObject({ estimatedCost: 30, currency: "EUR" });
+    expect(itinerary.expenses![0].amount).toBe(20);
+  });
+
+  it("keeps a budget sent with the new currency", async () => {
+    const itinerary = storedItinerary();
+
+    await updateItineraryService(USER_ID, String(itinerary._id), {
+      currency: "EUR",
+      budget: 800,
+    });
+
+    expect(itinerary.budget).toBe(800);
+  });
+
+  it("rejects an unsupported currency", async () => {
+    const itinerary = storedItinerary();
+
+    await expect(
+      updateItineraryService(USER_ID, String(itinerary._id), { currency: "XYZ" })
+    ).rejects.toMatchObject({ code: "UNSUPPORTED_CURRENCY" });
+    expect(itinerary.save).not.toHaveBeenCalled();
+  });
+
+  it("checks activity currencies in bulk day updates", async () => {
+    const itinerary = storedItinerary();
+    const days = itinerary.toObject().dayItineraries;
+    days[0].activities[0].currency = "XYZ";
+
+    await expect(
+      updateItineraryService(USER_ID, String(itinerary._id), { dayItineraries: days })
+    ).rejects.toMatchObject({ code: "UNSUPPORTED_CURRENCY" });
+    expect(itinerary.save).not.toHaveBeenCalled();
+  });
+});
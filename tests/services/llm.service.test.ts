@@ -0,0 +1,117 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  completeChat,
+  createOpenAICompatibleProvider,
+  getLLMProvider,
+  setLLMProvider,
+} from "../../src/services/llm.service";
+import { sendJson, startServer } from "../helpers/http";
+import { loadOpenRouterFixture } from "../helpers/llm";
+
+const SETTINGS = { model: "local-model", temperature: 0.3, maxTokens: 500, timeoutMs: 2000 };
+
+describe("createOpenAICompatibleProvider", () => {
+  let server: Awaited<ReturnType<typeof startServer>> | undefined;
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  it("posts a chat completion and returns the message content", async () => {
+    const body = JSON.parse(
+      fs.readFileSync(path.join(__dirname, "../fixtures/openrouter/itinerary-valid.json"), "utf8")
+    );
+    server = await startServer((_req, res) => sendJson(res, 200, body));
+
+    const provider = createOpenAICompatibleProvider({
+      name: "openai-compatible",
+      label: "Local",
+      baseUrl: server.url,
+      apiKey: "secret",
+    });
+    const content = await provider.complete(
+      { type: "itinerary", messages: [{ role: "user", content: "Plan" }], jsonMode: true },
+      SETTINGS
+    );
+
+    expect(content).toBe(loadOpenRouterFixture("itinerary-valid"));
+    const [request] = server.requests;
+    expect(request.url).toBe("/chat/completions");
+    expect(request.headers.authorization).toBe("Bearer secret");
+    expect(JSON.parse(request.body)).toEqual({
+      model: "local-model",
+      messages: [{ role: "user", content: "Plan" }],
+      temperature: 0.3,
+      max_tokens: 500,
+      response_format: { type: "json_object" },
+    });
+  });
+
+  it("maps a 429 to RATE_LIMIT_ERROR", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    server = await startServer((_req, res) => sendJson(res, 429, { error: "slow down" }));
+
+    const provider = createOpenAICompatibleProvider({
+      name: "openai-compatible",
+      label: "Local",
+      baseUrl: server.url,
+    });
+
+    await expect(
+      provider.complete({ type: "chat", messages: [] }, SETTINGS)
+    ).rejects.toMatchObject({ statusCode: 429, code: "RATE_LIMIT_ERROR" });
+  });
+
+  it("requires an API key when configured to", async () => {
+    const provider = createOpenAICompatibleProvider({
+      name: "openrouter",
+      label: "OpenRouter",
+      baseUrl: "http://127.0.0.1:1",
+      requireApiKey: true,
+    });
+
+    await expect(
+      provider.complete({ type: "chat", messages: [] }, SETTINGS)
+    ).rejects.toMatchObject({ code: "CONFIG_ERROR" });
+  });
+});
+
+describe("getLLMProvider", () => {
+  afterEach(() => {
+    setLLMProvider(null);
+  });
+
+  it("picks the provider named by AI_PROVIDER", () => {
+    vi.stubEnv("AI_PROVIDER", "fixture");
+    expect(getLLMProvider().name).toBe("fixture");
+
+    vi.stubEnv("AI_PROVIDER", "openai-compatible");
+    expect(getLLMProvider().name).toBe("openai-compatible");
+  });
+
+  it("prefers an override set with setLLMProvider", () => {
+    vi.stubEnv("AI_PROVIDER", "fixture");
+    setLLMProvider({ name: "openrouter", complete: async () => "{}" });
+
+    expect(getLLMProvider().name).toBe("openrouter");
+  });
+
+  it("serves AI_FIXTURE_DIR files before the built-in fixtures", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "wanderwise-fixtures-"));
+    fs.writeFileSync(path.join(dir, "chat.json"), '{"reply":"From file","changes":[]}');
+    vi.stubEnv("AI_PROVIDER", "fixture");
+    vi.stubEnv("AI_FIXTURE_DIR", dir);
+
+    try {
+      await expect(completeChat({ type: "chat", messages: [] })).resolves.toBe(
+        '{"reply":"From file","changes":[]}'
+      );
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,102 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createOIDCProvider } from "../../src/services/oauth.service";
+import { startMockOIDCProvider } from "../helpers/oidc";
+
+const REDIRECT_URI = "http://localhost:5000/api/v1/auth/oauth/oidc/callback";
+
+describe("createOIDCProvider", () => {
+  let server: Awaited<ReturnType<typeof startMockOIDCProvider>> | undefined;
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  const createProvider = (issuer: string) =>
+    createOIDCProvider("oidc", {
+      issuer,
+      clientId: "client-id",
+      clientSecret: "client-secret",
+      label: "Mock SSO",
+    });
+
+  it("builds the authorization URL from discovery with PKCE", async () => {
+    server = await startMockOIDCProvider({ userinfo: { sub: "1" } });
+
+    const url = new URL(
+      await createProvider(server.url).getAuthorizationUrl({
+        state: "state-1",
+        codeChallenge: "challenge-1",
+        redirectUri: REDIRECT_URI,
+      })
+    );
+
+    expect(`${url.origin}${url.pathname}`).toBe(`${server.url}/authorize`);
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      response_type: "code",
+      client_id: "client-id",
+      redirect_uri: REDIRECT_URI,
+      scope: "openid email profile",
+      state: "state-1",
+      code_challenge: "challenge-1",
+      code_challenge_method: "S256",
+    });
+  });
+
+  it("exchanges the code and maps the userinfo claims to a profile", async () => {
+    server = await startMockOIDCProvider({
+      userinfo: {
+        sub: "user-42",
+        email: "Ana@Example.com",
+        email_verified: "true",
+        name: "Ana Maria Silva",
+        picture: "https://example.com/ana.png",
+      },
+    });
+
+    const profile = await createProvider(server.url).getProfile(
+      "good-code",
+      "verifier-1",
+      REDIRECT_URI
+    );
+
+    expect(profile).toEqual({
+      provider: "oidc",
+      providerUserId: "user-42",
+      email: "ana@example.com",
+      emailVerified: true,
+      firstName: "Ana",
+      lastName: "Maria Silva",
+      avatar: "https://example.com/ana.png",
+    });
+
+    const token = server.requests.find((r) => r.url === "/token");
+    expect(Object.fromEntries(new URLSearchParams(token?.body))).toEqual({
+      grant_type: "authorization_code",
+      code: "good-code",
+      redirect_uri: REDIRECT_URI,
+      client_id: "client-id",
+      client_secret: "client-secret",
+      code_verifier: "verifier-1",
+    });
+  });
+
+  it("reports an unverified email as such", async () => {
+    server = await startMockOIDCProvider({
+      userinfo: { sub: "user-7", email: "bo@example.com", email_verified: false },
+    });
+
+    const profile = await createProvider(server.url).getProfile("good-code", "v", REDIRECT_URI);
+
+    expect(profile.emailVerified).toBe(false);
+  });
+
+  it("maps a rejected code to 401 OAUTH_FAILED", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    server = await startMockOIDCProvider({ userinfo: { sub: "1" } });
+
+    await expect(
+      createProvider(server.url).getProfile("bad-code", "v", REDIRECT_URI)
+    ).rejects.toMatchObject({ statusCode: 401, code: "OAUTH_FAILED" });
+  });
+});
@@ -0,0 +1,75 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../../src/config/redis", () => ({ getRedisClient: vi.fn() }));
+
+import { getRedisClient } from "../../src/config/redis";
+import {
+  closeRealtime,
+  publishItineraryEvent,
+  subscribeToItinerary,
+} from "../../src/services/realtime.service";
+import { ItineraryEvent } from "../../src/types/realtime.type";
+
+const itinerary = { _id: "507f1f77bcf86cd799439099", get: () => 1 };
+
+// Just enough of a node-redis client for publishing and subscribing
+const fakeRedisClient = () => {
+  const subscriber = {
+    isOpen: true,
+    on: vi.fn(),
+    connect: vi.fn(async () => undefined),
+    subscribe: vi.fn(async () => undefined),
+    unsubscribe: vi.fn(async () => undefined),
+    quit: vi.fn(async () => undefined),
+  };
+  return {
+    isOpen: true,
+    publish: vi.fn(async () => 0),
+    duplicate: vi.fn(() => subscriber),
+    subscriber,
+  };
+};
+
+describe("realtime pub/sub selection", () => {
+  afterEach(async () => {
+    await closeRealtime();
+  });
+
+  it("picks up Redis once it becomes reachable", async () => {
+    const redis = fakeRedisClient();
+    vi.mocked(getRedisClient)
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce(null)
+      .mockResolvedValue(redis as never);
+
+    const events: ItineraryEvent[] = [];
+    const close = vi.fn();
+    await subscribeToItinerary(itinerary._id, (event) => events.push(event), close);
+    await publishItineraryEvent(itinerary, "itinerary.updated", "user");
+    expect(events).toHaveLength(1); // in memory while Redis is down
+
+    await publishItineraryEvent(itinerary, "itinerary.updated", "user");
+
+    expect(redis.publish).toHaveBeenCalledWith(
+      `wanderwise:itinerary:${itinerary._id}`,
+      expect.any(String)
+    );
+    // Its stream only listened in memory, so it is ended to resubscribe
+    expect(close).toHaveBeenCalled();
+  });
+
+  it("replaces the adapter when the Redis client is replaced after a disconnect", async () => {
+    const first = fakeRedisClient();
+    const second = fakeRedisClient();
+    vi.mocked(getRedisClient)
+      .mockResolvedValueOnce(first as never)
+      .mockResolvedValue(second as never);
+
+    await publishItineraryEvent(itinerary, "itinerary.updated", "user");
+    first.isOpen = false;
+    await publishItineraryEvent(itinerary, "itinerary.updated", "user");
+
+    expect(first.publish).toHaveBeenCalledTimes(1);
+    expect(second.publish).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Itinerary } from "../../src/models/itinerary.model";
+import { ItineraryRevision } from "../../src/models/itineraryRevision.model";
+import { recordRevision, restoreRevisionService } from "../../src/services/revision.service";
+import { createMemoryPubSub, setPubSub } from "../../src/services/realtime.service";
+
+const OWNER_ID = "507f1f77bcf86cd799439011";
+const VIEWER_ID = "507f1f77bcf86cd799439022";
+const REVISION_ID = "507f1f77bcf86cd799439033";
+
+const storedItinerary = () => {
+  const itinerary = new Itinerary({
+    userId: OWNER_ID,
+    destination: "Porto",
+    startDate: new Date("2026-11-02"),
+    endDate: new Date("2026-11-02"),
+    duration: 1,
+    budget: 800,
+    dayItineraries: [],
+    collaborators: [{ userId: VIEWER_ID, role: "viewer" }],
+    __v: 3,
+  });
+  vi.spyOn(itinerary, "save").mockResolvedValue(itinerary);
+  vi.spyOn(Itinerary, "findOne").mockResolvedValue(itinerary as never);
+  return itinerary;
+};
+
+// The query recordRevision prunes with: find().sort().skip(limit).select()
+const mockStaleRevisions = (stale: { _id: string }[]) => {
+  const skip = vi.fn(() => ({ select: async () => stale }));
+  vi.spyOn(ItineraryRevision, "find").mockReturnValue({ sort: () => ({ skip }) } as never);
+  return skip;
+};
+
+describe("recordRevision", () => {
+  beforeEach(() => {
+    vi.spyOn(ItineraryRevision, "create").mockResolvedValue({} as never);
+  });
+
+  it("deletes revisions beyond ITINERARY_REVISION_LIMIT", async () => {
+    vi.stubEnv("ITINERARY_REVISION_LIMIT", "2");
+    const skip = mockStaleRevisions([{ _id: "old-1" }, { _id: "old-2" }]);
+    const deleteMany = vi.spyOn(ItineraryRevision, "deleteMany").mockResolvedValue({} as never);
+
+    await recordRevision(storedItinerary(), OWNER_ID, "update");
+
+    expect(ItineraryRevision.create).toHaveBeenCalledWith(
+      expect.objectContaining({ operation: "update", version: 3 })
+    );
+    expect(skip).toHaveBeenCalledWith(2);
+    expect(deleteMany).toHaveBeenCalledWith({ _id: { $in: ["old-1", "old-2"] } });
+  });
+
+  it("keeps 50 revisions by default and deletes nothing below the limit", async () => {
+    const skip = mockStaleRevisions([]);
+    const deleteMany = vi.spyOn(ItineraryRevision, "deleteMany");
+
+    await recordRevision(storedItinerary(), OWNER_ID, "update");
+
+    expect(skip).toHaveBeenCalledWith(50);
+    expect(deleteMany).not.toHaveBeenCalled();
+  });
+});
+
+describe("restoreRevisionService", () => {
+  beforeEach(() => {
+    setPubSub(createMemoryPubSub());
+    vi.spyOn(ItineraryRevision, "findOne").mockResolvedValue({
+      _id: REVISION_ID,
+      version: 1,
+      snapshot: {
+        destination: "Lisbon",
+        startDate: new Date("2026-11-02"),
+        endDate: new Date("2026-11-02"),
+        duration: 1,
+        dayItineraries: [],
+        budget: 500,
+        currency: "EUR",
+      },
+    } as never);
+    vi.spyOn(ItineraryRevision, "create").mockResolvedValue({} as never);
+    mockStaleRevisions([]);
+  });
+
+  afterEach(() => {
+    setPubSub(null);
+  });
+
+  it("puts the itinerary back to the revision and records the restore", async () => {
+    const itinerary = storedItinerary();
+
+    const result = await restoreRevisionService(OWNER_ID, String(itinerary._id), REVISION_ID, {
+      ifMatch: [3],
+    });
+
+    expect(result.message).toBe("Itinerary restored to version 1");
+    expect(itinerary).toMatchObject({ destination: "Lisbon", budget: 500, currency: "EUR" });
+    expect(itinerary.save).toHaveBeenCalledTimes(1);
+    expect(ItineraryRevision.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        operation: "restore",
+        details: { revisionId: REVISION_ID, restoredVersion: 1 },
+      })
+    );
+  });
+
+  it("rejects restoring over a newer version", async () => {
+    const itinerary = storedItinerary();
+
+    await expect(
+      restoreRevisionService(OWNER_ID, String(itinerary._id), REVISION_ID, { ifMatch: [2] })
+    ).rejects.toMatchObject({ statusCode: 409, code: "VERSION_CONFLICT" });
+    expect(itinerary.destination).toBe("Porto");
+    expect(itinerary.save).not.toHaveBeenCalled();
+  });
+
+  it("requires the editor role", async () => {
+    const itinerary = storedItinerary();
+
+    await expect(
+      restoreRevisionService(VIEWER_ID, String(itinerary._id), REVISION_ID)
+    ).rejects.toMatchObject({ statusCode: 403, code: "INSUFFICIENT_ROLE" });
+    expect(itinerary.save).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,44 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { Session } from "../../src/models/session.model";
+import { rotateSession } from "../../src/services/session.service";
+
+const USER_ID = "507f1f77bcf86cd799439011";
+const SESSION_ID = "507f1f77bcf86cd799439044";
+
+describe("rotateSession", () => {
+  beforeEach(() => {
+    vi.stubEnv("JWT_SECRET", "test-secret");
+    vi.spyOn(Session, "findOne").mockResolvedValue({
+      _id: SESSION_ID,
+      userId: USER_ID,
+      revokedAt: null,
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    } as never);
+  });
+
+  it("keeps only the most recent rotated token hashes", async () => {
+    const findOneAndUpdate = vi
+      .spyOn(Session, "findOneAndUpdate")
+      .mockResolvedValue({ _id: SESSION_ID } as never);
+
+    const tokens = await rotateSession("old-refresh-token");
+
+    expect(tokens.refreshToken).not.toBe("old-refresh-token");
+    const [filter, update] = findOneAndUpdate.mock.calls[0] as [
+      { tokenHash: string },
+      { $push: unknown },
+    ];
+    expect(update.$push).toEqual({
+      rotatedTokenHashes: { $each: [filter.tokenHash], $slice: -50 },
+    });
+  });
+
+  it("rejects a token that lost a concurrent refresh", async () => {
+    vi.spyOn(Session, "findOneAndUpdate").mockResolvedValue(null as never);
+
+    await expect(rotateSession("old-refresh-token")).rejects.toMatchObject({
+      statusCode: 401,
+      code: "INVALID_REFRESH_TOKEN",
+    });
+  });
+});
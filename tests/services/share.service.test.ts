@@ -0,0 +1,47 @@
+import { describe, expect, it, vi } from "vitest";
+import { Itinerary } from "../../src/models/itinerary.model";
+import { ShareLink } from "../../src/models/shareLink.model";
+import { getSharedItineraryService } from "../../src/services/share.service";
+
+describe("getSharedItineraryService", () => {
+  it("leaves out the owner, notes, budget and expenses", async () => {
+    const itinerary = new Itinerary({
+      userId: "507f1f77bcf86cd799439011",
+      destination: "Lisbon",
+      budget: 1000,
+      aiNotes: "Owner's private notes",
+      dayItineraries: [
+        {
+          day: 1,
+          date: new Date("2026-11-02"),
+          activities: [
+            {
+              id: "a",
+              name: "Castle",
+              description: "Castle",
+              time: "09:00",
+              duration: 60,
+              location: { name: "Castle" },
+              category: "attraction",
+              notes: "Bring the tickets",
+            },
+          ],
+        },
+      ],
+      expenses: [{ id: "e", day: 1, category: "dining", amount: 40, createdAt: new Date() }],
+    });
+    vi.spyOn(ShareLink, "findOneAndUpdate").mockResolvedValue({
+      itineraryId: itinerary._id,
+      expiresAt: null,
+    } as never);
+    vi.spyOn(Itinerary, "findById").mockResolvedValue(itinerary as never);
+
+    const { itinerary: shared } = await getSharedItineraryService("token");
+
+    expect(shared.destination).toBe("Lisbon");
+    for (const field of ["userId", "aiNotes", "budget", "expenses", "collaborators"]) {
+      expect(shared).not.toHaveProperty(field);
+    }
+    expect(shared.dayItineraries[0].activities[0]).not.toHaveProperty("notes");
+  });
+});
@@ -0,0 +1,111 @@
+import jwt from "jsonwebtoken";
+import { Request, Response } from "express";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../../src/services/loginProtection.service", () => ({
+  assertLoginAllowed: vi.fn(async () => undefined),
+  recordLoginFailure: vi.fn(async () => undefined),
+}));
+
+import { User } from "../../src/models/User.model";
+import { authMiddleware } from "../../src/middleware/authMiddleware";
+import {
+  confirmTwoFactorService,
+  createMfaToken,
+  verifyMfaChallenge,
+} from "../../src/services/twoFactor.service";
+import { encryptSecret } from "../../src/utils/encryption";
+import { generateTotp, generateTotpSecret } from "../../src/utils/totp";
+
+const USER_ID = "507f1f77bcf86cd799439011";
+const STEP_MS = 30 * 1000;
+
+describe("two-factor login", () => {
+  const secret = generateTotpSecret();
+  let user: {
+    email: string;
+    twoFactorEnabled: boolean;
+    twoFactorSecret: string | null;
+    twoFactorPendingSecret: string | null;
+    twoFactorRecoveryCodes: string[];
+    twoFactorLastCounter: number | null;
+    save: ReturnType<typeof vi.fn>;
+  };
+
+  beforeEach(() => {
+    vi.stubEnv("JWT_SECRET", "test-secret");
+    user = {
+      email: "ana@example.com",
+      twoFactorEnabled: false,
+      twoFactorSecret: null,
+      twoFactorPendingSecret: encryptSecret(secret),
+      twoFactorRecoveryCodes: [],
+      twoFactorLastCounter: null,
+      save: vi.fn(async () => undefined),
+    };
+    vi.spyOn(User, "findById").mockReturnValue({ select: async () => user } as never);
+  });
+
+  const enable = async () => {
+    // Enrolled with the code of the previous step, so the current one is still unused
+    const { recoveryCodes } = await confirmTwoFactorService(USER_ID, {
+      code: generateTotp(secret, Date.now() - STEP_MS),
+    });
+    return recoveryCodes;
+  };
+
+  it("accepts a TOTP code once", async () => {
+    await enable();
+    const code = generateTotp(secret);
+
+    await expect(verifyMfaChallenge(createMfaToken(USER_ID), { code })).resolves.toBe(user);
+    await expect(verifyMfaChallenge(createMfaToken(USER_ID), { code })).rejects.toMatchObject({
+      statusCode: 401,
+      code: "INVALID_TWO_FACTOR_CODE",
+    });
+  });
+
+  it("rejects codes from steps before the last one used", async () => {
+    await enable();
+    const lastCounter = user.twoFactorLastCounter;
+
+    await expect(
+      verifyMfaChallenge(createMfaToken(USER_ID), {
+        code: generateTotp(secret, Date.now() - STEP_MS),
+      })
+    ).rejects.toMatchObject({ code: "INVALID_TWO_FACTOR_CODE" });
+    expect(user.twoFactorLastCounter).toBe(lastCounter);
+  });
+
+  it("uses each recovery code only once", async () => {
+    const [recoveryCode] = await enable();
+
+    await verifyMfaChallenge(createMfaToken(USER_ID), {
+      recoveryCode: recoveryCode.toUpperCase(),
+    });
+
+    expect(user.twoFactorRecoveryCodes).toHaveLength(9);
+    await expect(
+      verifyMfaChallenge(createMfaToken(USER_ID), { recoveryCode })
+    ).rejects.toMatchObject({ code: "INVALID_TWO_FACTOR_CODE" });
+  });
+
+  it("does not take an access token as the mfa token", async () => {
+    await enable();
+    const accessToken = jwt.sign({ id: USER_ID, sid: "session-1" }, "test-secret");
+
+    await expect(
+      verifyMfaChallenge(accessToken, { code: generateTotp(secret) })
+    ).rejects.toMatchObject({ code: "INVALID_MFA_TOKEN" });
+  });
+
+  it("is refused by authMiddleware as an access token", () => {
+    const req = { headers: { authorization: `Bearer ${createMfaToken(USER_ID)}` } } as Request;
+    const next = vi.fn();
+
+    expect(() => authMiddleware(req, {} as Response, next)).toThrow(
+      expect.objectContaining({ statusCode: 401, code: "INVALID_TOKEN" })
+    );
+    expect(next).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,77 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { Session } from "../../src/models/session.model";
+import { User } from "../../src/models/User.model";
+import { deleteMeService } from "../../src/services/user.service";
+
+const USER_ID = "507f1f77bcf86cd799439011";
+const SESSION_ID = "507f1f77bcf86cd799439033";
+const MINUTE_MS = 60 * 1000;
+
+describe("deleteMeService", () => {
+  let user: {
+    deletionScheduledFor?: Date | null;
+    deletionRequestedAt?: Date | null;
+    comparePassword: ReturnType<typeof vi.fn>;
+    save: ReturnType<typeof vi.fn>;
+  };
+
+  // The current session, as the recent-login check reads it
+  const sessionStarted = (minutesAgo: number) =>
+    vi
+      .spyOn(Session, "findOne")
+      .mockResolvedValue({ createdAt: new Date(Date.now() - minutesAgo * MINUTE_MS) } as never);
+
+  beforeEach(() => {
+    vi.stubEnv("ACCOUNT_DELETION_GRACE_DAYS", "30");
+    user = {
+      comparePassword: vi.fn(async (password: string) => password === "correct-password"),
+      save: vi.fn(async () => undefined),
+    };
+    vi.spyOn(User, "findById").mockReturnValue({ select: async () => user } as never);
+    vi.spyOn(Session, "updateMany").mockResolvedValue({ modifiedCount: 2 } as never);
+  });
+
+  it("schedules deletion after the password is confirmed", async () => {
+    const result = await deleteMeService(USER_ID, { password: "correct-password" }, SESSION_ID);
+
+    expect(result.deletionScheduledFor).toBeInstanceOf(Date);
+    expect(result.message).toContain("POST /api/v1/users/me/restore");
+    expect(user.save).toHaveBeenCalled();
+    expect(Session.updateMany).toHaveBeenCalledWith(
+      { userId: USER_ID, revokedAt: null },
+      expect.objectContaining({ revokedReason: "account-deleted" })
+    );
+  });
+
+  it("rejects a wrong password even right after logging in", async () => {
+    sessionStarted(1);
+
+    await expect(
+      deleteMeService(USER_ID, { password: "wrong" }, SESSION_ID)
+    ).rejects.toMatchObject({ statusCode: 401, code: "INVALID_CREDENTIALS" });
+    expect(user.save).not.toHaveBeenCalled();
+  });
+
+  it("accepts a recent login instead of a password", async () => {
+    sessionStarted(2);
+
+    const result = await deleteMeService(USER_ID, {}, SESSION_ID);
+
+    expect(result.deletionScheduledFor).toBeInstanceOf(Date);
+    expect(Session.findOne).toHaveBeenCalledWith({
+      _id: SESSION_ID,
+      userId: USER_ID,
+      revokedAt: null,
+    });
+  });
+
+  it("asks to log in again when the session is older", async () => {
+    sessionStarted(30);
+
+    await expect(deleteMeService(USER_ID, {}, SESSION_ID)).rejects.toMatchObject({
+      statusCode: 401,
+      code: "REAUTHENTICATION_REQUIRED",
+    });
+    expect(user.save).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import { getBudgetWarning, summarizeBudget } from "../../src/utils/budget";
+import { IActivity, IExpense, IItinerary } from "../../src/types/itinerary.type";
+
+type BudgetInput = Pick<IItinerary, "budget" | "currency" | "dayItineraries" | "expenses">;
+
+const activity = (id: string, estimatedCost: number, category: IActivity["category"]): IActivity => ({
+  id,
+  name: id,
+  description: id,
+  time: "10:00",
+  duration: 60,
+  category,
+  location: { name: id },
+  estimatedCost,
+});
+
+const expense = (overrides: Partial<IExpense> & Pick<IExpense, "amount">): IExpense => ({
+  id: `e-${overrides.amount}`,
+  day: 1,
+  category: "other",
+  ...overrides,
+});
+
+const trip = (expenses: IExpense[] = [], budget = 300): BudgetInput => ({
+  budget,
+  currency: "EUR",
+  dayItineraries: [
+    {
+      day: 1,
+      date: new Date("2026-11-02"),
+      activities: [activity("museum", 20, "attraction"), activity("dinner", 60, "dining")],
+    },
+    { day: 2, date: new Date("2026-11-03"), activities: [activity("tour", 90, "activity")] },
+  ],
+  expenses,
+});
+
+describe("summarizeBudget", () => {
+  it("uses an activity's expenses instead of its estimate", () => {
+    const summary = summarizeBudget(
+      trip([
+        expense({ activityId: "dinner", category: "dining", amount: 45 }),
+        expense({ activityId: "dinner", category: "dining", amount: 30 }),
+      ])
+    );
+
+    expect(summary.byDay[0]).toMatchObject({ estimated: 80, actual: 75, projected: 95 });
+    expect(summary.byCategory.dining).toEqual({ estimated: 60, actual: 75, projected: 75 });
+    expect(summary.totals).toEqual({ estimated: 170, actual: 75, projected: 185 });
+    expect(summary.remaining).toBe(115);
+  });
+
+  it("adds expenses without an existing activity to their day", () => {
+    const summary = summarizeBudget(
+      trip([
+        expense({ day: 2, category: "transport", amount: 12 }),
+        // The activity this was logged against has since been deleted
+        expense({ day: 2, activityId: "removed", category: "shopping", amount: 8 }),
+      ])
+    );
+
+    expect(summary.byDay[1]).toMatchObject({ estimated: 90, actual: 20, projected: 110 });
+    expect(summary.byCategory.transport).toEqual({ estimated: 0, actual: 12, projected: 12 });
+    expect(summary.byCategory.shopping).toEqual({ estimated: 0, actual: 8, projected: 8 });
+  });
+
+  it("flags days whose projected spend is above an even split of the budget", () => {
+    const summary = summarizeBudget(trip([], 160));
+
+    expect(summary.dailyAllowance).toBe(80);
+    expect(summary.byDay.map((d) => d.overBudget)).toEqual([false, true]);
+    expect(summary.overBudgetDays).toEqual([2]);
+    expect(summary.overBudget).toBe(true);
+  });
+
+  it("has no allowance or remaining amount without a budget", () => {
+    const summary = summarizeBudget({ ...trip(), budget: undefined });
+
+    expect(summary).toMatchObject({ budget: null, dailyAllowance: null, remaining: null });
+    expect(summary.overBudgetDays).toEqual([]);
+  });
+});
+
+describe("getBudgetWarning", () => {
+  const before = summarizeBudget(trip([], 150));
+
+  it("warns when a change raises the projected total over the budget", () => {
+    const after = summarizeBudget(trip([expense({ amount: 25 })], 150));
+
+    expect(getBudgetWarning(before, after)).toEqual({
+      message: "This change puts the trip 45 EUR over its budget of 150 EUR",
+      currency: "EUR",
+      budget: 150,
+      projectedTotal: 195,
+      overBy: 45,
+    });
+  });
+
+  it("stays quiet when the trip is over budget but the change doesn't add to it", () => {
+    const cheaper = summarizeBudget(
+      trip([expense({ activityId: "tour", category: "activity", amount: 70 })], 150)
+    );
+
+    expect(before.overBudget).toBe(true);
+    expect(getBudgetWarning(before, before)).toBeUndefined();
+    expect(getBudgetWarning(before, cheaper)).toBeUndefined();
+  });
+
+  it("stays quiet while the projected total is within budget", () => {
+    const after = summarizeBudget(trip([expense({ amount: 25 })], 300));
+
+    expect(getBudgetWarning(summarizeBudget(trip([], 300)), after)).toBeUndefined();
+  });
+});
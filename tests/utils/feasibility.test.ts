@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import { checkDayFeasibility, checkItineraryFeasibility } from "../../src/utils/feasibility";
+import { IActivity, IDayItinerary } from "../../src/types/itinerary.type";
+
+const OPTIONS = { maxActiveHours: 14, speedKmh: 30 };
+
+const activity = (
+  id: string,
+  time: string,
+  duration: number,
+  latitude?: number
+): IActivity => ({
+  id,
+  name: id,
+  description: id,
+  time,
+  duration,
+  category: "attraction",
+  location: { name: id, latitude, longitude: latitude === undefined ? undefined : -9.14 },
+});
+
+const day = (activities: IActivity[], date = "2026-11-02"): IDayItinerary => ({
+  day: 1,
+  date: new Date(date),
+  activities,
+});
+
+const codes = (issues: { code: string; activityIds: string[] }[]) =>
+  issues.map((issue) => `${issue.code} ${issue.activityIds.join(",")}`);
+
+describe("checkDayFeasibility", () => {
+  it("reports every pair in an overlap chain, not only neighbours", () => {
+    const issues = checkDayFeasibility(
+      day([
+        activity("b", "10:00", 60),
+        activity("a", "09:00", 180),
+        activity("c", "11:30", 60),
+        activity("d", "12:30", 60),
+      ]),
+      OPTIONS
+    );
+
+    expect(codes(issues)).toEqual(["OVERLAP a,b", "OVERLAP a,c"]);
+  });
+
+  it("reports travel that doesn't fit a gap, but not for overlapping activities", () => {
+    // About 11 km apart: 25 minutes at 30 km/h
+    const tight = checkDayFeasibility(
+      day([activity("a", "09:00", 60, 38.7), activity("b", "10:10", 60, 38.8)]),
+      OPTIONS
+    );
+    const overlapping = checkDayFeasibility(
+      day([activity("a", "09:00", 60, 38.7), activity("b", "09:30", 60, 38.8)]),
+      OPTIONS
+    );
+    const enoughTime = checkDayFeasibility(
+      day([activity("a", "09:00", 60, 38.7), activity("b", "10:30", 60, 38.8)]),
+      OPTIONS
+    );
+
+    expect(codes(tight)).toEqual(["IMPOSSIBLE_TRAVEL a,b"]);
+    expect(tight[0].message).toContain("takes about 25 minutes but only 10 are planned");
+    expect(codes(overlapping)).toEqual(["OVERLAP a,b"]);
+    expect(enoughTime).toEqual([]);
+  });
+
+  it("warns about activities running past midnight", () => {
+    const issues = checkDayFeasibility(
+      day([activity("show", "20:00", 120), activity("club", "23:00", 120)]),
+      OPTIONS
+    );
+
+    expect(codes(issues)).toEqual(["PAST_MIDNIGHT club"]);
+    expect(issues[0].severity).toBe("warning");
+  });
+
+  it("flags invalid times and days over the active-hours limit", () => {
+    const issues = checkDayFeasibility(
+      day([activity("early", "07:00", 60), activity("late", "22:00", 60), activity("x", "soon", 60)]),
+      OPTIONS
+    );
+
+    expect(codes(issues)).toEqual(["INVALID_TIME x", "DAY_TOO_LONG early,late"]);
+  });
+});
+
+describe("checkItineraryFeasibility", () => {
+  it("flags days with activities outside the trip dates", () => {
+    const issues = checkItineraryFeasibility(
+      {
+        startDate: new Date("2026-11-02"),
+        endDate: new Date("2026-11-03"),
+        dayItineraries: [
+          day([activity("a", "09:00", 60)], "2026-11-02"),
+          day([activity("b", "09:00", 60)], "2026-11-03T18:00:00Z"),
+          day([activity("c", "09:00", 60)], "2026-11-04"),
+          day([], "2026-11-05"),
+        ],
+      },
+      OPTIONS
+    );
+
+    expect(codes(issues)).toEqual(["OUTSIDE_TRIP_DATES c"]);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { buildItineraryCalendar } from "../../src/utils/ical";
+import { IActivity } from "../../src/types/itinerary.type";
+
+const activity = (overrides: Partial<IActivity> = {}): IActivity => ({
+  id: "a1",
+  name: "Castle",
+  description: "",
+  time: "09:30",
+  duration: 90,
+  category: "attraction",
+  location: { name: "Castle" },
+  ...overrides,
+});
+
+const calendarFor = (activities: IActivity[]) =>
+  buildItineraryCalendar(
+    { destination: "Lisbon", dayItineraries: [{ day: 1, date: new Date("2026-11-02"), activities }] },
+    { itineraryId: "it1" }
+  );
+
+// Undo line folding: a CRLF followed by a space continues the previous line
+const unfold = (calendar: string) => calendar.replace(/\r\n /g, "").split("\r\n");
+
+const property = (calendar: string, name: string) =>
+  unfold(calendar).find((line) => line.startsWith(`${name}:`) || line.startsWith(`${name};`));
+
+describe("buildItineraryCalendar", () => {
+  it("folds long lines at 75 octets without splitting multi-byte characters", () => {
+    const description = "Pastéis de nata 🥧 à beira-rio, ".repeat(8);
+    const calendar = calendarFor([activity({ description })]);
+
+    for (const line of calendar.split("\r\n")) {
+      expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+      // A split surrogate pair or UTF-8 sequence would not survive the round trip
+      expect(Buffer.from(line).toString()).toBe(line);
+    }
+    expect(calendar.split("\r\n").some((line) => line.startsWith(" "))).toBe(true);
+    expect(property(calendar, "DESCRIPTION")).toBe(
+      `DESCRIPTION:${description.replace(/,/g, "\\,")}`
+    );
+  });
+
+  it("escapes commas, semicolons, backslashes and newlines in text", () => {
+    const calendar = calendarFor([
+      activity({
+        name: "Lunch; then coffee, maybe",
+        description: "Line one\nLine two\r\nC:\\path",
+      }),
+    ]);
+
+    expect(property(calendar, "SUMMARY")).toBe("SUMMARY:Lunch\\; then coffee\\, maybe");
+    expect(property(calendar, "DESCRIPTION")).toBe(
+      "DESCRIPTION:Line one\\nLine two\\nC:\\\\path"
+    );
+  });
+
+  it("ends timed events after their duration", () => {
+    const calendar = calendarFor([activity({ time: "23:30", duration: 90 })]);
+
+    expect(property(calendar, "DTSTART")).toBe("DTSTART:20261102T233000");
+    // Runs past midnight into the next day
+    expect(property(calendar, "DTEND")).toBe("DTEND:20261103T010000");
+  });
+
+  it("leaves out DTEND when there is no duration", () => {
+    const calendar = calendarFor([activity({ duration: 0 })]);
+
+    expect(property(calendar, "DTSTART")).toBe("DTSTART:20261102T093000");
+    expect(property(calendar, "DTEND")).toBeUndefined();
+  });
+
+  it.each(["", "morning", "25:00", "9:75"])(
+    "makes activities with time %j all-day events",
+    (time) => {
+      const calendar = calendarFor([activity({ time })]);
+
+      expect(property(calendar, "DTSTART")).toBe("DTSTART;VALUE=DATE:20261102");
+      expect(property(calendar, "DTEND")).toBe("DTEND;VALUE=DATE:20261103");
+    }
+  );
+});
@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyScheduleTimes,
+  estimateTravelMinutes,
+  optimizeDayRoute,
+} from "../../src/utils/routeOptimizer";
+import { IActivity } from "../../src/types/itinerary.type";
+
+const activity = (
+  name: string,
+  time: string,
+  latitude: number | undefined,
+  overrides: Partial<IActivity> = {}
+): IActivity => ({
+  id: name.toLowerCase(),
+  name,
+  description: name,
+  time,
+  duration: 120,
+  category: "attraction",
+  location: { name, latitude, longitude: latitude === undefined ? undefined : 2.3 },
+  ...overrides,
+});
+
+const timeline = (activities: IActivity[]) => {
+  const schedule = optimizeDayRoute(activities);
+  return {
+    stops: applyScheduleTimes(schedule).map((a) => `${a.time} ${a.name}`),
+    violations: schedule.violations,
+  };
+};
+
+describe("optimizeDayRoute", () => {
+  it("orders flexible activities to shorten the route", () => {
+    const { stops } = timeline([
+      activity("A", "09:00", 48.8),
+      activity("C", "11:00", 48.9),
+      activity("B", "13:00", 48.85),
+    ]);
+
+    expect(stops.map((s) => s.split(" ")[1])).toEqual(["A", "B", "C"]);
+  });
+
+  it("keeps flexible activities before the fixed activity they came before", () => {
+    const { stops, violations } = timeline([
+      activity("Museum", "09:00", 48.8),
+      activity("Park", "12:00", 48.9),
+      activity("Dinner", "19:00", 48.85, { fixedTime: true, category: "dining" }),
+    ]);
+
+    expect(stops).toEqual(["09:00 Museum", "11:35 Park", "19:00 Dinner"]);
+    expect(violations).toEqual([]);
+  });
+
+  it("keeps activities after a fixed one after it", () => {
+    const { stops } = timeline([
+      activity("Breakfast", "08:00", 48.85, { fixedTime: true, duration: 60 }),
+      activity("Lunch", "12:00", 48.85, { fixedTime: true, duration: 60 }),
+      activity("Far", "13:30", 48.9),
+      activity("Near", "16:00", 48.86),
+    ]);
+
+    expect(stops).toEqual(["08:00 Breakfast", "12:00 Lunch", "13:05 Near", "15:20 Far"]);
+  });
+
+  it("keeps the time of activities without coordinates and of fixed activities", () => {
+    const { stops } = timeline([
+      activity("Walk", "09:00", 48.8),
+      activity("Show", "15:00", undefined),
+      activity("Gallery", "10:00", 48.81),
+    ]);
+
+    expect(stops).toContain("15:00 Show");
+    expect(stops[0]).toBe("09:00 Walk");
+  });
+
+  it("reports a fixed activity that can't be reached in time", () => {
+    const { violations } = timeline([
+      activity("Tour", "09:00", 48.8, { duration: 240 }),
+      activity("Concert", "12:00", 48.9, { fixedTime: true }),
+    ]);
+
+    expect(violations).toEqual(['Cannot reach "Concert" by 12:00']);
+  });
+
+  it("respects opening hours", () => {
+    const { stops } = timeline([
+      activity("Hotel", "08:00", 48.85, { fixedTime: true, duration: 30 }),
+      activity("Market", "09:00", 48.851, { openingHours: { open: "10:00", close: "14:00" } }),
+    ]);
+
+    expect(stops).toEqual(["08:00 Hotel", "10:00 Market"]);
+  });
+
+  it("never moves flexible activities past fixed ones on large days", () => {
+    const flexible = Array.from({ length: 9 }, (_, i) =>
+      activity(`Stop${i}`, `${String(8 + i).padStart(2, "0")}:00`, 48.8 + ((i * 7) % 9) * 0.01, {
+        duration: 30,
+      })
+    );
+    const dinner = activity("Dinner", "19:00", 48.85, { fixedTime: true });
+    const late = activity("Bar", "21:30", 48.9, { duration: 60 });
+
+    const { stops } = timeline([...flexible, dinner, late]);
+
+    expect(stops.indexOf("19:00 Dinner")).toBe(9);
+    expect(stops[10]).toMatch(/ Bar$/);
+  });
+});
+
+describe("estimateTravelMinutes", () => {
+  it("rounds up to 5 minutes and ignores unlocated activities", () => {
+    const from = activity("A", "09:00", 48.8);
+    const to = activity("B", "10:00", 48.85);
+
+    expect(estimateTravelMinutes(from, to)).toBe(20);
+    expect(estimateTravelMinutes(from, activity("C", "10:00", undefined))).toBe(0);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import {
+  base32Decode,
+  base32Encode,
+  generateTotp,
+  getTotpCounter,
+  verifyTotp,
+} from "../../src/utils/totp";
+
+// The SHA-1 seed from RFC 6238 appendix B
+const RFC_SECRET = base32Encode(Buffer.from("12345678901234567890"));
+
+describe("totp", () => {
+  it("round-trips base32", () => {
+    expect(RFC_SECRET).toBe("GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ");
+    expect(base32Decode(RFC_SECRET.toLowerCase()).toString()).toBe("12345678901234567890");
+  });
+
+  // The RFC lists 8-digit codes; 6-digit codes are their last six digits
+  it.each([
+    [59, "287082"],
+    [1111111109, "081804"],
+    [1111111111, "050471"],
+    [1234567890, "005924"],
+    [2000000000, "279037"],
+    [20000000000, "353130"],
+  ])("matches the RFC 6238 test vector at %i s", (seconds, code) => {
+    expect(generateTotp(RFC_SECRET, seconds * 1000)).toBe(code);
+  });
+
+  it("accepts codes one step either side and returns their counter", () => {
+    const now = 1111111111 * 1000;
+    const step = 30 * 1000;
+    const counter = getTotpCounter(now);
+
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now), 1, now)).toBe(counter);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now - step), 1, now)).toBe(counter - 1);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now + step), 1, now)).toBe(counter + 1);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now - 2 * step), 1, now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now + 2 * step), 1, now)).toBeNull();
+  });
+
+  it("rejects codes that aren't six digits", () => {
+    const now = 59 * 1000;
+
+    expect(verifyTotp(RFC_SECRET, "287 082", 1, now)).not.toBeNull();
+    expect(verifyTotp(RFC_SECRET, "94287082", 1, now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "abcdef", 1, now)).toBeNull();
+  });
+});
@@ -0,0 +1,11 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    include: ["tests/**/*.test.ts"],
+    environment: "node",
+    // Services read configuration from process.env; start every file clean
+    unstubEnvs: true,
+    restoreMocks: true,
+  },
+});